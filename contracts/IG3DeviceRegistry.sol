@@ -0,0 +1,151 @@
+// SPDX-License-Identifier: MIT
+// Compatible with OpenZeppelin Contracts ^5.0.0
+pragma solidity ^0.8.27;
+
+import "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts-upgradeable/security/PausableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import "./interface/IIG3DeviceRegistry.sol";
+import "./lib/SerialKey.sol";
+
+contract IG3DeviceRegistry is IIG3DeviceRegistry, Initializable, PausableUpgradeable, AccessControlUpgradeable, UUPSUpgradeable {
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+    bytes32 public constant UPGRADER_ROLE = keccak256("UPGRADER_ROLE");
+    bytes32 public constant REGISTRAR_ROLE = keccak256("REGISTRAR_ROLE");
+
+    event DeviceRegistered(string serial, address owner);
+    event DeviceTransferProposed(string serial, address owner, address newOwner);
+    event DeviceTransferCanceled(string serial, address owner, address newOwner);
+    event DeviceTransferred(string serial, address previousOwner, address newOwner);
+
+    mapping(bytes32 => address) private _owners; // serial key => owner wallet
+    mapping(bytes32 => address) private _pendingOwners; // serial key => wallet the owner offered the device to
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function initialize(address defaultAdmin, address pauser, address upgrader, address registrar)
+    public initializer
+    {
+        __Pausable_init();
+        __AccessControl_init();
+        __UUPSUpgradeable_init();
+
+        _grantRole(DEFAULT_ADMIN_ROLE, defaultAdmin);
+        _grantRole(PAUSER_ROLE, pauser);
+        _grantRole(UPGRADER_ROLE, upgrader);
+        _grantRole(REGISTRAR_ROLE, registrar);
+    }
+
+    function pause() public onlyRole(PAUSER_ROLE) {
+        _pause();
+    }
+
+    function unpause() public onlyRole(PAUSER_ROLE) {
+        _unpause();
+    }
+
+    function _authorizeUpgrade(address newImplementation)
+    internal
+    override
+    onlyRole(UPGRADER_ROLE)
+    {}
+
+    // CONFIGURE FUNCTIONS
+    /**
+    @notice Register a device to its owner wallet
+    @param serial Serial number of device
+    @param owner Owner wallet
+    */
+    function register(string calldata serial, address owner) onlyRole(REGISTRAR_ROLE) whenNotPaused external {
+        require(bytes(serial).length > 0, "Serial cannot be empty");
+        require(owner != address(0), "Owner cannot be 0");
+        bytes32 key = SerialKey.key(serial);
+        require(_owners[key] == address(0), "Device already registered");
+
+        _owners[key] = owner;
+
+        emit DeviceRegistered(serial, owner);
+    }
+
+    /**
+    @notice Move a device to a new owner without the consent of the current owner
+    @param serial Serial number of device
+    @param newOwner New owner wallet
+    */
+    function adminTransfer(string calldata serial, address newOwner) onlyRole(DEFAULT_ADMIN_ROLE) external {
+        require(newOwner != address(0), "Owner cannot be 0");
+        bytes32 key = SerialKey.key(serial);
+        require(_owners[key] != address(0), "Device not registered");
+
+        _transfer(serial, key, newOwner);
+    }
+
+    // PUBLIC FUNCTIONS
+    /**
+    @notice Offer a device to a new owner, who has to accept the transfer
+    @param serial Serial number of device
+    @param newOwner New owner wallet
+    */
+    function proposeTransfer(string calldata serial, address newOwner) whenNotPaused external {
+        bytes32 key = SerialKey.key(serial);
+        require(_owners[key] == msg.sender, "Not device owner");
+        require(newOwner != address(0) && newOwner != msg.sender, "Invalid new owner");
+
+        _pendingOwners[key] = newOwner;
+
+        emit DeviceTransferProposed(serial, msg.sender, newOwner);
+    }
+
+    /**
+    @notice Withdraw a pending transfer offer
+    @param serial Serial number of device
+    */
+    function cancelTransfer(string calldata serial) whenNotPaused external {
+        bytes32 key = SerialKey.key(serial);
+        require(_owners[key] == msg.sender, "Not device owner");
+        address pendingOwner = _pendingOwners[key];
+        require(pendingOwner != address(0), "No transfer found");
+
+        delete _pendingOwners[key];
+
+        emit DeviceTransferCanceled(serial, msg.sender, pendingOwner);
+    }
+
+    /**
+    @notice Accept a transfer offered to the caller
+    @param serial Serial number of device
+    */
+    function acceptTransfer(string calldata serial) whenNotPaused external {
+        bytes32 key = SerialKey.key(serial);
+        require(_pendingOwners[key] == msg.sender, "No transfer found");
+
+        _transfer(serial, key, msg.sender);
+    }
+
+    /**
+    @notice Get owner wallet of a device
+    */
+    function ownerOf(string calldata serial) public view returns (address) {
+        return _owners[SerialKey.key(serial)];
+    }
+
+    /**
+    @notice Get wallet a device is offered to
+    */
+    function pendingOwnerOf(string calldata serial) public view returns (address) {
+        return _pendingOwners[SerialKey.key(serial)];
+    }
+
+    // INTERNAL FUNCTIONS
+    function _transfer(string calldata serial, bytes32 key, address newOwner) internal {
+        address previousOwner = _owners[key];
+        _owners[key] = newOwner;
+        delete _pendingOwners[key];
+
+        emit DeviceTransferred(serial, previousOwner, newOwner);
+    }
+}
@@ -2,49 +2,27 @@
 // Compatible with OpenZeppelin Contracts ^5.0.0
 pragma solidity ^0.8.27;
 
-import "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
-import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
-import "@openzeppelin/contracts-upgradeable/security/PausableUpgradeable.sol";
-import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
-import "@openzeppelin/contracts-upgradeable/security/ReentrancyGuardUpgradeable.sol";
-import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
-
-interface IIG3Staking {
-    function reinvest(address wallet, string calldata serial, uint256 amount) external;
-}
-
-contract IG3Reward is Initializable, PausableUpgradeable, AccessControlUpgradeable, UUPSUpgradeable, ReentrancyGuardUpgradeable {
-    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
-    bytes32 public constant UPGRADER_ROLE = keccak256("UPGRADER_ROLE");
-
-    struct DeviceReward {
-        address wallet;
-        string serial;
-        uint256 value;
-    }
-
-    event RewardAdded(address wallet, string serial, uint256 value, uint256 reinvestAmount);
-    event ReinvestPercentageChanged(address wallet, uint8 percentage);
-    event Withdrawn(address wallet, uint256 amount, string[] serials);
-    event TokenAddressChanged(address tokenAddress);
-    event RewardWalletChanged(address wallet);
-    event StakingAddressChanged(address stakingAddress);
+import "./lib/Modules.sol";
+import "./reward/IG3RewardBase.sol";
 
-    address public tokenAddress;
-    address public stakingAddress;
-    address private _rewardWallet;
-    mapping(address => mapping(bytes9 => uint256)) private  _balances; // wallet => serial number => balance
-    mapping(address => uint8) public reinvestPercentages; // wallet => reinvest percentage
+contract IG3Reward is IG3RewardBase {
+    using SerialSet for SerialSet.Set;
 
+    /// @custom:oz-upgrades-unsafe-allow state-variable-immutable
+    address private immutable _distribution; // IG3RewardDistribution module, running the functions that add and pay out rewards
 
     /// @custom:oz-upgrades-unsafe-allow constructor
-    constructor() {
-        _disableInitializers();
+    constructor(address distribution) {
+        require(distribution.code.length > 0, "Module has no code");
+        _distribution = distribution;
     }
 
     function initialize(address defaultAdmin, address pauser, address upgrader, address token, address staking)
     public initializer
     {
+        require(token != address(0), "Token address cannot be 0");
+        require(staking != address(0), "Staking address cannot be 0");
+
         __Pausable_init();
         __AccessControl_init();
         __UUPSUpgradeable_init();
@@ -54,11 +32,24 @@ contract IG3Reward is Initializable, PausableUpgradeable, AccessControlUpgradeab
         _grantRole(PAUSER_ROLE, pauser);
         _grantRole(UPGRADER_ROLE, upgrader);
 
+        // Default config delay
+        configDelay = MIN_CONFIG_DELAY;
         // Token address
         tokenAddress = token;
         stakingAddress = staking;
     }
 
+    /**
+    @dev Give proxies initialized before MIN_CONFIG_DELAY, which started without a config delay, the minimum delay
+    */
+    function initializeConfigDelay() public reinitializer(2) {
+        if (configDelay < MIN_CONFIG_DELAY) {
+            configDelay = MIN_CONFIG_DELAY;
+
+            emit ConfigDelayChanged(MIN_CONFIG_DELAY);
+        }
+    }
+
     function pause() public onlyRole(PAUSER_ROLE) {
         _pause();
     }
@@ -67,32 +58,180 @@ contract IG3Reward is Initializable, PausableUpgradeable, AccessControlUpgradeab
         _unpause();
     }
 
-    function _authorizeUpgrade(address newImplementation)
-    internal
-    override
-    onlyRole(UPGRADER_ROLE)
-    {}
-
     // CONFIGURE FUNCTIONS
     /**
-    @notice Set token contract address for reward
+    @notice Propose a new delay between proposing and executing configuration changes
+    @dev The new delay itself only takes effect after the current delay
+    @param delay delay in seconds, between MIN_CONFIG_DELAY and MAX_CONFIG_DELAY
+    */
+    function proposeConfigDelay(uint256 delay) onlyRole(DEFAULT_ADMIN_ROLE) external {
+        require(delay >= MIN_CONFIG_DELAY && delay <= MAX_CONFIG_DELAY, "Invalid delay");
+
+        _proposeConfigChange(ConfigParameter.ConfigDelay, delay);
+    }
+
+    /**
+    @notice Propose a new token contract address for reward
     @param contractAddress contractAddress
     */
-    function setTokenAddress(address contractAddress) onlyRole(DEFAULT_ADMIN_ROLE) external {
-        tokenAddress = contractAddress;
+    function proposeTokenAddress(address contractAddress) onlyRole(DEFAULT_ADMIN_ROLE) external {
+        require(contractAddress != address(0), "Token address cannot be 0");
 
-        emit TokenAddressChanged(contractAddress);
+        _proposeConfigChange(ConfigParameter.TokenAddress, uint256(uint160(contractAddress)));
     }
 
+    /**
+    @notice Propose a new staking contract receiving reinvested rewards
+    @param staking staking contract address
+    */
+    function proposeStakingAddress(address staking) onlyRole(DEFAULT_ADMIN_ROLE) external {
+        require(staking != address(0), "Staking address cannot be 0");
+
+        _proposeConfigChange(ConfigParameter.StakingAddress, uint256(uint160(staking)));
+    }
 
     /**
-    @notice Set wallet address that hold reward fund
+    @notice Propose a new wallet address that hold reward fund
     @param wallet wallet address
     */
-    function setRewardWallet(address wallet) onlyRole(DEFAULT_ADMIN_ROLE) external {
-        _rewardWallet = wallet;
+    function proposeRewardWallet(address wallet) onlyRole(DEFAULT_ADMIN_ROLE) external {
+        require(wallet != address(0), "Reward wallet cannot be 0");
+
+        _proposeConfigChange(ConfigParameter.RewardWallet, uint256(uint160(wallet)));
+    }
+
+    /**
+    @notice Propose a new forwarder relaying EIP-712 signed requests on behalf of wallets
+    @param forwarder forwarder address, or 0 to stop accepting relayed requests
+    */
+    function proposeTrustedForwarder(address forwarder) onlyRole(DEFAULT_ADMIN_ROLE) external {
+        _proposeConfigChange(ConfigParameter.TrustedForwarder, uint256(uint160(forwarder)));
+    }
+
+    /**
+    @notice Propose a new device registry enforcing that rewards are added for the device owner
+    @param contractAddress registry address, or 0 to stop enforcing ownership
+    */
+    function proposeRegistryAddress(address contractAddress) onlyRole(DEFAULT_ADMIN_ROLE) external {
+        _proposeConfigChange(ConfigParameter.RegistryAddress, uint256(uint160(contractAddress)));
+    }
+
+    /**
+    @notice Apply a proposed configuration change once its delay is over
+    @param parameter parameter of the change
+    */
+    function executeConfigChange(ConfigParameter parameter) onlyRole(DEFAULT_ADMIN_ROLE) external {
+        ConfigChange memory change = _pendingConfigChanges[parameter];
+        require(change.executableAt > 0, "No pending change");
+        require(block.timestamp >= change.executableAt, "Change not ready");
+        delete _pendingConfigChanges[parameter];
+
+        if (parameter == ConfigParameter.ConfigDelay) {
+            configDelay = change.value;
+
+            emit ConfigDelayChanged(change.value);
+        } else if (parameter == ConfigParameter.TokenAddress) {
+            tokenAddress = address(uint160(change.value));
+
+            emit TokenAddressChanged(tokenAddress);
+        } else if (parameter == ConfigParameter.StakingAddress) {
+            stakingAddress = address(uint160(change.value));
+
+            emit StakingAddressChanged(stakingAddress);
+        } else if (parameter == ConfigParameter.RewardWallet) {
+            _rewardWallet = address(uint160(change.value));
+
+            emit RewardWalletChanged(_rewardWallet);
+        } else if (parameter == ConfigParameter.TrustedForwarder) {
+            trustedForwarder = address(uint160(change.value));
+
+            emit TrustedForwarderChanged(trustedForwarder);
+        } else {
+            registryAddress = address(uint160(change.value));
+
+            emit RegistryAddressChanged(registryAddress);
+        }
+    }
+
+    /**
+    @notice Drop a proposed configuration change before it is executed
+    @param parameter parameter of the change
+    */
+    function cancelConfigChange(ConfigParameter parameter) onlyRole(DEFAULT_ADMIN_ROLE) external {
+        ConfigChange memory change = _pendingConfigChanges[parameter];
+        require(change.executableAt > 0, "No pending change");
+        delete _pendingConfigChanges[parameter];
+
+        emit ConfigChangeCanceled(parameter, change.value);
+    }
+
+    /**
+    @notice Make addRewards and postRewardEpoch revert when liabilities would exceed the reward funds
+    @param enabled whether the check is enforced
+    */
+    function setSolvencyCheck(bool enabled) onlyRole(DEFAULT_ADMIN_ROLE) external {
+        solvencyCheckEnabled = enabled;
+
+        emit SolvencyCheckChanged(enabled);
+    }
+
+    /**
+    @notice Set coverage under which RewardCoverageLow is emitted when rewards are added
+    @param threshold coverage in basis points, 0 to disable
+    */
+    function setCoverageThreshold(uint256 threshold) onlyRole(DEFAULT_ADMIN_ROLE) external {
+        coverageThreshold = threshold;
+
+        emit CoverageThresholdChanged(threshold);
+    }
+
+    /**
+    @notice Set vesting schedule of rewards added from now on, rewards already added keep their schedule
+    @param duration seconds over which rewards vest linearly, 0 to disable vesting
+    @param cliff seconds before anything vests
+    */
+    function setVestingSchedule(uint64 duration, uint64 cliff) onlyRole(DEFAULT_ADMIN_ROLE) external {
+        require(cliff <= duration, "Invalid cliff");
+        vestingDuration = duration;
+        vestingCliff = cliff;
+
+        emit VestingScheduleChanged(duration, cliff);
+    }
+
+    /**
+    @notice Set how addRewards handles devices below their minimum stake in IG3Staking
+    @param policy pay, skip or reject rewards of inactive devices
+    */
+    function setInactiveDevicePolicy(InactiveDevicePolicy policy) onlyRole(DEFAULT_ADMIN_ROLE) external {
+        inactiveDevicePolicy = policy;
+
+        emit InactiveDevicePolicyChanged(policy);
+    }
+
+    /**
+    @notice Scale rewards added by addRewards with the lock multiplier of the device in IG3Staking
+    @param enabled whether rewards are boosted
+    */
+    function setLockBoost(bool enabled) onlyRole(DEFAULT_ADMIN_ROLE) external {
+        lockBoostEnabled = enabled;
+
+        emit LockBoostChanged(enabled);
+    }
 
-        emit RewardWalletChanged(wallet);
+    /**
+    @notice Switch from pulling rewards out of the reward wallet to paying them from funds held by this contract
+    @dev Pulls `amount` from the reward wallet, which must cover the outstanding liabilities.
+    Unclaimed rewards still under legacy bytes9 keys are not part of the liabilities and should be added on top.
+    */
+    function migrateToVault(uint256) external {
+        Modules.delegate(_distribution);
+    }
+
+    /**
+    @notice Withdraw vault funds not backing any liability
+    */
+    function withdrawVaultSurplus(address, uint256) external {
+        Modules.delegate(_distribution);
     }
 
     /**
@@ -102,74 +241,168 @@ contract IG3Reward is Initializable, PausableUpgradeable, AccessControlUpgradeab
         return _rewardWallet;
     }
 
+    /**
+    @notice Get the pending change of a configuration parameter, executableAt is 0 when none is pending
+    */
+    function getPendingConfigChange(ConfigParameter parameter) public view returns (ConfigChange memory) {
+        return _pendingConfigChanges[parameter];
+    }
+
     /**
     @notice Add rewards for list of devices of specific wallet
-    @param rewards array of rewards which contain wallet address, device serial number and value
-    */
-    function addRewards(DeviceReward[] calldata rewards) onlyRole(DEFAULT_ADMIN_ROLE) external {
-        IERC20 token = IERC20(tokenAddress);
-        for (uint256 i = 0; i < rewards.length; i++) {
-            bytes9 serial = bytes9(bytes(rewards[i].serial));
-            // Check reinvest percentage
-            uint8 percentage = reinvestPercentages[rewards[i].wallet];
-            uint256 reinvestAmount = 0;
-            if (percentage > 0) {
-                reinvestAmount = rewards[i].value * percentage / 100;
-                // Call TOPS contract to transfer
-                token.transferFrom(_rewardWallet, stakingAddress, reinvestAmount);
-                // Call staking address
-                IIG3Staking ig3Staking = IIG3Staking(stakingAddress);
-                ig3Staking.reinvest(rewards[i].wallet, rewards[i].serial, reinvestAmount);
-            }
-            _balances[rewards[i].wallet][serial] += rewards[i].value - reinvestAmount;
-
-            emit RewardAdded(rewards[i].wallet, rewards[i].serial, rewards[i].value, reinvestAmount);
-        }
+    */
+    function addRewards(DeviceReward[] calldata) external {
+        Modules.delegate(_distribution);
+    }
+
+    /**
+    @notice Post the merkle root of a reward epoch, letting each wallet claim its own device rewards
+    @dev Leaves are keccak256(bytes.concat(keccak256(abi.encode(wallet, serial, value))))
+    */
+    function postRewardEpoch(bytes32, uint256) external returns (uint256) {
+        Modules.delegate(_distribution);
     }
 
     // PUBLIC FUNCTIONS
+    /**
+    @notice Fund the reward vault
+    */
+    function fund(uint256) external {
+        Modules.delegate(_distribution);
+    }
+
     /**
     @notice Set reinvest percentage
     @param percentage Reinvest percentage
     */
     function setReinvestPercentage(uint8 percentage) whenNotPaused nonReentrant external  {
         require(percentage <= 100, "Invalid percentage");
-        reinvestPercentages[msg.sender] = percentage;
+        reinvestPercentages[_msgSender()] = percentage;
+
+        emit ReinvestPercentageChanged(_msgSender(), percentage);
+    }
+
+    /**
+    @notice Set reinvest percentage of a device, overriding the wallet reinvest percentage
+    @param serial Serial number of device
+    @param percentage Reinvest percentage
+    */
+    function setDeviceReinvestPercentage(string calldata serial, uint8 percentage) whenNotPaused nonReentrant external {
+        require(percentage <= 100, "Invalid percentage");
+        DeviceReinvestSetting storage setting = _deviceReinvestSettings[_msgSender()][SerialKey.key(serial)];
+        setting.hasPercentage = true;
+        setting.percentage = percentage;
 
-        emit ReinvestPercentageChanged(msg.sender, percentage);
+        emit DeviceReinvestPercentageChanged(_msgSender(), serial, percentage);
     }
 
     /**
-    @notice Withdraw reward
+    @notice Make a device fall back to the wallet reinvest percentage
+    @param serial Serial number of device
     */
-    function withdraw(string[] calldata serials) whenNotPaused nonReentrant external {
-        uint256 balance = 0;
-        // Calculate withdraw request amount
-        for (uint256 i = 0; i < serials.length; ++i) {
-            bytes9 serial = bytes9(bytes(serials[i]));
-            balance += _balances[msg.sender][serial];
-            _balances[msg.sender][serial] = 0; // Clear the requested reward balance
+    function clearDeviceReinvestPercentage(string calldata serial) whenNotPaused nonReentrant external {
+        DeviceReinvestSetting storage setting = _deviceReinvestSettings[_msgSender()][SerialKey.key(serial)];
+        setting.hasPercentage = false;
+        setting.percentage = 0;
+
+        emit DeviceReinvestPercentageCleared(_msgSender(), serial);
+    }
+
+    /**
+    @notice Route the reinvested share of a device's rewards into another device
+    @param serial Serial number of the rewarded device
+    @param target Serial number of the device to stake into, or empty to reinvest into the rewarded device
+    */
+    function setReinvestTarget(string calldata serial, string calldata target) whenNotPaused nonReentrant external {
+        if (bytes(target).length > 0) {
+            _checkDeviceOwner(_msgSender(), target);
         }
-        require(balance > 0, "Insufficient balance");
+        _deviceReinvestSettings[_msgSender()][SerialKey.key(serial)].target = target;
 
-        // Call TOPS contract to transfer
-        IERC20 token = IERC20(tokenAddress);
-        token.transferFrom(_rewardWallet, msg.sender, balance);
+        emit ReinvestTargetChanged(_msgSender(), serial, target);
+    }
 
-        emit Withdrawn(msg.sender, balance, serials);
+    /**
+    @notice Withdraw reward, leaving the unvested part of the balances
+    */
+    function withdraw(string[] calldata) external {
+        Modules.delegate(_distribution);
+    }
+
+    /**
+    @notice Claim device rewards of an epoch, reinvesting the share set by the reinvest percentage
+    @dev While vesting is enabled the rest is credited to the device balance and vests like added rewards
+    */
+    function claimEpochRewards(uint256, EpochRewardClaim[] calldata) external {
+        Modules.delegate(_distribution);
+    }
+
+    /**
+    @notice Check whether a device reward of an epoch was claimed
+    */
+    function isEpochRewardClaimed(uint256 epoch, address wallet, string calldata serial, uint256 value) public view returns (bool) {
+        return _claimedEpochRewards[epoch][_epochRewardLeaf(wallet, serial, value)];
+    }
+
+    /**
+    @notice Get the serials of a wallet with unclaimed rewards, with their balances
+    @dev Rewards still held under legacy bytes9 keys are listed once migrated
+    */
+    function getDeviceBalances(address wallet) public view returns (SerialBalance[] memory) {
+        string[] memory serials = _walletSerials[wallet].values();
+        SerialBalance[] memory deviceBalances = new SerialBalance[](serials.length);
+        for (uint256 i = 0; i < serials.length; i++) {
+            deviceBalances[i] = SerialBalance({serial: serials[i], balance: _balances[wallet][SerialKey.key(serials[i])]});
+        }
+        return deviceBalances;
+    }
+
+    /**
+    @notice Get the sum of unclaimed rewards of a wallet
+    */
+    function getUnclaimedAmount(address wallet) public view returns (uint256) {
+        return _unclaimedAmounts[wallet];
     }
 
     /**
     @notice Get balance
+    @dev Counts rewards not yet moved off the legacy bytes9 key of the serial
     */
     function getBalance(address wallet, string calldata serial) public view returns (uint256) {
-        return _balances[wallet][bytes9(bytes(serial))];
+        return _balances[wallet][SerialKey.key(serial)] + _legacyBalances[wallet][SerialKey.legacyKey(serial)];
     }
 
-    function setStakingAddress(address staking) onlyRole(DEFAULT_ADMIN_ROLE) external {
-        stakingAddress = staking;
+    /**
+    @notice Get the part of a device balance that can be withdrawn now
+    */
+    function getVestedAmount(address wallet, string calldata serial) public view returns (uint256) {
+        return getBalance(wallet, serial) - getUnvestedAmount(wallet, serial);
+    }
 
-        emit StakingAddressChanged(staking);
+    /**
+    @notice Get the part of a device balance still vesting
+    */
+    function getUnvestedAmount(address wallet, string calldata serial) public view returns (uint256) {
+        VestingGrant[] storage grants = _vestingGrants[wallet][SerialKey.key(serial)];
+        uint256 unvested = 0;
+        for (uint256 i = 0; i < grants.length; i++) {
+            unvested += grants[i].amount - _vestedAmount(grants[i]);
+        }
+        return unvested;
+    }
+
+    /**
+    @notice Get rewards of a device paid out to the wallet, by withdraw or epoch claims
+    */
+    function getClaimedAmount(address wallet, string calldata serial) public view returns (uint256) {
+        return _claimedAmounts[wallet][SerialKey.key(serial)];
+    }
+
+    /**
+    @notice Get rewards of a device that are not fully vested yet
+    */
+    function getVestingGrants(address wallet, string calldata serial) public view returns (VestingGrant[] memory) {
+        return _vestingGrants[wallet][SerialKey.key(serial)];
     }
 
     function getReinvestPercentage(address wallet) public view returns (uint8) {
@@ -179,4 +412,4 @@ contract IG3Reward is Initializable, PausableUpgradeable, AccessControlUpgradeab
     function getStakingAddress() public view returns (address) {
         return stakingAddress;
     }
-}
\ No newline at end of file
+}
@@ -2,57 +2,33 @@
 // Compatible with OpenZeppelin Contracts ^5.0.0
 pragma solidity ^0.8.27;
 
-import "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
-import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
-import "@openzeppelin/contracts-upgradeable/security/PausableUpgradeable.sol";
-import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
-import "@openzeppelin/contracts-upgradeable/security/ReentrancyGuardUpgradeable.sol";
-import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "./lib/Modules.sol";
+import "./staking/IG3StakingBase.sol";
 
-contract IG3Staking is Initializable, PausableUpgradeable, AccessControlUpgradeable, UUPSUpgradeable, ReentrancyGuardUpgradeable {
-    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
-    bytes32 public constant UPGRADER_ROLE = keccak256("UPGRADER_ROLE");
-    bytes32 public constant REINVEST_ROLE = keccak256("REINVEST_ROLE");
-
-    struct DepositInfo {
-        string serial;
-        uint256 amount;
-    }
-
-    struct DeviceBalance {
-        bytes9 serial;
-        uint256 balance;
-    }
-
-    struct WithdrawRequest {
-        uint256 id;
-        uint256 timestamp;
-        uint256 amount;
-        DeviceBalance[] deviceBalances;
-    }
-
-    event RequestTimeChanged(uint256 time);
-    event TokenAddressChanged(address tokenAddress);
-    event Deposited(address wallet, string serial, uint256 amount);
-    event WithdrawRequested(uint256 requestId, address wallet, string serial, uint256 timestamp, uint256 amount);
-    event WithdrawRequestCanceled(uint256 requestId, address wallet, string serial, uint256 timestamp, uint256 amount);
-    event Withdrawn(uint256 requestId, address wallet, uint256 amount);
+contract IG3Staking is IG3StakingBase {
+    using SerialSet for SerialSet.Set;
+    using CheckpointsUpgradeable for CheckpointsUpgradeable.History;
 
-
-    uint256 public requestTime;
-    address public tokenAddress;
-    uint256 private _requestId;
-    mapping(address => mapping(bytes9 => uint256)) private  _balances; // wallet => serial number => balance
-    mapping(address => WithdrawRequest) public withdrawRequests; // wallet => request (each wallet can only have 1 request at a time)
+    /// @custom:oz-upgrades-unsafe-allow state-variable-immutable
+    address private immutable _admin; // IG3StakingAdmin module, running configuration and slashing functions
+    /// @custom:oz-upgrades-unsafe-allow state-variable-immutable
+    address private immutable _deposits; // IG3StakingDeposits module, running the functions that add, move and transfer stake and yield
+    /// @custom:oz-upgrades-unsafe-allow state-variable-immutable
+    address private immutable _withdrawals; // IG3StakingWithdrawals module, running the functions that request and withdraw stake
 
     /// @custom:oz-upgrades-unsafe-allow constructor
-    constructor() {
-        _disableInitializers();
+    constructor(address admin, address deposits, address withdrawals) {
+        require(admin.code.length > 0 && deposits.code.length > 0 && withdrawals.code.length > 0, "Module has no code");
+        _admin = admin;
+        _deposits = deposits;
+        _withdrawals = withdrawals;
     }
 
     function initialize(address defaultAdmin, address pauser, address upgrader, address token)
     public initializer
     {
+        require(token != address(0), "Token address cannot be 0");
+
         __Pausable_init();
         __AccessControl_init();
         __UUPSUpgradeable_init();
@@ -64,163 +40,486 @@ contract IG3Staking is Initializable, PausableUpgradeable, AccessControlUpgradea
 
         // Default request time
         requestTime = 7 days;
+        // Default config delay
+        configDelay = MIN_CONFIG_DELAY;
         // Token address
         tokenAddress = token;
     }
 
+    /**
+    @dev Give proxies initialized before MIN_CONFIG_DELAY, which started without a config delay, the minimum delay
+    */
+    function initializeConfigDelay() public reinitializer(2) {
+        if (configDelay < MIN_CONFIG_DELAY) {
+            configDelay = MIN_CONFIG_DELAY;
+
+            emit ConfigDelayChanged(MIN_CONFIG_DELAY);
+        }
+    }
+
     function pause() public onlyRole(PAUSER_ROLE) {
         _pause();
     }
 
+    /**
+    @notice Unpause, turning emergency mode off
+    */
     function unpause() public onlyRole(PAUSER_ROLE) {
         _unpause();
-    }
+        if (emergencyMode) {
+            emergencyMode = false;
 
-    function _authorizeUpgrade(address newImplementation)
-    internal
-    override
-    onlyRole(UPGRADER_ROLE)
-    {}
+            emit EmergencyModeChanged(false);
+        }
+    }
 
     // CONFIGURE FUNCTIONS
     /**
-    @notice Set request waiting time
-    @param time waiting time
+    @notice Propose a new delay between proposing and executing configuration changes
+    @dev The new delay itself only takes effect after the current delay
     */
-    function setRequestTime(uint256 time) onlyRole(DEFAULT_ADMIN_ROLE) external {
-        requestTime = time;
+    function proposeConfigDelay(uint256) external {
+        Modules.delegate(_admin);
+    }
 
-        emit RequestTimeChanged(time);
+    /**
+    @notice Propose a new request waiting time
+    */
+    function proposeRequestTime(uint256) external {
+        Modules.delegate(_admin);
     }
 
     /**
-    @notice Set token contract address for reward
-    @param contractAddress contractAddress
+    @notice Propose a new staked token contract address
     */
-    function setTokenAddress(address contractAddress) onlyRole(DEFAULT_ADMIN_ROLE) external {
-        if (contractAddress == address(0)) {
-            revert("Token address cannot be 0");
-        }
+    function proposeTokenAddress(address) external {
+        Modules.delegate(_admin);
+    }
 
-        tokenAddress = contractAddress;
+    /**
+    @notice Propose a new forwarder relaying EIP-712 signed requests on behalf of wallets
+    */
+    function proposeTrustedForwarder(address) external {
+        Modules.delegate(_admin);
+    }
 
-        emit TokenAddressChanged(contractAddress);
+    /**
+    @notice Propose a new device registry enforcing that deposits are made by the device owner
+    */
+    function proposeRegistryAddress(address) external {
+        Modules.delegate(_admin);
     }
 
     /**
-    @notice Reinvest reward
-    @param serial Serial number of device
+    @notice Apply a proposed configuration change once its delay is over
     */
-    function reinvest(address wallet, string calldata serial, uint256 amount) onlyRole(REINVEST_ROLE) external {
-        if (amount == 0) {
-            revert("Amount must be greater than 0");
-        }
+    function executeConfigChange(ConfigParameter) external {
+        Modules.delegate(_admin);
+    }
 
-        // Increase balance
-        _balances[wallet][bytes9(bytes(serial))] += amount;
+    /**
+    @notice Drop a proposed configuration change before it is executed
+    */
+    function cancelConfigChange(ConfigParameter) external {
+        Modules.delegate(_admin);
+    }
 
-        emit Deposited(wallet, serial, amount);
+    /**
+    @notice Set yield emitted per second, shared by staked balances pro rata
+    @dev Emission stops while the yield reserve is empty
+    */
+    function setYieldRate(uint256) external {
+        Modules.delegate(_admin);
+    }
+
+    /**
+    @notice Set stake a device needs to be active, for devices without a class
+    @dev Only balance changes emit DeviceStatusChanged, devices crossing the new minimum are not reported
+    */
+    function setMinimumStake(uint256) external {
+        Modules.delegate(_admin);
+    }
+
+    /**
+    @notice Set stake a device of a class needs to be active
+    */
+    function setClassMinimumStake(bytes32, uint256) external {
+        Modules.delegate(_admin);
+    }
+
+    /**
+    @notice Assign a device to a class with its own minimum stake
+    */
+    function setDeviceClass(string calldata, bytes32) external {
+        Modules.delegate(_admin);
+    }
+
+    /**
+    @notice Let wallets pull their staked balances and pending requests without waiting, while deposits and reinvests are blocked
+    @dev Can only be enabled while paused, and is turned off by unpause
+    */
+    function setEmergencyMode(bool) external {
+        Modules.delegate(_admin);
+    }
+
+    /**
+    @notice Configure a lock tier that deposits can choose
+    */
+    function setLockTier(uint8, uint64, uint32) external {
+        Modules.delegate(_admin);
+    }
+
+    /**
+    @notice Set receiver of slashed stake
+    */
+    function setSlashTreasury(address) external {
+        Modules.delegate(_admin);
+    }
+
+    /**
+    @notice Slash a fixed amount from the stake of a device, taking the staked balance first and then pending withdraw requests
+    */
+    function slash(address, string calldata, uint256) external {
+        Modules.delegate(_admin);
+    }
+
+    /**
+    @notice Slash a percentage of the stake of a device, including stake in pending withdraw requests
+    */
+    function slashPercentage(address, string calldata, uint256) external {
+        Modules.delegate(_admin);
+    }
+
+    /**
+    @notice Reinvest reward
+    */
+    function reinvest(address, string calldata, uint256) external {
+        Modules.delegate(_deposits);
+    }
+
+    /**
+    @notice Reinvest rewards for multiple devices, after their total was transferred to this contract
+    */
+    function bulkReinvest(ReinvestInfo[] calldata) external {
+        Modules.delegate(_deposits);
     }
 
     // PUBLIC FUNCTIONS
     /**
     @notice Deposit staking amount
-    @param serial Serial number of device
     */
-    function deposit(string calldata serial, uint256 amount) whenNotPaused nonReentrant external {
-        require(amount > 0, "Amount must be greater than 0");
+    function deposit(string calldata, uint256) external {
+        Modules.delegate(_deposits);
+    }
 
-        // Transfer token to contract
-        IERC20 token = IERC20(tokenAddress);
-        token.transferFrom(msg.sender, address(this), amount);
-        // Increase balance
-        _balances[msg.sender][bytes9(bytes(serial))] += amount;
+    /**
+    @notice Deposit staking amount, approving it with an EIP-2612 permit signature instead of a separate approve
+    @dev A permit already used by someone else is ignored, the deposit then relies on the existing allowance
+    */
+    function depositWithPermit(string calldata, uint256, uint256, uint8, bytes32, bytes32) external {
+        Modules.delegate(_deposits);
+    }
 
-        emit Deposited(msg.sender, serial, amount);
+    /**
+    @notice Deposit staking amount locked for the duration of a lock tier, boosting its reward multiplier
+    */
+    function depositLocked(string calldata, uint256, uint8) external {
+        Modules.delegate(_deposits);
     }
 
     /**
     @notice Deposit staking amount for multiple devices
-    @param depositInfos list of deposit info with serial and amount
     */
-    function bulkDeposit(DepositInfo[] calldata depositInfos) whenNotPaused nonReentrant external {
-        IERC20 token = IERC20(tokenAddress);
-        for (uint256 i = 0; i < depositInfos.length; i++) {
-            DepositInfo memory depositInfo = depositInfos[i];
-            require(depositInfo.amount > 0, "Amount must be greater than 0");
+    function bulkDeposit(DepositInfo[] calldata) external {
+        Modules.delegate(_deposits);
+    }
 
-            // Transfer token to contract
-            token.transferFrom(msg.sender, address(this), depositInfo.amount);
-            // Increase balance
-            _balances[msg.sender][bytes9(bytes(depositInfo.serial))] += depositInfo.amount;
+    /**
+    @notice Fund the yield reserve
+    */
+    function fundYield(uint256) external {
+        Modules.delegate(_deposits);
+    }
+
+    /**
+    @notice Transfer the yield accrued by a list of devices to the caller
+    */
+    function claimYield(string[] calldata) external {
+        Modules.delegate(_deposits);
+    }
+
+    /**
+    @notice Stake the yield accrued by a list of devices into the same devices
+    */
+    function compoundYield(string[] calldata) external {
+        Modules.delegate(_deposits);
+    }
+
+    /**
+    @notice Deposit staking amount for a device of another wallet
+    @dev The wallet's own stake is requested before sponsored stake.
+    Repeated deposits of a sponsor add up, a device owes stake back to at most MAX_DEVICE_SPONSORS sponsors
+    */
+    function depositFor(address, string calldata, uint256, bool) external {
+        Modules.delegate(_deposits);
+    }
 
-            emit Deposited(msg.sender, depositInfo.serial, depositInfo.amount);
+    /**
+    @notice Deposit staking amount for devices of other wallets
+    */
+    function bulkDepositFor(DepositForInfo[] calldata, bool) external {
+        Modules.delegate(_deposits);
+    }
+
+    /**
+    @notice Submit a request to withdraw the whole unlocked balance of a list of devices
+    @dev Devices without unlocked balance are skipped, the request reverts if none has any
+    */
+    function request(string[] calldata) external returns (uint256) {
+        Modules.delegate(_withdrawals);
+    }
+
+    /**
+    @notice Submit a request to withdraw specific amounts from a list of devices
+    */
+    function requestPartial(SerialBalance[] calldata) external returns (uint256) {
+        Modules.delegate(_withdrawals);
+    }
+
+    /**
+    @notice Cancel withdraw request
+    */
+    function cancel(uint256) external {
+        Modules.delegate(_withdrawals);
+    }
+
+    /**
+    @notice Withdraw, paying sponsored stake in the request back to its sponsors
+    */
+    function withdraw(uint256) external {
+        Modules.delegate(_withdrawals);
+    }
+
+    /**
+    @notice Move unlocked stake between two devices of the caller without a withdraw request
+    */
+    function moveStake(string calldata, string calldata, uint256) external {
+        Modules.delegate(_deposits);
+    }
+
+    /**
+    @notice Transfer the staked balance of a device to another wallet, along with its locks and sponsorships
+    @dev Pending withdraw requests and accrued yield stay with the caller. With a registry set, the receiver must own the device
+    */
+    function transferStake(string calldata, address) external {
+        Modules.delegate(_deposits);
+    }
+
+    /**
+    @notice Withdraw staked balances and pending requests of the caller at once, bypassing the request time
+    @dev Only available in emergency mode, while paused. Sponsored stake is paid back to its sponsors and accrued yield is left to claim once unpaused.
+    Wallets with more devices or requests than fit in a block withdraw them over several calls
+    */
+    function emergencyWithdraw(string[] calldata, uint256[] calldata) external {
+        Modules.delegate(_withdrawals);
+    }
+
+    /**
+    @notice Record the current staked amount of wallets whose stake has not changed since checkpoints were introduced
+    @dev Stake is checkpointed on every change, so this is only needed once per wallet after the upgrade adding checkpoints
+    */
+    function checkpointStake(address[] calldata) external {
+        Modules.delegate(_deposits);
+    }
+
+    /**
+    @notice Get a pending withdraw request of a wallet
+    */
+    function getWithdrawRequest(address wallet, uint256 requestId) public view returns (WithdrawRequest memory) {
+        return _getWithdrawRequest(wallet, requestId);
+    }
+
+    /**
+    @notice Get the serials of a wallet with a non-zero balance, with their balances
+    @dev Balances still held under legacy bytes9 keys are listed once migrated
+    */
+    function getDeviceBalances(address wallet) public view returns (SerialBalance[] memory) {
+        string[] memory serials = _walletSerials[wallet].values();
+        SerialBalance[] memory deviceBalances = new SerialBalance[](serials.length);
+        for (uint256 i = 0; i < serials.length; i++) {
+            deviceBalances[i] = SerialBalance({serial: serials[i], balance: _balances[wallet][SerialKey.key(serials[i])]});
         }
+        return deviceBalances;
+    }
+
+    /**
+    @notice Get the pending change of a configuration parameter, executableAt is 0 when none is pending
+    */
+    function getPendingConfigChange(ConfigParameter parameter) public view returns (ConfigChange memory) {
+        return _pendingConfigChanges[parameter];
+    }
+
+    /**
+    @notice Get the sum of device balances of a wallet, excluding amounts in withdraw requests
+    */
+    function getStakedAmount(address wallet) public view returns (uint256) {
+        return _stakedAmounts[wallet];
+    }
+
+    /**
+    @notice Get the staked amount of a wallet at the end of a past block, excluding amounts in withdraw requests
+    @dev Used by governance to count staked TOPS as voting power
+    */
+    function getPastStake(address wallet, uint256 blockNumber) public view returns (uint256) {
+        require(blockNumber < block.number, "Future lookup");
+        return _stakeCheckpoints[wallet].getAtProbablyRecentBlock(blockNumber);
+    }
+
+    /**
+    @notice Get the total staked amount at the end of a past block, excluding amounts in withdraw requests
+    */
+    function getPastTotalStake(uint256 blockNumber) public view returns (uint256) {
+        require(blockNumber < block.number, "Future lookup");
+        return _totalStakeCheckpoints.getAtProbablyRecentBlock(blockNumber);
+    }
+
+    /**
+    @notice Get the sum of pending withdraw request amounts of a wallet
+    */
+    function getRequestedAmount(address wallet) public view returns (uint256) {
+        return _requestedAmounts[wallet];
+    }
+
+    /**
+    @notice Get the stake of a device that sponsors get back on withdraw, excluding pending requests
+    */
+    function getSponsoredStake(address wallet, string calldata serial) public view returns (uint256) {
+        return _sponsoredAmounts[wallet][SerialKey.key(serial)];
+    }
+
+    /**
+    @notice Get the sponsors of a device with the stake they get back on withdraw
+    */
+    function getSponsorships(address wallet, string calldata serial) public view returns (Sponsorship[] memory) {
+        return _sponsorships[wallet][SerialKey.key(serial)];
+    }
+
+    /**
+    @notice Get the sponsored stake in a pending withdraw request
+    */
+    function getRequestSponsorships(uint256 requestId) public view returns (RequestSponsorship[] memory) {
+        return _requestSponsorships[requestId];
+    }
 
+    /**
+    @notice Get the deposited, outstanding and returned stake of a sponsor
+    */
+    function getSponsorAccount(address sponsor) public view returns (SponsorAccount memory) {
+        return _sponsorAccounts[sponsor];
     }
 
     /**
-    @notice Submit a request to withdraw from list of devices
-    @param serials array of device serial numbers
+    @notice Get the part of a device balance that cannot be requested yet
     */
-    function request(string[] calldata serials) whenNotPaused nonReentrant external {
-        WithdrawRequest storage withdrawRequest = withdrawRequests[msg.sender];
-        require(withdrawRequest.id == 0, "Already have a waiting request");
+    function getLockedStake(address wallet, string calldata serial) public view returns (uint256) {
+        return _lockedAmount(wallet, SerialKey.key(serial));
+    }
 
-        uint256 balance = 0;
-        // Calculate withdraw request amount
-        withdrawRequest.id = ++_requestId;
-        for (uint256 i = 0; i < serials.length; ++i) {
-            bytes9 serial = bytes9(bytes(serials[i]));
-            withdrawRequest.deviceBalances.push(DeviceBalance({serial: serial, balance: _balances[msg.sender][serial]}));
-            balance += _balances[msg.sender][serial];
-            _balances[msg.sender][serial] = 0; // Clear the requested reward balance
-            emit WithdrawRequested(withdrawRequest.id, msg.sender, serials[i], withdrawRequest.timestamp, balance);
+    /**
+    @notice Get the part of a device balance that can be requested
+    */
+    function getUnlockedStake(address wallet, string calldata serial) public view returns (uint256) {
+        return getBalance(wallet, serial) - _lockedAmount(wallet, SerialKey.key(serial));
+    }
+
+    /**
+    @notice Get the locked portions of a device balance with their unlock timestamps
+    */
+    function getStakeLocks(address wallet, string calldata serial) public view returns (StakeLock[] memory) {
+        StakeLock[] storage stakeLocks = _stakeLocks[wallet][SerialKey.key(serial)];
+        uint256 count = 0;
+        for (uint256 i = 0; i < stakeLocks.length; i++) {
+            if (stakeLocks[i].unlockTime > block.timestamp) {
+                count++;
+            }
         }
-        require(balance > 0, "Insufficient balance");
-        withdrawRequest.timestamp = block.timestamp + requestTime;
-        withdrawRequest.amount = balance;
+
+        StakeLock[] memory activeLocks = new StakeLock[](count);
+        count = 0;
+        for (uint256 i = 0; i < stakeLocks.length; i++) {
+            if (stakeLocks[i].unlockTime > block.timestamp) {
+                activeLocks[count++] = stakeLocks[i];
+            }
+        }
+        return activeLocks;
     }
 
     /**
-    @notice Cancel withdraw request
+    @notice Get the reward multiplier of a device, weighting its locked portions by their tier multiplier
+    @dev Stake below the minimum stake of the device counts as unlocked, a boost needs locks covering the minimum stake
+    @return multiplier in basis points, MULTIPLIER_BASE for unlocked stake
     */
-    function cancel() whenNotPaused nonReentrant external {
-        WithdrawRequest storage withdrawRequest = withdrawRequests[msg.sender];
-        require(withdrawRequest.id > 0, "No request found");
-        DeviceBalance[] memory deviceBalances = withdrawRequest.deviceBalances;
-        // Return balance to staking amount
-        for (uint256 i = 0; i < deviceBalances.length; i++) {
-            _balances[msg.sender][deviceBalances[i].serial] += deviceBalances[i].balance;
-            emit WithdrawRequestCanceled(withdrawRequest.id, msg.sender, string(abi.encodePacked(deviceBalances[i].serial)), withdrawRequest.timestamp, deviceBalances[i].balance);
+    function getRewardMultiplier(address wallet, string calldata serial) public view returns (uint256) {
+        bytes32 key = SerialKey.key(serial);
+        StakeLock[] storage stakeLocks = _stakeLocks[wallet][key];
+        uint256 locked = 0;
+        uint256 weighted = 0;
+        for (uint256 i = 0; i < stakeLocks.length; i++) {
+            if (stakeLocks[i].unlockTime > block.timestamp) {
+                locked += stakeLocks[i].amount;
+                weighted += stakeLocks[i].amount * stakeLocks[i].multiplier;
+            }
+        }
+        if (locked == 0) {
+            return MULTIPLIER_BASE;
         }
 
-        // Clear withdrawn request
-        delete withdrawRequests[msg.sender];
+        // Weighted against at least the minimum stake, so a small lock cannot boost the reward of the whole device
+        uint256 stake = Math.max(_balances[wallet][key], _minimumStake(key));
+        if (stake <= locked) {
+            return weighted / locked;
+        }
+        return (weighted + (stake - locked) * MULTIPLIER_BASE) / stake;
     }
 
     /**
-    @notice Withdraw
+    @notice Get class of a device, 0 when it uses the default minimum stake
     */
-    function withdraw() whenNotPaused nonReentrant external {
-        WithdrawRequest storage withdrawRequest = withdrawRequests[msg.sender];
-        require(withdrawRequest.id > 0, "No request found");
-        require(block.timestamp >= withdrawRequest.timestamp, "Waiting time not over");
+    function getDeviceClass(string calldata serial) public view returns (bytes32) {
+        return _deviceClasses[SerialKey.key(serial)];
+    }
 
-        // Call TOPS contract to transfer
-        IERC20 token = IERC20(tokenAddress);
-        token.transfer(msg.sender, withdrawRequests[msg.sender].amount);
+    /**
+    @notice Get stake a device needs to be active
+    */
+    function getMinimumStake(string memory serial) public view returns (uint256) {
+        return _minimumStake(SerialKey.key(serial));
+    }
 
-        emit Withdrawn(withdrawRequest.id, msg.sender, withdrawRequests[msg.sender].amount);
+    /**
+    @notice Check whether a device has a staked balance of at least its minimum stake
+    @dev Amounts in withdraw requests do not count
+    */
+    function isActive(address wallet, string calldata serial) public view returns (bool) {
+        return _isActive(getBalance(wallet, serial), _minimumStake(SerialKey.key(serial)));
+    }
 
-        // Clear withdrawn request
-        delete withdrawRequests[msg.sender];
+    /**
+    @notice Get yield emitted per staked token up to now, scaled by YIELD_PRECISION
+    */
+    function yieldPerToken() public view returns (uint256) {
+        if (totalStaked == 0) {
+            return yieldPerTokenStored;
+        }
+        return yieldPerTokenStored + _pendingEmission() * YIELD_PRECISION / totalStaked;
     }
 
     /**
-    @notice Get balance
+    @notice Get yield accrued by a device and not claimed yet
+    @dev Amounts in withdraw requests and balances still under legacy bytes9 keys do not accrue
     */
-    function getBalance(address wallet, string calldata serial) public view returns (uint256) {
-        return _balances[wallet][bytes9(bytes(serial))];
+    function getPendingYield(address wallet, string calldata serial) public view returns (uint256) {
+        bytes32 key = SerialKey.key(serial);
+        return _accruedYield[wallet][key] + _balances[wallet][key] * (yieldPerToken() - _yieldPerTokenPaid[wallet][key]) / YIELD_PRECISION;
     }
-}
\ No newline at end of file
+}
@@ -5,25 +5,104 @@ pragma solidity ^0.8.0;
 import "@openzeppelin/contracts-upgradeable/token/ERC20/extensions/ERC20CappedUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/token/ERC20/extensions/ERC20BurnableUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/access/AccessControlEnumerableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/token/ERC20/extensions/ERC20PermitUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/token/ERC20/extensions/ERC20PausableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/token/ERC20/extensions/ERC20VotesUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
 
 import "./interface/IMintableBurnableERC20.sol";
 /**
  * @title TOPS
  * @dev Implementation of the TOPS token, tradable token
  */
-contract TOPS is ERC20BurnableUpgradeable, ERC20CappedUpgradeable, AccessControlEnumerableUpgradeable {
+contract TOPS is ERC20BurnableUpgradeable, ERC20CappedUpgradeable, AccessControlEnumerableUpgradeable, ERC20PermitUpgradeable, PausableUpgradeable, ERC20PausableUpgradeable, UUPSUpgradeable, ERC20VotesUpgradeable {
     bytes32 public constant MINTER_ROLE = keccak256("MINTER_ROLE");
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+    bytes32 public constant UPGRADER_ROLE = keccak256("UPGRADER_ROLE");
     uint256 public constant MAX_SUPPLY = 10_000_000_000; // Max supply of 10,000,000,000 tokens
+    // Storage slot of ERC20VotesUpgradeable._totalSupplyCheckpoints, fixed by the append-only proxy layout
+    uint256 private constant _TOTAL_SUPPLY_CHECKPOINTS_SLOT = 657;
 
-    function initialize() public initializer {
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    /**
+     * @dev Initialize the token. Roles are granted to the given accounts only, so the proxy can be
+     * deployed and initialized by any account.
+     * @param admin Holder of DEFAULT_ADMIN_ROLE and PAUSER_ROLE
+     * @param minter Holder of MINTER_ROLE, or 0 to grant it later
+     * @param upgrader Holder of UPGRADER_ROLE
+     */
+    function initialize(address admin, address minter, address upgrader) public initializer {
         __ERC20_init("TOPS", "TOPS");
         __ERC20Capped_init(MAX_SUPPLY * 10 ** decimals());
         __ERC20Burnable_init();
         __AccessControlEnumerable_init();
+        __ERC20Permit_init("TOPS");
+        __ERC20Pausable_init();
+        __UUPSUpgradeable_init();
+        __ERC20Votes_init();
+
+        _grantRole(DEFAULT_ADMIN_ROLE, admin);
+        _grantRole(PAUSER_ROLE, admin);
+        _grantRole(UPGRADER_ROLE, upgrader);
+        if (minter != address(0)) {
+            _grantRole(MINTER_ROLE, minter);
+        }
+    }
+
+    /**
+     * @dev Set up the EIP-712 domain of permit signatures on proxies deployed before permit support.
+     */
+    function initializePermit() public reinitializer(2) {
+        __ERC20Permit_init("TOPS");
+    }
+
+    /**
+     * @dev Set up permit and vote checkpoints on proxies deployed before vote delegation. The supply minted
+     * before the upgrade was never checkpointed, so the total supply checkpoint is seeded with it; without it
+     * total supply lookups return 0 and burning underflows.
+     */
+    function initializeVotes() public reinitializer(3) {
+        __ERC20Permit_init("TOPS");
+
+        uint256 supply = totalSupply();
+        uint256 slot = _TOTAL_SUPPLY_CHECKPOINTS_SLOT;
+        uint256 length;
+        assembly {
+            length := sload(slot)
+        }
+        if (length == 0 && supply > 0) {
+            // Checkpoint {uint32 fromBlock; uint224 votes} packed in a single slot
+            uint256 checkpoint = (uint256(SafeCastUpgradeable.toUint224(supply)) << 32) | SafeCastUpgradeable.toUint32(clock());
+            /// @solidity memory-safe-assembly
+            assembly {
+                sstore(slot, 1)
+                mstore(0, slot)
+                sstore(keccak256(0, 32), checkpoint)
+            }
+        }
+    }
+
+    /**
+     * @dev Pause transfers, minting and burning during an incident.
+     */
+    function pause() public onlyRole(PAUSER_ROLE) {
+        _pause();
+    }
 
-        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+    function unpause() public onlyRole(PAUSER_ROLE) {
+        _unpause();
     }
 
+    function _authorizeUpgrade(address newImplementation)
+    internal
+    override
+    onlyRole(UPGRADER_ROLE)
+    {}
+
     /*
      * ERC20 FUNCTIONS
      */
@@ -39,7 +118,28 @@ contract TOPS is ERC20BurnableUpgradeable, ERC20CappedUpgradeable, AccessControl
     /**
      * @inheritdoc ERC20Upgradeable
      */
-    function _mint(address account, uint256 amount) internal override(ERC20Upgradeable, ERC20CappedUpgradeable) {
-        ERC20CappedUpgradeable._mint(account, amount);
+    function _mint(address account, uint256 amount) internal override(ERC20Upgradeable, ERC20CappedUpgradeable, ERC20VotesUpgradeable) {
+        super._mint(account, amount);
+    }
+
+    /**
+     * @inheritdoc ERC20VotesUpgradeable
+     */
+    function _burn(address account, uint256 amount) internal override(ERC20Upgradeable, ERC20VotesUpgradeable) {
+        super._burn(account, amount);
+    }
+
+    /**
+     * @inheritdoc ERC20VotesUpgradeable
+     */
+    function _afterTokenTransfer(address from, address to, uint256 amount) internal override(ERC20Upgradeable, ERC20VotesUpgradeable) {
+        super._afterTokenTransfer(from, to, amount);
+    }
+
+    /**
+     * @inheritdoc ERC20PausableUpgradeable
+     */
+    function _beforeTokenTransfer(address from, address to, uint256 amount) internal override(ERC20Upgradeable, ERC20PausableUpgradeable) {
+        ERC20PausableUpgradeable._beforeTokenTransfer(from, to, amount);
     }
 }
\ No newline at end of file
@@ -0,0 +1,15 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.0;
+
+/**
+ * @title IIG3DeviceRegistry
+ * @dev IIG3DeviceRegistry is an interface for the registry binding device serial numbers to owner wallets.
+ */
+interface IIG3DeviceRegistry {
+    /**
+     * @dev Returns the owner wallet of a device, or the zero address if it is not registered.
+     * @param serial The serial number of the device.
+     */
+    function ownerOf(string calldata serial) external view returns (address);
+}
@@ -0,0 +1,29 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.0;
+
+/**
+ * @title Modules
+ * @dev Forwarding of calls to modules, contracts holding part of the functions of a contract too large to deploy
+ * in one piece. Modules inherit the storage layout of the contract and run on its storage through delegatecall.
+ */
+library Modules {
+    /**
+     * @dev Run the current call on a module and end it with the module's result, returning or reverting with its data.
+     * @custom:oz-upgrades-unsafe-allow delegatecall
+     */
+    function delegate(address module) internal {
+        assembly {
+            calldatacopy(0, 0, calldatasize())
+            let result := delegatecall(gas(), module, 0, calldatasize(), 0, 0)
+            returndatacopy(0, 0, returndatasize())
+            switch result
+            case 0 {
+                revert(0, returndatasize())
+            }
+            default {
+                return(0, returndatasize())
+            }
+        }
+    }
+}
@@ -0,0 +1,24 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.0;
+
+/**
+ * @title SerialKey
+ * @dev Storage keys for device serial numbers
+ */
+library SerialKey {
+    /**
+     * @dev Full-length key of a serial number, distinct for every serial regardless of its length.
+     */
+    function key(string memory serial) internal pure returns (bytes32) {
+        return keccak256(bytes(serial));
+    }
+
+    /**
+     * @dev Key used before the full-length migration. Serials longer than 9 bytes are truncated
+     * and may share a legacy key with other serials.
+     */
+    function legacyKey(string memory serial) internal pure returns (bytes9) {
+        return bytes9(bytes(serial));
+    }
+}
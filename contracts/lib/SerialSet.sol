@@ -0,0 +1,60 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.0;
+
+import "./SerialKey.sol";
+
+/**
+ * @title SerialSet
+ * @dev Enumerable set of device serial numbers, keyed by {SerialKey-key}
+ */
+library SerialSet {
+    struct Set {
+        string[] serials;
+        mapping(bytes32 => uint256) indexes; // serial key => position in serials + 1
+    }
+
+    /**
+     * @dev Add a serial to the set. Returns false if it was already present.
+     */
+    function add(Set storage set, string memory serial) internal returns (bool) {
+        bytes32 key = SerialKey.key(serial);
+        if (set.indexes[key] != 0) {
+            return false;
+        }
+
+        set.serials.push(serial);
+        set.indexes[key] = set.serials.length;
+        return true;
+    }
+
+    /**
+     * @dev Remove a serial from the set. Returns false if it was not present.
+     */
+    function remove(Set storage set, string memory serial) internal returns (bool) {
+        bytes32 key = SerialKey.key(serial);
+        uint256 index = set.indexes[key];
+        if (index == 0) {
+            return false;
+        }
+
+        // Swap the last serial into the freed position
+        uint256 lastIndex = set.serials.length;
+        if (index != lastIndex) {
+            string memory lastSerial = set.serials[lastIndex - 1];
+            set.serials[index - 1] = lastSerial;
+            set.indexes[SerialKey.key(lastSerial)] = index;
+        }
+        set.serials.pop();
+        delete set.indexes[key];
+        return true;
+    }
+
+    function contains(Set storage set, string memory serial) internal view returns (bool) {
+        return set.indexes[SerialKey.key(serial)] != 0;
+    }
+
+    function values(Set storage set) internal view returns (string[] memory) {
+        return set.serials;
+    }
+}
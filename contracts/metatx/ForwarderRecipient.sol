@@ -0,0 +1,40 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import "@openzeppelin/contracts-upgradeable/utils/ContextUpgradeable.sol";
+
+/**
+ * @title ForwarderRecipient
+ * @dev ERC-2771 recipient reading the trusted forwarder from the inheriting contract, so the forwarder can be
+ * changed by an admin and no storage is added to the inheritance chain of upgradeable contracts.
+ */
+abstract contract ForwarderRecipient is ContextUpgradeable {
+    /**
+     * @dev Forwarder whose calls carry the original sender, or 0 when none is trusted
+     */
+    function _trustedForwarder() internal view virtual returns (address);
+
+    function isTrustedForwarder(address forwarder) public view virtual returns (bool) {
+        return forwarder != address(0) && forwarder == _trustedForwarder();
+    }
+
+    function _msgSender() internal view virtual override returns (address sender) {
+        if (isTrustedForwarder(msg.sender) && msg.data.length >= 20) {
+            // The forwarder appends the signer of the request to the call data
+            /// @solidity memory-safe-assembly
+            assembly {
+                sender := shr(96, calldataload(sub(calldatasize(), 20)))
+            }
+        } else {
+            return super._msgSender();
+        }
+    }
+
+    function _msgData() internal view virtual override returns (bytes calldata) {
+        if (isTrustedForwarder(msg.sender) && msg.data.length >= 20) {
+            return msg.data[:msg.data.length - 20];
+        } else {
+            return super._msgData();
+        }
+    }
+}
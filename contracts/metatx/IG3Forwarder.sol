@@ -0,0 +1,83 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+
+/**
+ * @title IG3Forwarder
+ * @dev Relays EIP-712 signed requests to contracts trusting it as forwarder, appending the signer to the call data
+ * as described in ERC-2771. Each request carries the signer's next nonce and a deadline.
+ */
+contract IG3Forwarder is EIP712 {
+    using ECDSA for bytes32;
+
+    struct ForwardRequest {
+        address from;
+        address to;
+        uint256 value;
+        uint256 gas;
+        uint256 nonce;
+        uint256 deadline;
+        bytes data;
+    }
+
+    bytes32 private constant _TYPEHASH =
+        keccak256("ForwardRequest(address from,address to,uint256 value,uint256 gas,uint256 nonce,uint256 deadline,bytes data)");
+
+    event RequestExecuted(address from, address to, uint256 nonce);
+
+    mapping(address => uint256) private _nonces; // signer => next nonce
+
+    constructor() EIP712("IG3Forwarder", "1") {}
+
+    /**
+     * @dev Next nonce a request of `from` must carry
+     */
+    function getNonce(address from) public view returns (uint256) {
+        return _nonces[from];
+    }
+
+    /**
+     * @dev Check that a request is signed by `from`, carries its next nonce and has not expired
+     */
+    function verify(ForwardRequest calldata req, bytes calldata signature) public view returns (bool) {
+        address signer = _hashTypedDataV4(
+            keccak256(abi.encode(_TYPEHASH, req.from, req.to, req.value, req.gas, req.nonce, req.deadline, keccak256(req.data)))
+        ).recover(signature);
+        return signer == req.from && _nonces[req.from] == req.nonce && block.timestamp <= req.deadline;
+    }
+
+    /**
+     * @dev Execute a signed request, reverting with the target's reason when the call fails
+     */
+    function execute(ForwardRequest calldata req, bytes calldata signature) public payable returns (bytes memory) {
+        require(block.timestamp <= req.deadline, "Request expired");
+        require(_nonces[req.from] == req.nonce, "Invalid nonce");
+        require(verify(req, signature), "Invalid signature");
+        require(msg.value == req.value, "Invalid value");
+        _nonces[req.from] = req.nonce + 1;
+
+        (bool success, bytes memory returndata) = req.to.call{gas: req.gas, value: req.value}(
+            abi.encodePacked(req.data, req.from)
+        );
+
+        // Validate that the relayer has sent enough gas for the call
+        if (gasleft() <= req.gas / 63) {
+            /// @solidity memory-safe-assembly
+            assembly {
+                invalid()
+            }
+        }
+        if (!success) {
+            /// @solidity memory-safe-assembly
+            assembly {
+                revert(add(returndata, 32), mload(returndata))
+            }
+        }
+
+        emit RequestExecuted(req.from, req.to, req.nonce);
+
+        return returndata;
+    }
+}
@@ -0,0 +1,422 @@
+// SPDX-License-Identifier: MIT
+// Compatible with OpenZeppelin Contracts ^5.0.0
+pragma solidity ^0.8.27;
+
+import "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts-upgradeable/security/PausableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/security/ReentrancyGuardUpgradeable.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import "../interface/IIG3DeviceRegistry.sol";
+import "../lib/SerialKey.sol";
+import "../lib/SerialSet.sol";
+import "../metatx/ForwarderRecipient.sol";
+
+interface IIG3Staking {
+    struct ReinvestInfo {
+        address wallet;
+        string serial;
+        uint256 amount;
+    }
+
+    function reinvest(address wallet, string calldata serial, uint256 amount) external;
+    function bulkReinvest(ReinvestInfo[] calldata reinvestInfos) external;
+    function isActive(address wallet, string calldata serial) external view returns (bool);
+    function getRewardMultiplier(address wallet, string calldata serial) external view returns (uint256);
+}
+
+/**
+ * @title IG3RewardBase
+ * @dev Storage, events and internal functions shared by IG3Reward and its modules. Modules run on the storage of the
+ * IG3Reward proxy, so state variables are only declared here and new ones are appended after the existing ones.
+ */
+abstract contract IG3RewardBase is Initializable, PausableUpgradeable, AccessControlUpgradeable, UUPSUpgradeable, ReentrancyGuardUpgradeable, ForwarderRecipient {
+    using SerialSet for SerialSet.Set;
+
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+    bytes32 public constant UPGRADER_ROLE = keccak256("UPGRADER_ROLE");
+    uint256 public constant COVERAGE_BASE = 10_000; // coverage is expressed in basis points
+    uint256 public constant MULTIPLIER_BASE = 10_000; // IG3Staking reward multipliers are expressed in basis points
+    uint256 public constant MIN_CONFIG_DELAY = 1 days; // also the delay of new proxies, so that timelocked changes never apply at once
+    uint256 public constant MAX_CONFIG_DELAY = 30 days;
+
+    enum InactiveDevicePolicy {
+        Pay, // add rewards regardless of the device stake
+        Skip, // leave out rewards of devices below their minimum stake
+        Reject // revert batches containing devices below their minimum stake
+    }
+
+    enum ConfigParameter {
+        ConfigDelay, // delay between proposing and executing configuration changes
+        TokenAddress,
+        StakingAddress,
+        RewardWallet,
+        TrustedForwarder,
+        RegistryAddress
+    }
+
+    struct ConfigChange {
+        uint256 value; // proposed value, addresses are stored as uint160
+        uint256 executableAt; // time from which the change can be executed, 0 when none is pending
+    }
+
+    struct DeviceReward {
+        address wallet;
+        string serial;
+        uint256 value;
+    }
+
+    struct SerialBalance {
+        string serial;
+        uint256 balance;
+    }
+
+    struct DeviceReinvestSetting {
+        bool hasPercentage; // whether percentage overrides the wallet reinvest percentage
+        uint8 percentage;
+        string target; // serial receiving the reinvested share, the rewarded serial itself when empty
+    }
+
+    struct RewardCoverage {
+        uint256 liabilities; // unclaimed balances plus unclaimed epoch rewards
+        uint256 balance; // reward wallet token balance, or vault funds in vault mode
+        uint256 allowance; // reward wallet allowance to this contract, or vault funds in vault mode
+        uint256 coverage; // min(balance, allowance) over liabilities, in basis points
+    }
+
+    struct RewardEpoch {
+        bytes32 root;
+        uint256 total;
+        uint256 claimed;
+    }
+
+    struct VestingGrant {
+        uint64 start; // time the reward was added
+        uint64 cliff; // seconds after start before anything vests
+        uint64 duration; // seconds after start when the reward is fully vested
+        uint256 amount;
+    }
+
+    struct EpochRewardClaim {
+        string serial;
+        uint256 value;
+        bytes32[] proof;
+    }
+
+    event RewardAdded(address wallet, string serial, uint256 value, uint256 reinvestAmount);
+    event ReinvestPercentageChanged(address wallet, uint8 percentage);
+    event DeviceReinvestPercentageChanged(address wallet, string serial, uint8 percentage);
+    event DeviceReinvestPercentageCleared(address wallet, string serial);
+    event ReinvestTargetChanged(address wallet, string serial, string target);
+    event Withdrawn(address wallet, uint256 amount, string[] serials);
+    event TokenAddressChanged(address tokenAddress);
+    event RegistryAddressChanged(address registryAddress);
+    event TrustedForwarderChanged(address forwarder);
+    event RewardWalletChanged(address wallet);
+    event StakingAddressChanged(address stakingAddress);
+    event ConfigDelayChanged(uint256 delay);
+    event ConfigChangeProposed(ConfigParameter parameter, uint256 value, uint256 executableAt);
+    event ConfigChangeCanceled(ConfigParameter parameter, uint256 value);
+    event LegacyBalanceMigrated(address wallet, string serial, uint256 amount);
+    event RewardEpochPosted(uint256 epoch, bytes32 root, uint256 total);
+    event EpochRewardClaimed(uint256 epoch, address wallet, string serial, uint256 value, uint256 reinvestAmount);
+    event SolvencyCheckChanged(bool enabled);
+    event CoverageThresholdChanged(uint256 threshold);
+    event RewardCoverageLow(uint256 liabilities, uint256 available, uint256 coverage);
+    event VaultMigrated(uint256 liabilities, uint256 amount);
+    event RewardsFunded(address funder, uint256 amount);
+    event VaultSurplusWithdrawn(address to, uint256 amount);
+    event VestingScheduleChanged(uint64 duration, uint64 cliff);
+    event InactiveDevicePolicyChanged(InactiveDevicePolicy policy);
+    event RewardSkipped(address wallet, string serial, uint256 value);
+    event LockBoostChanged(bool enabled);
+
+    address public tokenAddress;
+    address public stakingAddress;
+    address internal _rewardWallet;
+    /// @custom:oz-renamed-from _balances
+    mapping(address => mapping(bytes9 => uint256)) internal  _legacyBalances; // wallet => truncated serial number => balance
+    mapping(address => uint8) public reinvestPercentages; // wallet => reinvest percentage
+    mapping(address => mapping(bytes32 => uint256)) internal _balances; // wallet => serial key => balance
+    uint256 public totalUnclaimed; // sum of unclaimed reward balances
+    mapping(address => uint256) internal _unclaimedAmounts; // wallet => sum of unclaimed reward balances
+    mapping(address => SerialSet.Set) internal _walletSerials; // wallet => serials with unclaimed rewards
+    address public registryAddress; // device registry, ownership is not enforced while unset
+    uint256 public epochCount;
+    mapping(uint256 => RewardEpoch) public rewardEpochs; // epoch => merkle root and totals
+    mapping(uint256 => mapping(bytes32 => bool)) internal _claimedEpochRewards; // epoch => leaf => claimed
+    mapping(address => mapping(bytes32 => DeviceReinvestSetting)) internal _deviceReinvestSettings; // wallet => serial key => reinvest setting
+    uint256 public totalEpochOutstanding; // sum of posted epoch totals not claimed yet
+    bool public solvencyCheckEnabled; // whether addRewards and postRewardEpoch refuse to exceed the reward funds
+    uint256 public coverageThreshold; // coverage in basis points under which RewardCoverageLow is emitted
+    bool public vaultEnabled; // whether rewards are paid from tokens held by this contract instead of the reward wallet
+    uint256 public vaultFunds; // tokens held by this contract for rewards
+    uint64 public vestingDuration; // seconds over which added rewards vest, vesting is disabled when 0
+    uint64 public vestingCliff; // seconds before added rewards start vesting
+    mapping(address => mapping(bytes32 => VestingGrant[])) internal _vestingGrants; // wallet => serial key => rewards not fully vested
+    mapping(address => mapping(bytes32 => uint256)) internal _claimedAmounts; // wallet => serial key => rewards paid out
+    InactiveDevicePolicy public inactiveDevicePolicy; // handling of rewards for devices not active in IG3Staking
+    bool public lockBoostEnabled; // whether addRewards scales rewards by the IG3Staking lock multiplier of the device
+    address public trustedForwarder; // forwarder relaying signed requests, calls through it act for the signer
+    uint256 public configDelay; // seconds a proposed configuration change waits before it can be executed
+    mapping(ConfigParameter => ConfigChange) internal _pendingConfigChanges; // parameter => pending change
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function _authorizeUpgrade(address newImplementation)
+    internal
+    override
+    onlyRole(UPGRADER_ROLE)
+    {}
+
+    // PUBLIC FUNCTIONS
+    /**
+    @notice Get rewards owed by the contract, excluding balances not yet moved off legacy bytes9 keys
+    */
+    function getTotalLiabilities() public view returns (uint256) {
+        return totalUnclaimed + totalEpochOutstanding;
+    }
+
+    /**
+    @notice Compare owed rewards against the vault funds, or what the contract can pull from the reward wallet
+    */
+    function getRewardCoverage() public view returns (RewardCoverage memory) {
+        RewardCoverage memory rewardCoverage;
+        rewardCoverage.liabilities = getTotalLiabilities();
+        if (vaultEnabled) {
+            rewardCoverage.balance = vaultFunds;
+            rewardCoverage.allowance = vaultFunds;
+        } else if (_rewardWallet != address(0)) {
+            IERC20 token = IERC20(tokenAddress);
+            rewardCoverage.balance = token.balanceOf(_rewardWallet);
+            rewardCoverage.allowance = token.allowance(_rewardWallet, address(this));
+        }
+        rewardCoverage.coverage = _coverage(rewardCoverage.liabilities, Math.min(rewardCoverage.balance, rewardCoverage.allowance));
+        return rewardCoverage;
+    }
+
+    /**
+    @notice Get reinvest percentage applied to a device, falling back to the wallet reinvest percentage
+    */
+    function getDeviceReinvestPercentage(address wallet, string memory serial) public view returns (uint8) {
+        DeviceReinvestSetting storage setting = _deviceReinvestSettings[wallet][SerialKey.key(serial)];
+        return setting.hasPercentage ? setting.percentage : reinvestPercentages[wallet];
+    }
+
+    /**
+    @notice Get serial the reinvested share of a device's rewards is staked into
+    */
+    function getReinvestTarget(address wallet, string memory serial) public view returns (string memory) {
+        string storage target = _deviceReinvestSettings[wallet][SerialKey.key(serial)].target;
+        return bytes(target).length > 0 ? target : serial;
+    }
+
+    // INTERNAL FUNCTIONS
+    /**
+    @dev Record a configuration change executable once the config delay is over, replacing any pending change of the parameter
+    */
+    function _proposeConfigChange(ConfigParameter parameter, uint256 value) internal {
+        uint256 executableAt = block.timestamp + configDelay;
+        _pendingConfigChanges[parameter] = ConfigChange({value: value, executableAt: executableAt});
+
+        emit ConfigChangeProposed(parameter, value, executableAt);
+    }
+
+    function _trustedForwarder() internal view override returns (address) {
+        return trustedForwarder;
+    }
+
+    function _msgSender() internal view override(ContextUpgradeable, ForwarderRecipient) returns (address) {
+        return ForwarderRecipient._msgSender();
+    }
+
+    function _msgData() internal view override(ContextUpgradeable, ForwarderRecipient) returns (bytes calldata) {
+        return ForwarderRecipient._msgData();
+    }
+
+    /**
+    @dev Enforce the solvency check and report low coverage after liabilities grew.
+    Vault mode always requires liabilities to be backed 1:1 by vault funds.
+    */
+    function _checkCoverage() internal {
+        RewardCoverage memory rewardCoverage = getRewardCoverage();
+        uint256 available = Math.min(rewardCoverage.balance, rewardCoverage.allowance);
+        if (vaultEnabled) {
+            require(rewardCoverage.liabilities <= available, "Insufficient vault funds");
+        } else if (solvencyCheckEnabled) {
+            require(rewardCoverage.liabilities <= available, "Insufficient reward funds");
+        }
+        if (rewardCoverage.coverage < coverageThreshold) {
+            emit RewardCoverageLow(rewardCoverage.liabilities, available, rewardCoverage.coverage);
+        }
+    }
+
+    function _coverage(uint256 liabilities, uint256 available) internal pure returns (uint256) {
+        if (liabilities == 0) {
+            return type(uint256).max;
+        }
+        return available * COVERAGE_BASE / liabilities;
+    }
+
+    /**
+    @dev Move the summed reinvest amounts to the staking contract in one transfer and credit them in one call
+    @param reinvestInfos reinvest entries, of which only the first `count` are used
+    */
+    function _reinvest(IIG3Staking.ReinvestInfo[] memory reinvestInfos, uint256 count, uint256 total) internal {
+        if (count == 0) {
+            return;
+        }
+
+        // Shrink the array to the used entries
+        assembly {
+            mstore(reinvestInfos, count)
+        }
+
+        _payout(stakingAddress, total);
+        // Call staking address
+        IIG3Staking(stakingAddress).bulkReinvest(reinvestInfos);
+    }
+
+    /**
+    @dev Credit the claimed share of an epoch reward to the device balance while vesting is enabled
+    @return amount to pay out right away
+    */
+    function _settleEpochReward(address wallet, string calldata serial, uint256 amount) internal returns (uint256) {
+        if (vestingDuration == 0) {
+            _claimedAmounts[wallet][SerialKey.key(serial)] += amount;
+            return amount;
+        }
+
+        _migrateLegacyBalance(wallet, serial);
+        _credit(wallet, serial, amount);
+        _addVestingGrant(wallet, serial, amount);
+        return 0;
+    }
+
+    /**
+    @dev Start vesting a credited reward under the current schedule, merging rewards added in the same block
+    */
+    function _addVestingGrant(address wallet, string memory serial, uint256 amount) internal {
+        if (vestingDuration == 0 || amount == 0) {
+            return;
+        }
+
+        VestingGrant[] storage grants = _vestingGrants[wallet][SerialKey.key(serial)];
+        uint256 length = grants.length;
+        if (length > 0) {
+            VestingGrant storage last = grants[length - 1];
+            if (last.start == block.timestamp && last.cliff == vestingCliff && last.duration == vestingDuration) {
+                last.amount += amount;
+                return;
+            }
+        }
+        grants.push(VestingGrant({start: uint64(block.timestamp), cliff: vestingCliff, duration: vestingDuration, amount: amount}));
+    }
+
+    /**
+    @dev Drop fully vested grants of a device
+    @return unvested amount still vesting
+    */
+    function _pruneVestingGrants(address wallet, bytes32 key) internal returns (uint256) {
+        VestingGrant[] storage grants = _vestingGrants[wallet][key];
+        uint256 unvested = 0;
+        uint256 i = 0;
+        while (i < grants.length) {
+            uint256 grantUnvested = grants[i].amount - _vestedAmount(grants[i]);
+            if (grantUnvested == 0) {
+                grants[i] = grants[grants.length - 1];
+                grants.pop();
+            } else {
+                unvested += grantUnvested;
+                i++;
+            }
+        }
+        return unvested;
+    }
+
+    function _vestedAmount(VestingGrant memory grant) internal view returns (uint256) {
+        uint256 elapsed = block.timestamp - grant.start;
+        if (elapsed >= grant.duration) {
+            return grant.amount;
+        }
+        if (elapsed < grant.cliff) {
+            return 0;
+        }
+        return grant.amount * elapsed / grant.duration;
+    }
+
+    /**
+    @dev Send rewards from the vault, or from the reward wallet before migrating to the vault
+    */
+    function _payout(address to, uint256 amount) internal {
+        IERC20 token = IERC20(tokenAddress);
+        if (vaultEnabled) {
+            vaultFunds -= amount;
+            token.transfer(to, amount);
+        } else {
+            token.transferFrom(_rewardWallet, to, amount);
+        }
+    }
+
+    function _epochRewardLeaf(address wallet, string calldata serial, uint256 value) internal pure returns (bytes32) {
+        return keccak256(bytes.concat(keccak256(abi.encode(wallet, serial, value))));
+    }
+
+    /**
+    @dev Revert unless the wallet owns the device in the registry, when one is set
+    */
+    function _checkDeviceOwner(address wallet, string memory serial) internal view {
+        if (registryAddress != address(0)) {
+            require(IIG3DeviceRegistry(registryAddress).ownerOf(serial) == wallet, "Not device owner");
+        }
+    }
+
+    /**
+    @dev Carry an unclaimed reward recorded under the legacy bytes9 key over to the full-length key
+    */
+    function _migrateLegacyBalance(address wallet, string memory serial) internal {
+        bytes9 legacySerial = SerialKey.legacyKey(serial);
+        uint256 amount = _legacyBalances[wallet][legacySerial];
+        if (amount == 0) {
+            return;
+        }
+
+        _legacyBalances[wallet][legacySerial] = 0;
+        _credit(wallet, serial, amount);
+
+        emit LegacyBalanceMigrated(wallet, serial, amount);
+    }
+
+    /**
+    @dev Increase an unclaimed reward balance and the unclaimed totals
+    */
+    function _credit(address wallet, string memory serial, uint256 amount) internal {
+        bytes32 key = SerialKey.key(serial);
+        _balances[wallet][key] += amount;
+        _unclaimedAmounts[wallet] += amount;
+        totalUnclaimed += amount;
+
+        if (_balances[wallet][key] > 0) {
+            _walletSerials[wallet].add(serial);
+        }
+    }
+
+    /**
+    @dev Decrease an unclaimed reward balance and the unclaimed totals
+    */
+    function _debit(address wallet, string memory serial, uint256 amount) internal {
+        bytes32 key = SerialKey.key(serial);
+        _balances[wallet][key] -= amount;
+        _unclaimedAmounts[wallet] -= amount;
+        totalUnclaimed -= amount;
+
+        if (_balances[wallet][key] == 0) {
+            _walletSerials[wallet].remove(serial);
+        }
+    }
+}
@@ -0,0 +1,185 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import "./IG3RewardBase.sol";
+
+/**
+ * @title IG3RewardDistribution
+ * @dev Module of IG3Reward adding, claiming and paying out rewards and running the vault. IG3Reward delegates these
+ * functions here to stay under the contract size limit, they are not meant to be called on the module itself.
+ */
+contract IG3RewardDistribution is IG3RewardBase {
+    /**
+    @notice Switch from pulling rewards out of the reward wallet to paying them from funds held by this contract
+    @dev Pulls `amount` from the reward wallet, which must cover the outstanding liabilities.
+    Unclaimed rewards still under legacy bytes9 keys are not part of the liabilities and should be added on top.
+    @param amount amount moved from the reward wallet into the vault
+    */
+    function migrateToVault(uint256 amount) onlyRole(DEFAULT_ADMIN_ROLE) external {
+        require(!vaultEnabled, "Vault already enabled");
+        uint256 liabilities = getTotalLiabilities();
+        require(amount >= liabilities, "Amount below liabilities");
+
+        vaultEnabled = true;
+        vaultFunds = amount;
+        if (amount > 0) {
+            IERC20(tokenAddress).transferFrom(_rewardWallet, address(this), amount);
+        }
+
+        emit VaultMigrated(liabilities, amount);
+    }
+
+    /**
+    @notice Withdraw vault funds not backing any liability
+    @param to receiver of the funds
+    @param amount amount to withdraw
+    */
+    function withdrawVaultSurplus(address to, uint256 amount) onlyRole(DEFAULT_ADMIN_ROLE) nonReentrant external {
+        require(vaultEnabled, "Vault not enabled");
+        require(to != address(0), "Receiver cannot be 0");
+        require(amount <= vaultFunds - Math.min(vaultFunds, getTotalLiabilities()), "Insufficient surplus");
+
+        vaultFunds -= amount;
+        IERC20(tokenAddress).transfer(to, amount);
+
+        emit VaultSurplusWithdrawn(to, amount);
+    }
+
+    /**
+    @notice Add rewards for list of devices of specific wallet
+    @param rewards array of rewards which contain wallet address, device serial number and value
+    */
+    function addRewards(DeviceReward[] calldata rewards) onlyRole(DEFAULT_ADMIN_ROLE) external {
+        IIG3Staking.ReinvestInfo[] memory reinvestInfos = new IIG3Staking.ReinvestInfo[](rewards.length);
+        uint256 reinvestCount = 0;
+        uint256 reinvestTotal = 0;
+        for (uint256 i = 0; i < rewards.length; i++) {
+            _checkDeviceOwner(rewards[i].wallet, rewards[i].serial);
+            if (inactiveDevicePolicy != InactiveDevicePolicy.Pay && !IIG3Staking(stakingAddress).isActive(rewards[i].wallet, rewards[i].serial)) {
+                require(inactiveDevicePolicy == InactiveDevicePolicy.Skip, "Device not active");
+                emit RewardSkipped(rewards[i].wallet, rewards[i].serial, rewards[i].value);
+                continue;
+            }
+            _migrateLegacyBalance(rewards[i].wallet, rewards[i].serial);
+            uint256 value = rewards[i].value;
+            if (lockBoostEnabled) {
+                value = value * IIG3Staking(stakingAddress).getRewardMultiplier(rewards[i].wallet, rewards[i].serial) / MULTIPLIER_BASE;
+            }
+            // Check reinvest percentage
+            uint8 percentage = getDeviceReinvestPercentage(rewards[i].wallet, rewards[i].serial);
+            uint256 reinvestAmount = value * percentage / 100;
+            // A share rounding down to 0 is credited, as staking rejects empty reinvests
+            if (reinvestAmount > 0) {
+                reinvestInfos[reinvestCount++] = IIG3Staking.ReinvestInfo(rewards[i].wallet, getReinvestTarget(rewards[i].wallet, rewards[i].serial), reinvestAmount);
+                reinvestTotal += reinvestAmount;
+            }
+            _credit(rewards[i].wallet, rewards[i].serial, value - reinvestAmount);
+            _addVestingGrant(rewards[i].wallet, rewards[i].serial, value - reinvestAmount);
+
+            emit RewardAdded(rewards[i].wallet, rewards[i].serial, value, reinvestAmount);
+        }
+
+        _reinvest(reinvestInfos, reinvestCount, reinvestTotal);
+        _checkCoverage();
+    }
+
+    /**
+    @notice Post the merkle root of a reward epoch, letting each wallet claim its own device rewards
+    @dev Leaves are keccak256(bytes.concat(keccak256(abi.encode(wallet, serial, value))))
+    @param root merkle root of the epoch rewards
+    @param total sum of all reward values in the tree
+    @return epoch id of the posted epoch
+    */
+    function postRewardEpoch(bytes32 root, uint256 total) onlyRole(DEFAULT_ADMIN_ROLE) external returns (uint256) {
+        require(root != bytes32(0), "Root cannot be 0");
+        require(total > 0, "Total must be greater than 0");
+
+        uint256 epoch = ++epochCount;
+        rewardEpochs[epoch] = RewardEpoch({root: root, total: total, claimed: 0});
+        totalEpochOutstanding += total;
+
+        emit RewardEpochPosted(epoch, root, total);
+
+        _checkCoverage();
+
+        return epoch;
+    }
+
+    /**
+    @notice Fund the reward vault
+    @param amount amount of token pulled from the caller
+    */
+    function fund(uint256 amount) whenNotPaused nonReentrant external {
+        require(vaultEnabled, "Vault not enabled");
+        require(amount > 0, "Amount must be greater than 0");
+
+        vaultFunds += amount;
+        IERC20(tokenAddress).transferFrom(_msgSender(), address(this), amount);
+
+        emit RewardsFunded(_msgSender(), amount);
+    }
+
+    /**
+    @notice Withdraw reward, leaving the unvested part of the balances
+    */
+    function withdraw(string[] calldata serials) whenNotPaused nonReentrant external {
+        uint256 balance = 0;
+        // Calculate withdraw request amount
+        for (uint256 i = 0; i < serials.length; ++i) {
+            _migrateLegacyBalance(_msgSender(), serials[i]);
+            bytes32 key = SerialKey.key(serials[i]);
+            uint256 serialBalance = _balances[_msgSender()][key] - _pruneVestingGrants(_msgSender(), key);
+            balance += serialBalance;
+            _claimedAmounts[_msgSender()][key] += serialBalance;
+            _debit(_msgSender(), serials[i], serialBalance); // Clear the vested reward balance
+        }
+        require(balance > 0, "Insufficient balance");
+
+        _payout(_msgSender(), balance);
+
+        emit Withdrawn(_msgSender(), balance, serials);
+    }
+
+    /**
+    @notice Claim device rewards of an epoch, reinvesting the share set by the reinvest percentage
+    @dev While vesting is enabled the rest is credited to the device balance and vests like added rewards
+    @param epoch epoch id
+    @param claims array of claims which contain device serial number, value and merkle proof
+    */
+    function claimEpochRewards(uint256 epoch, EpochRewardClaim[] calldata claims) whenNotPaused nonReentrant external {
+        RewardEpoch storage rewardEpoch = rewardEpochs[epoch];
+        require(rewardEpoch.root != bytes32(0), "Epoch not found");
+
+        IIG3Staking.ReinvestInfo[] memory reinvestInfos = new IIG3Staking.ReinvestInfo[](claims.length);
+        uint256 reinvestCount = 0;
+        uint256 reinvestTotal = 0;
+        uint256 payout = 0;
+        for (uint256 i = 0; i < claims.length; i++) {
+            _checkDeviceOwner(_msgSender(), claims[i].serial);
+            bytes32 leaf = _epochRewardLeaf(_msgSender(), claims[i].serial, claims[i].value);
+            require(!_claimedEpochRewards[epoch][leaf], "Already claimed");
+            require(MerkleProof.verifyCalldata(claims[i].proof, rewardEpoch.root, leaf), "Invalid proof");
+            _claimedEpochRewards[epoch][leaf] = true;
+
+            uint8 percentage = getDeviceReinvestPercentage(_msgSender(), claims[i].serial);
+            uint256 reinvestAmount = claims[i].value * percentage / 100;
+            // A share rounding down to 0 is paid out, as staking rejects empty reinvests
+            if (reinvestAmount > 0) {
+                reinvestInfos[reinvestCount++] = IIG3Staking.ReinvestInfo(_msgSender(), getReinvestTarget(_msgSender(), claims[i].serial), reinvestAmount);
+                reinvestTotal += reinvestAmount;
+            }
+            payout += _settleEpochReward(_msgSender(), claims[i].serial, claims[i].value - reinvestAmount);
+            rewardEpoch.claimed += claims[i].value;
+            require(rewardEpoch.claimed <= rewardEpoch.total, "Epoch total exceeded");
+            totalEpochOutstanding -= claims[i].value;
+
+            emit EpochRewardClaimed(epoch, _msgSender(), claims[i].serial, claims[i].value, reinvestAmount);
+        }
+
+        _reinvest(reinvestInfos, reinvestCount, reinvestTotal);
+        if (payout > 0) {
+            _payout(_msgSender(), payout);
+        }
+    }
+}
@@ -0,0 +1,206 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import "./IG3StakingBase.sol";
+
+/**
+ * @title IG3StakingAdmin
+ * @dev Module of IG3Staking changing the configuration and slashing stake. IG3Staking delegates these functions here to
+ * stay under the contract size limit, they are not meant to be called on the module itself.
+ */
+contract IG3StakingAdmin is IG3StakingBase {
+    /**
+    @notice Propose a new delay between proposing and executing configuration changes
+    @dev The new delay itself only takes effect after the current delay
+    @param delay delay in seconds, between MIN_CONFIG_DELAY and MAX_CONFIG_DELAY
+    */
+    function proposeConfigDelay(uint256 delay) onlyRole(DEFAULT_ADMIN_ROLE) external {
+        require(delay >= MIN_CONFIG_DELAY && delay <= MAX_CONFIG_DELAY, "Invalid delay");
+
+        _proposeConfigChange(ConfigParameter.ConfigDelay, delay);
+    }
+
+    /**
+    @notice Propose a new request waiting time
+    @param time waiting time, between MIN_REQUEST_TIME and MAX_REQUEST_TIME
+    */
+    function proposeRequestTime(uint256 time) onlyRole(DEFAULT_ADMIN_ROLE) external {
+        require(time >= MIN_REQUEST_TIME && time <= MAX_REQUEST_TIME, "Invalid request time");
+
+        _proposeConfigChange(ConfigParameter.RequestTime, time);
+    }
+
+    /**
+    @notice Propose a new staked token contract address
+    @param contractAddress contractAddress
+    */
+    function proposeTokenAddress(address contractAddress) onlyRole(DEFAULT_ADMIN_ROLE) external {
+        require(contractAddress != address(0), "Token address cannot be 0");
+
+        _proposeConfigChange(ConfigParameter.TokenAddress, uint256(uint160(contractAddress)));
+    }
+
+    /**
+    @notice Propose a new forwarder relaying EIP-712 signed requests on behalf of wallets
+    @param forwarder forwarder address, or 0 to stop accepting relayed requests
+    */
+    function proposeTrustedForwarder(address forwarder) onlyRole(DEFAULT_ADMIN_ROLE) external {
+        _proposeConfigChange(ConfigParameter.TrustedForwarder, uint256(uint160(forwarder)));
+    }
+
+    /**
+    @notice Propose a new device registry enforcing that deposits are made by the device owner
+    @param contractAddress registry address, or 0 to stop enforcing ownership
+    */
+    function proposeRegistryAddress(address contractAddress) onlyRole(DEFAULT_ADMIN_ROLE) external {
+        _proposeConfigChange(ConfigParameter.RegistryAddress, uint256(uint160(contractAddress)));
+    }
+
+    /**
+    @notice Apply a proposed configuration change once its delay is over
+    @param parameter parameter of the change
+    */
+    function executeConfigChange(ConfigParameter parameter) onlyRole(DEFAULT_ADMIN_ROLE) external {
+        ConfigChange memory change = _pendingConfigChanges[parameter];
+        require(change.executableAt > 0, "No pending change");
+        require(block.timestamp >= change.executableAt, "Change not ready");
+        delete _pendingConfigChanges[parameter];
+
+        if (parameter == ConfigParameter.ConfigDelay) {
+            configDelay = change.value;
+
+            emit ConfigDelayChanged(change.value);
+        } else if (parameter == ConfigParameter.RequestTime) {
+            requestTime = change.value;
+
+            emit RequestTimeChanged(change.value);
+        } else if (parameter == ConfigParameter.TokenAddress) {
+            tokenAddress = address(uint160(change.value));
+
+            emit TokenAddressChanged(tokenAddress);
+        } else if (parameter == ConfigParameter.TrustedForwarder) {
+            trustedForwarder = address(uint160(change.value));
+
+            emit TrustedForwarderChanged(trustedForwarder);
+        } else {
+            registryAddress = address(uint160(change.value));
+
+            emit RegistryAddressChanged(registryAddress);
+        }
+    }
+
+    /**
+    @notice Drop a proposed configuration change before it is executed
+    @param parameter parameter of the change
+    */
+    function cancelConfigChange(ConfigParameter parameter) onlyRole(DEFAULT_ADMIN_ROLE) external {
+        ConfigChange memory change = _pendingConfigChanges[parameter];
+        require(change.executableAt > 0, "No pending change");
+        delete _pendingConfigChanges[parameter];
+
+        emit ConfigChangeCanceled(parameter, change.value);
+    }
+
+    /**
+    @notice Set yield emitted per second, shared by staked balances pro rata
+    @dev Emission stops while the yield reserve is empty
+    @param rate yield per second
+    */
+    function setYieldRate(uint256 rate) onlyRole(DEFAULT_ADMIN_ROLE) external {
+        _updateYield();
+        yieldRate = rate;
+
+        emit YieldRateChanged(rate);
+    }
+
+    /**
+    @notice Set stake a device needs to be active, for devices without a class
+    @dev Only balance changes emit DeviceStatusChanged, devices crossing the new minimum are not reported
+    @param amount minimum stake
+    */
+    function setMinimumStake(uint256 amount) onlyRole(DEFAULT_ADMIN_ROLE) external {
+        minimumStake = amount;
+
+        emit MinimumStakeChanged(amount);
+    }
+
+    /**
+    @notice Set stake a device of a class needs to be active
+    @param deviceClass device class
+    @param amount minimum stake
+    */
+    function setClassMinimumStake(bytes32 deviceClass, uint256 amount) onlyRole(DEFAULT_ADMIN_ROLE) external {
+        require(deviceClass != bytes32(0), "Invalid device class");
+        classMinimumStakes[deviceClass] = amount;
+
+        emit ClassMinimumStakeChanged(deviceClass, amount);
+    }
+
+    /**
+    @notice Assign a device to a class with its own minimum stake
+    @param serial Serial number of device
+    @param deviceClass device class, or 0 to use the default minimum stake
+    */
+    function setDeviceClass(string calldata serial, bytes32 deviceClass) onlyRole(DEFAULT_ADMIN_ROLE) external {
+        _deviceClasses[SerialKey.key(serial)] = deviceClass;
+
+        emit DeviceClassChanged(serial, deviceClass);
+    }
+
+    /**
+    @notice Let wallets pull their staked balances and pending requests without waiting, while deposits and reinvests are blocked
+    @dev Can only be enabled while paused, and is turned off by unpause
+    @param enabled whether emergency mode is enabled
+    */
+    function setEmergencyMode(bool enabled) onlyRole(DEFAULT_ADMIN_ROLE) external {
+        require(!enabled || paused(), "Not paused");
+        emergencyMode = enabled;
+
+        emit EmergencyModeChanged(enabled);
+    }
+
+    /**
+    @notice Configure a lock tier that deposits can choose
+    @param tier tier id, starting from 1
+    @param duration seconds a deposit stays locked, 0 to disable the tier
+    @param multiplier reward multiplier in basis points, at least 1x
+    */
+    function setLockTier(uint8 tier, uint64 duration, uint32 multiplier) onlyRole(DEFAULT_ADMIN_ROLE) external {
+        require(tier > 0, "Invalid lock tier");
+        require(multiplier >= MULTIPLIER_BASE, "Invalid multiplier");
+        lockTiers[tier] = LockTier({duration: duration, multiplier: multiplier});
+
+        emit LockTierChanged(tier, duration, multiplier);
+    }
+
+    /**
+    @notice Set receiver of slashed stake
+    @param treasury treasury address, or 0 to burn slashed stake
+    */
+    function setSlashTreasury(address treasury) onlyRole(DEFAULT_ADMIN_ROLE) external {
+        slashTreasury = treasury;
+
+        emit SlashTreasuryChanged(treasury);
+    }
+
+    /**
+    @notice Slash a fixed amount from the stake of a device, taking the staked balance first and then pending withdraw requests
+    @param wallet wallet owning the stake
+    @param serial Serial number of device
+    @param amount amount to slash
+    */
+    function slash(address wallet, string calldata serial, uint256 amount) onlyRole(SLASHER_ROLE) nonReentrant external {
+        _slash(wallet, serial, amount);
+    }
+
+    /**
+    @notice Slash a percentage of the stake of a device, including stake in pending withdraw requests
+    @param wallet wallet owning the stake
+    @param serial Serial number of device
+    @param percentage percentage of the stake in basis points
+    */
+    function slashPercentage(address wallet, string calldata serial, uint256 percentage) onlyRole(SLASHER_ROLE) nonReentrant external {
+        require(percentage <= SLASH_BASE, "Invalid percentage");
+        _slash(wallet, serial, getDeviceStake(wallet, serial) * percentage / SLASH_BASE);
+    }
+}
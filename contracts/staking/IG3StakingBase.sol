@@ -0,0 +1,772 @@
+// SPDX-License-Identifier: MIT
+// Compatible with OpenZeppelin Contracts ^5.0.0
+pragma solidity ^0.8.27;
+
+import "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts-upgradeable/security/PausableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/security/ReentrancyGuardUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/CheckpointsUpgradeable.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import "../interface/IIG3DeviceRegistry.sol";
+import "../interface/IMintableBurnableERC20.sol";
+import "../lib/SerialKey.sol";
+import "../lib/SerialSet.sol";
+import "../metatx/ForwarderRecipient.sol";
+
+/**
+ * @title IG3StakingBase
+ * @dev Storage, events and internal functions shared by IG3Staking and its modules. Modules run on the storage of the
+ * IG3Staking proxy, so state variables are only declared here and new ones are appended after the existing ones.
+ */
+abstract contract IG3StakingBase is Initializable, PausableUpgradeable, AccessControlUpgradeable, UUPSUpgradeable, ReentrancyGuardUpgradeable, ForwarderRecipient {
+    using SerialSet for SerialSet.Set;
+    using CheckpointsUpgradeable for CheckpointsUpgradeable.History;
+
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+    bytes32 public constant UPGRADER_ROLE = keccak256("UPGRADER_ROLE");
+    bytes32 public constant REINVEST_ROLE = keccak256("REINVEST_ROLE");
+    bytes32 public constant SLASHER_ROLE = keccak256("SLASHER_ROLE");
+    uint256 public constant SLASH_BASE = 10_000; // slash percentages are expressed in basis points
+    uint256 public constant MULTIPLIER_BASE = 10_000; // lock multipliers are expressed in basis points, 10_000 being 1x
+    uint256 public constant YIELD_PRECISION = 1e18; // scale of yieldPerTokenStored
+    uint256 public constant MIN_REQUEST_TIME = 1 days;
+    uint256 public constant MAX_REQUEST_TIME = 90 days;
+    uint256 public constant MIN_CONFIG_DELAY = 1 days; // also the delay of new proxies, so that timelocked changes never apply at once
+    uint256 public constant MAX_CONFIG_DELAY = 30 days;
+    uint256 public constant MAX_PENDING_REQUESTS = 10; // pending withdraw requests per wallet, bounds the requests a slash walks through
+    uint256 public constant MAX_REQUEST_DEVICES = 50; // devices per withdraw request
+    uint256 public constant MAX_DEVICE_SPONSORS = 20; // sponsors owed stake per device, bounds the sponsorships a request, transfer or emergency withdrawal walks through
+
+    enum ConfigParameter {
+        ConfigDelay, // delay between proposing and executing configuration changes
+        RequestTime,
+        TokenAddress,
+        TrustedForwarder,
+        RegistryAddress
+    }
+
+    struct ConfigChange {
+        uint256 value; // proposed value, addresses are stored as uint160
+        uint256 executableAt; // time from which the change can be executed, 0 when none is pending
+    }
+
+    struct DepositInfo {
+        string serial;
+        uint256 amount;
+    }
+
+    struct DepositForInfo {
+        address wallet;
+        string serial;
+        uint256 amount;
+    }
+
+    struct ReinvestInfo {
+        address wallet;
+        string serial;
+        uint256 amount;
+    }
+
+    struct DeviceBalance {
+        bytes9 serial;
+        uint256 balance;
+    }
+
+    struct SerialBalance {
+        string serial;
+        uint256 balance;
+    }
+
+    struct LockTier {
+        uint64 duration; // seconds a deposit in this tier stays locked, the tier is disabled when 0
+        uint32 multiplier; // reward multiplier in basis points
+    }
+
+    struct StakeLock {
+        uint256 amount;
+        uint64 unlockTime;
+        uint32 multiplier;
+    }
+
+    struct Sponsorship {
+        address sponsor;
+        uint256 amount;
+    }
+
+    struct RequestSponsorship {
+        address sponsor;
+        string serial;
+        uint256 amount;
+    }
+
+    struct SponsorAccount {
+        uint256 deposited; // all stake deposited for other wallets
+        uint256 outstanding; // stake still owed back to the sponsor
+        uint256 returned; // stake paid back to the sponsor
+    }
+
+    struct WithdrawRequest {
+        uint256 id;
+        uint256 timestamp;
+        uint256 amount;
+        DeviceBalance[] deviceBalances; // legacy bytes9 entries of requests created before the serial key migration
+        SerialBalance[] serialBalances;
+        address wallet;
+    }
+
+    event RequestTimeChanged(uint256 time);
+    event ConfigDelayChanged(uint256 delay);
+    event ConfigChangeProposed(ConfigParameter parameter, uint256 value, uint256 executableAt);
+    event ConfigChangeCanceled(ConfigParameter parameter, uint256 value);
+    event TokenAddressChanged(address tokenAddress);
+    event RegistryAddressChanged(address registryAddress);
+    event TrustedForwarderChanged(address forwarder);
+    event Deposited(address wallet, string serial, uint256 amount);
+    event WithdrawRequested(uint256 requestId, address wallet, string serial, uint256 timestamp, uint256 amount);
+    event WithdrawRequestCreated(uint256 requestId, address wallet, uint256 timestamp, uint256 amount);
+    event WithdrawRequestCanceled(uint256 requestId, address wallet, uint256 timestamp, uint256 amount, SerialBalance[] serialBalances);
+    event Withdrawn(uint256 requestId, address wallet, uint256 amount, SerialBalance[] serialBalances);
+    event LegacyBalanceMigrated(address wallet, string serial, uint256 amount);
+    event YieldRateChanged(uint256 rate);
+    event YieldFunded(address funder, uint256 amount);
+    event YieldClaimed(address wallet, string serial, uint256 amount);
+    event YieldCompounded(address wallet, string serial, uint256 amount);
+    event SlashTreasuryChanged(address treasury);
+    event Slashed(address wallet, string serial, uint256 amount, uint256 stakedAmount, uint256 requestedAmount, address treasury);
+    event WithdrawRequestSlashed(uint256 requestId, address wallet, string serial, uint256 amount);
+    event MinimumStakeChanged(uint256 amount);
+    event ClassMinimumStakeChanged(bytes32 deviceClass, uint256 amount);
+    event DeviceClassChanged(string serial, bytes32 deviceClass);
+    event DeviceStatusChanged(address wallet, string serial, bool active);
+    event EmergencyModeChanged(bool enabled);
+    event LockTierChanged(uint8 tier, uint64 duration, uint32 multiplier);
+    event StakeLocked(address wallet, string serial, uint256 amount, uint8 tier, uint256 unlockTime);
+    event StakeMoved(address wallet, string fromSerial, string toSerial, uint256 amount);
+    event StakeTransferred(address from, address to, string serial, uint256 amount);
+    event DepositedFor(address sponsor, address wallet, string serial, uint256 amount, bool returnToSponsor);
+    event SponsoredStakeReturned(address sponsor, address wallet, string serial, uint256 amount);
+    event SponsoredStakeSlashed(address sponsor, address wallet, string serial, uint256 amount);
+    event EmergencyWithdrawn(address wallet, string[] serials, uint256[] requestIds, uint256 amount);
+
+
+    uint256 public requestTime;
+    address public tokenAddress;
+    uint256 internal _requestId;
+    /// @custom:oz-renamed-from _balances
+    mapping(address => mapping(bytes9 => uint256)) internal  _legacyBalances; // wallet => truncated serial number => balance
+    /// @custom:oz-renamed-from withdrawRequests
+    mapping(address => WithdrawRequest) internal _legacyWithdrawRequests; // wallet => request created while each wallet could only have 1 request at a time
+    mapping(address => mapping(bytes32 => uint256)) internal _balances; // wallet => serial key => balance
+    mapping(uint256 => WithdrawRequest) internal _withdrawRequests; // request id => request
+    mapping(address => uint256[]) internal _walletRequestIds; // wallet => pending request ids
+    mapping(uint256 => uint256) internal _walletRequestIndexes; // request id => position in the wallet's pending request ids
+    uint256 public totalStaked; // sum of device balances, excluding amounts in withdraw requests
+    uint256 public totalRequested; // sum of pending withdraw request amounts
+    mapping(address => uint256) internal _stakedAmounts; // wallet => sum of device balances
+    mapping(address => uint256) internal _requestedAmounts; // wallet => sum of pending withdraw request amounts
+    mapping(address => SerialSet.Set) internal _walletSerials; // wallet => serials with a non-zero balance
+    address public registryAddress; // device registry, ownership is not enforced while unset
+    uint256 public yieldRate; // yield emitted per second to all staked balances
+    uint256 public yieldReserve; // funded yield not emitted yet
+    uint256 public yieldPerTokenStored; // yield emitted per staked token, scaled by YIELD_PRECISION
+    uint256 public lastYieldUpdate; // time yieldPerTokenStored was last updated
+    mapping(address => mapping(bytes32 => uint256)) internal _yieldPerTokenPaid; // wallet => serial key => yieldPerTokenStored at last device update
+    mapping(address => mapping(bytes32 => uint256)) internal _accruedYield; // wallet => serial key => yield not claimed yet
+    address public slashTreasury; // receiver of slashed stake, slashed stake is burned while unset
+    uint256 public minimumStake; // stake a device needs to be active, unless its class sets its own
+    mapping(bytes32 => uint256) public classMinimumStakes; // device class => stake a device of the class needs to be active
+    mapping(bytes32 => bytes32) internal _deviceClasses; // serial key => device class, 0 for the default minimum stake
+    bool public emergencyMode; // whether wallets can pull their principal with emergencyWithdraw
+    mapping(uint8 => LockTier) public lockTiers; // tier => lock duration and reward multiplier, tier 0 is unlocked stake
+    mapping(address => mapping(bytes32 => StakeLock[])) internal _stakeLocks; // wallet => serial key => locked portions of the balance
+    mapping(address => mapping(bytes32 => Sponsorship[])) internal _sponsorships; // wallet => serial key => stake returned to sponsors on withdraw
+    mapping(address => mapping(bytes32 => uint256)) internal _sponsoredAmounts; // wallet => serial key => sum of sponsorships
+    mapping(uint256 => RequestSponsorship[]) internal _requestSponsorships; // request id => sponsored stake in the request
+    mapping(address => SponsorAccount) internal _sponsorAccounts; // sponsor => sponsored stake totals
+    address public trustedForwarder; // forwarder relaying signed requests, calls through it act for the signer
+    mapping(address => CheckpointsUpgradeable.History) internal _stakeCheckpoints; // wallet => staked amount by block
+    CheckpointsUpgradeable.History internal _totalStakeCheckpoints; // total staked by block
+    uint256 public configDelay; // seconds a proposed configuration change waits before it can be executed
+    mapping(ConfigParameter => ConfigChange) internal _pendingConfigChanges; // parameter => pending change
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function _authorizeUpgrade(address newImplementation)
+    internal
+    override
+    onlyRole(UPGRADER_ROLE)
+    {}
+
+    // PUBLIC FUNCTIONS
+    /**
+    @notice Get ids of the pending withdraw requests of a wallet
+    */
+    function getWithdrawRequestIds(address wallet) public view returns (uint256[] memory) {
+        uint256[] storage requestIds = _walletRequestIds[wallet];
+        uint256 legacyRequestId = _legacyWithdrawRequests[wallet].id;
+        uint256 offset = legacyRequestId > 0 ? 1 : 0;
+
+        uint256[] memory ids = new uint256[](requestIds.length + offset);
+        if (legacyRequestId > 0) {
+            ids[0] = legacyRequestId;
+        }
+        for (uint256 i = 0; i < requestIds.length; i++) {
+            ids[i + offset] = requestIds[i];
+        }
+        return ids;
+    }
+
+    /**
+    @notice Get balance
+    @dev Includes any balance still held under the legacy bytes9 key of the serial
+    */
+    function getBalance(address wallet, string calldata serial) public view returns (uint256) {
+        return _balances[wallet][SerialKey.key(serial)] + _legacyBalances[wallet][SerialKey.legacyKey(serial)];
+    }
+
+    /**
+    @notice Get the stake of a device, including amounts in pending withdraw requests
+    */
+    function getDeviceStake(address wallet, string calldata serial) public view returns (uint256) {
+        bytes32 key = SerialKey.key(serial);
+        bytes9 legacySerial = SerialKey.legacyKey(serial);
+        uint256 stake = getBalance(wallet, serial);
+
+        uint256[] memory requestIds = getWithdrawRequestIds(wallet);
+        for (uint256 i = 0; i < requestIds.length; i++) {
+            WithdrawRequest storage withdrawRequest = _getWithdrawRequest(wallet, requestIds[i]);
+            for (uint256 j = 0; j < withdrawRequest.serialBalances.length; j++) {
+                if (SerialKey.key(withdrawRequest.serialBalances[j].serial) == key) {
+                    stake += withdrawRequest.serialBalances[j].balance;
+                }
+            }
+            for (uint256 j = 0; j < withdrawRequest.deviceBalances.length; j++) {
+                if (withdrawRequest.deviceBalances[j].serial == legacySerial) {
+                    stake += withdrawRequest.deviceBalances[j].balance;
+                }
+            }
+        }
+        return stake;
+    }
+
+    // INTERNAL FUNCTIONS
+    function _trustedForwarder() internal view override returns (address) {
+        return trustedForwarder;
+    }
+
+    function _msgSender() internal view override(ContextUpgradeable, ForwarderRecipient) returns (address) {
+        return ForwarderRecipient._msgSender();
+    }
+
+    function _msgData() internal view override(ContextUpgradeable, ForwarderRecipient) returns (bytes calldata) {
+        return ForwarderRecipient._msgData();
+    }
+
+    function _deposit(string calldata serial, uint256 amount) internal {
+        require(amount > 0, "Amount must be greater than 0");
+        _checkDeviceOwner(_msgSender(), serial);
+
+        // Transfer token to contract
+        IERC20 token = IERC20(tokenAddress);
+        token.transferFrom(_msgSender(), address(this), amount);
+        // Increase balance
+        _migrateLegacyBalance(_msgSender(), serial);
+        _credit(_msgSender(), serial, amount);
+
+        emit Deposited(_msgSender(), serial, amount);
+    }
+
+    function _depositFor(address wallet, string calldata serial, uint256 amount, bool returnToSponsor) internal {
+        require(amount > 0, "Amount must be greater than 0");
+        require(wallet != address(0), "Wallet cannot be 0");
+        _checkDeviceOwner(wallet, serial);
+
+        // Transfer token to contract
+        IERC20(tokenAddress).transferFrom(_msgSender(), address(this), amount);
+        // Increase balance
+        _migrateLegacyBalance(wallet, serial);
+        _credit(wallet, serial, amount);
+
+        SponsorAccount storage account = _sponsorAccounts[_msgSender()];
+        account.deposited += amount;
+        if (returnToSponsor) {
+            bytes32 key = SerialKey.key(serial);
+            bool added = _addSponsorship(wallet, key, _msgSender(), amount);
+            require(!added || _sponsorships[wallet][key].length <= MAX_DEVICE_SPONSORS, "Too many sponsors");
+            account.outstanding += amount;
+        }
+
+        emit Deposited(wallet, serial, amount);
+        emit DepositedFor(_msgSender(), wallet, serial, amount, returnToSponsor);
+    }
+
+    /**
+    @dev Add sponsored stake to a device, on the existing sponsorship of the sponsor if it has one
+    @return added whether a new sponsorship was added
+    */
+    function _addSponsorship(address wallet, bytes32 key, address sponsor, uint256 amount) internal returns (bool added) {
+        Sponsorship[] storage sponsorships = _sponsorships[wallet][key];
+        _sponsoredAmounts[wallet][key] += amount;
+        for (uint256 i = 0; i < sponsorships.length; i++) {
+            if (sponsorships[i].sponsor == sponsor) {
+                sponsorships[i].amount += amount;
+                return false;
+            }
+        }
+        sponsorships.push(Sponsorship({sponsor: sponsor, amount: amount}));
+        return true;
+    }
+
+    /**
+    @dev Take up to `amount` of sponsored stake off a device, latest sponsorship first
+    @param requestId request receiving the sponsorships, or 0 to drop them as slashed
+    */
+    function _takeSponsorships(address wallet, string memory serial, uint256 amount, uint256 requestId) internal {
+        bytes32 key = SerialKey.key(serial);
+        Sponsorship[] storage sponsorships = _sponsorships[wallet][key];
+        _sponsoredAmounts[wallet][key] -= amount;
+        while (amount > 0) {
+            Sponsorship storage sponsorship = sponsorships[sponsorships.length - 1];
+            uint256 take = Math.min(sponsorship.amount, amount);
+            if (requestId > 0) {
+                _requestSponsorships[requestId].push(RequestSponsorship({sponsor: sponsorship.sponsor, serial: serial, amount: take}));
+            } else {
+                _sponsorAccounts[sponsorship.sponsor].outstanding -= take;
+                emit SponsoredStakeSlashed(sponsorship.sponsor, wallet, serial, take);
+            }
+            sponsorship.amount -= take;
+            amount -= take;
+            if (sponsorship.amount == 0) {
+                sponsorships.pop();
+            }
+        }
+    }
+
+    /**
+    @dev Drop sponsored stake a slash left uncovered by the device balance
+    */
+    function _capSponsorships(address wallet, string memory serial) internal {
+        bytes32 key = SerialKey.key(serial);
+        uint256 sponsored = _sponsoredAmounts[wallet][key];
+        if (sponsored > _balances[wallet][key]) {
+            _takeSponsorships(wallet, serial, sponsored - _balances[wallet][key], 0);
+        }
+    }
+
+    /**
+    @dev Pay all sponsored stake of a device back to its sponsors, after it was debited
+    @return returned amount paid to sponsors
+    */
+    function _returnSponsorships(address wallet, string memory serial) internal returns (uint256 returned) {
+        bytes32 key = SerialKey.key(serial);
+        Sponsorship[] storage sponsorships = _sponsorships[wallet][key];
+        for (uint256 i = 0; i < sponsorships.length; i++) {
+            _returnToSponsor(sponsorships[i].sponsor, wallet, serial, sponsorships[i].amount, sponsorships[i].amount);
+            returned += sponsorships[i].amount;
+        }
+        delete _sponsorships[wallet][key];
+        delete _sponsoredAmounts[wallet][key];
+    }
+
+    /**
+    @dev Move the sponsorships of a canceled request back onto its devices
+    */
+    function _restoreRequestSponsorships(address wallet, uint256 requestId) internal {
+        RequestSponsorship[] storage requestSponsorships = _requestSponsorships[requestId];
+        for (uint256 i = 0; i < requestSponsorships.length; i++) {
+            _addSponsorship(wallet, SerialKey.key(requestSponsorships[i].serial), requestSponsorships[i].sponsor, requestSponsorships[i].amount);
+            _capSponsorships(wallet, requestSponsorships[i].serial);
+        }
+        delete _requestSponsorships[requestId];
+    }
+
+    /**
+    @dev Pay the sponsorships of a withdrawn request back to their sponsors, out of at most `amount`.
+    Sponsorships the request amount no longer covers after a slash are dropped.
+    @return returned amount paid to sponsors
+    */
+    function _settleRequestSponsorships(address wallet, uint256 requestId, uint256 amount) internal returns (uint256 returned) {
+        RequestSponsorship[] storage requestSponsorships = _requestSponsorships[requestId];
+        for (uint256 i = 0; i < requestSponsorships.length; i++) {
+            uint256 payout = Math.min(requestSponsorships[i].amount, amount - returned);
+            _returnToSponsor(requestSponsorships[i].sponsor, wallet, requestSponsorships[i].serial, requestSponsorships[i].amount, payout);
+            returned += payout;
+        }
+        delete _requestSponsorships[requestId];
+    }
+
+    /**
+    @dev Settle a sponsorship of `owed` by paying `payout` to its sponsor
+    */
+    function _returnToSponsor(address sponsor, address wallet, string memory serial, uint256 owed, uint256 payout) internal {
+        SponsorAccount storage account = _sponsorAccounts[sponsor];
+        account.outstanding -= owed;
+        account.returned += payout;
+        if (payout > 0) {
+            IERC20(tokenAddress).transfer(sponsor, payout);
+            emit SponsoredStakeReturned(sponsor, wallet, serial, payout);
+        }
+        if (owed > payout) {
+            emit SponsoredStakeSlashed(sponsor, wallet, serial, owed - payout);
+        }
+    }
+
+    /**
+    @dev Get the locked part of a device balance, never more than the balance
+    */
+    function _lockedAmount(address wallet, bytes32 key) internal view returns (uint256) {
+        StakeLock[] storage stakeLocks = _stakeLocks[wallet][key];
+        uint256 locked = 0;
+        for (uint256 i = 0; i < stakeLocks.length; i++) {
+            if (stakeLocks[i].unlockTime > block.timestamp) {
+                locked += stakeLocks[i].amount;
+            }
+        }
+        return Math.min(locked, _balances[wallet][key]);
+    }
+
+    /**
+    @dev Drop expired locks of a device
+    */
+    function _pruneStakeLocks(address wallet, bytes32 key) internal {
+        StakeLock[] storage stakeLocks = _stakeLocks[wallet][key];
+        uint256 i = 0;
+        while (i < stakeLocks.length) {
+            if (stakeLocks[i].unlockTime <= block.timestamp) {
+                stakeLocks[i] = stakeLocks[stakeLocks.length - 1];
+                stakeLocks.pop();
+            } else {
+                i++;
+            }
+        }
+    }
+
+    /**
+    @dev Shrink the locks of a device a slash left uncovered by its balance, latest lock first
+    */
+    function _capStakeLocks(address wallet, bytes32 key) internal {
+        _pruneStakeLocks(wallet, key);
+        StakeLock[] storage stakeLocks = _stakeLocks[wallet][key];
+        uint256 locked = 0;
+        for (uint256 i = 0; i < stakeLocks.length; i++) {
+            locked += stakeLocks[i].amount;
+        }
+
+        uint256 balance = _balances[wallet][key];
+        while (locked > balance) {
+            StakeLock storage stakeLock = stakeLocks[stakeLocks.length - 1];
+            uint256 take = Math.min(stakeLock.amount, locked - balance);
+            stakeLock.amount -= take;
+            locked -= take;
+            if (stakeLock.amount == 0) {
+                stakeLocks.pop();
+            }
+        }
+    }
+
+    /**
+    @dev Remove stake of a device, staked balance first and then pending requests in listed order, and send it to the treasury or burn it
+    */
+    function _slash(address wallet, string calldata serial, uint256 amount) internal {
+        require(amount > 0, "Amount must be greater than 0");
+        _migrateLegacyBalance(wallet, serial);
+
+        uint256 stakedAmount = Math.min(_balances[wallet][SerialKey.key(serial)], amount);
+        if (stakedAmount > 0) {
+            _debit(wallet, serial, stakedAmount);
+            _capSponsorships(wallet, serial);
+            _capStakeLocks(wallet, SerialKey.key(serial));
+        }
+
+        uint256 remaining = amount - stakedAmount;
+        uint256[] memory requestIds = getWithdrawRequestIds(wallet);
+        for (uint256 i = 0; i < requestIds.length && remaining > 0; i++) {
+            uint256 requestAmount = _slashWithdrawRequest(wallet, requestIds[i], serial, remaining);
+            remaining -= requestAmount;
+        }
+        require(remaining == 0, "Slash exceeds stake");
+
+        if (slashTreasury != address(0)) {
+            IERC20(tokenAddress).transfer(slashTreasury, amount);
+        } else {
+            IMintableBurnableERC20(tokenAddress).burn(amount);
+        }
+
+        emit Slashed(wallet, serial, amount, stakedAmount, amount - stakedAmount, slashTreasury);
+    }
+
+    /**
+    @dev Remove up to `amount` of a device's stake from a pending request, deleting the request once empty
+    @return slashed amount removed from the request
+    */
+    function _slashWithdrawRequest(address wallet, uint256 requestId, string calldata serial, uint256 amount) internal returns (uint256 slashed) {
+        WithdrawRequest storage withdrawRequest = _getWithdrawRequest(wallet, requestId);
+        bool isLegacy = _legacyWithdrawRequests[wallet].id == requestId;
+
+        bytes32 key = SerialKey.key(serial);
+        for (uint256 i = 0; i < withdrawRequest.serialBalances.length && slashed < amount; i++) {
+            SerialBalance storage serialBalance = withdrawRequest.serialBalances[i];
+            if (SerialKey.key(serialBalance.serial) == key) {
+                uint256 take = Math.min(serialBalance.balance, amount - slashed);
+                serialBalance.balance -= take;
+                slashed += take;
+            }
+        }
+        bytes9 legacySerial = SerialKey.legacyKey(serial);
+        for (uint256 i = 0; i < withdrawRequest.deviceBalances.length && slashed < amount; i++) {
+            DeviceBalance storage deviceBalance = withdrawRequest.deviceBalances[i];
+            if (deviceBalance.serial == legacySerial) {
+                uint256 take = Math.min(deviceBalance.balance, amount - slashed);
+                deviceBalance.balance -= take;
+                slashed += take;
+            }
+        }
+        if (slashed == 0) {
+            return 0;
+        }
+
+        withdrawRequest.amount -= slashed;
+        if (!isLegacy) {
+            _requestedAmounts[wallet] -= slashed;
+            totalRequested -= slashed;
+        }
+        if (withdrawRequest.amount == 0) {
+            _deleteWithdrawRequest(wallet, requestId);
+            _settleRequestSponsorships(wallet, requestId, 0);
+        }
+
+        emit WithdrawRequestSlashed(requestId, wallet, serial, slashed);
+    }
+
+    function _minimumStake(bytes32 key) internal view returns (uint256) {
+        bytes32 deviceClass = _deviceClasses[key];
+        return deviceClass == bytes32(0) ? minimumStake : classMinimumStakes[deviceClass];
+    }
+
+    function _isActive(uint256 balance, uint256 minimum) internal pure returns (bool) {
+        return balance > 0 && balance >= minimum;
+    }
+
+    /**
+    @dev Emit DeviceStatusChanged when a balance change crossed the minimum stake of the device
+    */
+    function _emitStatusChange(address wallet, string memory serial, bytes32 key, uint256 balanceBefore) internal {
+        uint256 minimum = _minimumStake(key);
+        bool active = _isActive(_balances[wallet][key], minimum);
+        if (active != _isActive(balanceBefore, minimum)) {
+            emit DeviceStatusChanged(wallet, serial, active);
+        }
+    }
+
+    /**
+    @dev Emit the yield of the time elapsed since the last update, capped by the yield reserve
+    */
+    function _updateYield() internal {
+        if (totalStaked > 0) {
+            uint256 emission = _pendingEmission();
+            yieldPerTokenStored += emission * YIELD_PRECISION / totalStaked;
+            yieldReserve -= emission;
+        }
+        lastYieldUpdate = block.timestamp;
+    }
+
+    function _pendingEmission() internal view returns (uint256) {
+        return Math.min(yieldRate * (block.timestamp - lastYieldUpdate), yieldReserve);
+    }
+
+    /**
+    @dev Settle the yield of a device balance before it changes
+    */
+    function _updateDeviceYield(address wallet, bytes32 key) internal {
+        _updateYield();
+        _accruedYield[wallet][key] += _balances[wallet][key] * (yieldPerTokenStored - _yieldPerTokenPaid[wallet][key]) / YIELD_PRECISION;
+        _yieldPerTokenPaid[wallet][key] = yieldPerTokenStored;
+    }
+
+    /**
+    @dev Settle and reset the yield accrued by a device
+    */
+    function _takeYield(address wallet, string calldata serial) internal returns (uint256 amount) {
+        bytes32 key = SerialKey.key(serial);
+        _updateDeviceYield(wallet, key);
+        amount = _accruedYield[wallet][key];
+        _accruedYield[wallet][key] = 0;
+    }
+
+    /**
+    @dev Revert unless the wallet owns the device in the registry, when one is set
+    */
+    function _checkDeviceOwner(address wallet, string memory serial) internal view {
+        if (registryAddress != address(0)) {
+            require(IIG3DeviceRegistry(registryAddress).ownerOf(serial) == wallet, "Not device owner");
+        }
+    }
+
+    /**
+    @dev Allocate a new request id and register it as pending for the wallet. Pending requests and their devices
+    are capped so slashing, which walks through them, cannot be priced out by many small requests
+    */
+    function _createWithdrawRequest(address wallet, uint256 deviceCount) internal returns (WithdrawRequest storage withdrawRequest) {
+        require(_walletRequestIds[wallet].length < MAX_PENDING_REQUESTS, "Too many pending requests");
+        require(deviceCount <= MAX_REQUEST_DEVICES, "Too many devices");
+
+        uint256 requestId = ++_requestId;
+        withdrawRequest = _withdrawRequests[requestId];
+        withdrawRequest.id = requestId;
+        withdrawRequest.wallet = wallet;
+        // The waiting time is fixed when the request is created
+        withdrawRequest.timestamp = block.timestamp + requestTime;
+
+        _walletRequestIndexes[requestId] = _walletRequestIds[wallet].length;
+        _walletRequestIds[wallet].push(requestId);
+    }
+
+    /**
+    @dev Move an amount of a device balance into a withdraw request, along with the sponsorships it includes
+    */
+    function _requestBalance(WithdrawRequest storage withdrawRequest, string calldata serial, uint256 amount) internal returns (uint256) {
+        withdrawRequest.serialBalances.push(SerialBalance({serial: serial, balance: amount}));
+        // The wallet's own stake goes first, sponsored stake follows the request
+        bytes32 key = SerialKey.key(serial);
+        uint256 own = _balances[withdrawRequest.wallet][key] - _sponsoredAmounts[withdrawRequest.wallet][key];
+        if (amount > own) {
+            _takeSponsorships(withdrawRequest.wallet, serial, amount - own, withdrawRequest.id);
+        }
+        _debit(withdrawRequest.wallet, serial, amount);
+        _requestedAmounts[withdrawRequest.wallet] += amount;
+        totalRequested += amount;
+
+        emit WithdrawRequested(withdrawRequest.id, withdrawRequest.wallet, serial, withdrawRequest.timestamp, amount);
+        return amount;
+    }
+
+    /**
+    @dev Device breakdown of a request, with legacy entries converted to serial balances
+    */
+    function _requestSerialBalances(WithdrawRequest storage withdrawRequest) internal view returns (SerialBalance[] memory serialBalances) {
+        uint256 legacyCount = withdrawRequest.deviceBalances.length;
+        serialBalances = new SerialBalance[](legacyCount + withdrawRequest.serialBalances.length);
+        for (uint256 i = 0; i < legacyCount; i++) {
+            serialBalances[i] = SerialBalance({serial: string(abi.encodePacked(withdrawRequest.deviceBalances[i].serial)), balance: withdrawRequest.deviceBalances[i].balance});
+        }
+        for (uint256 i = 0; i < withdrawRequest.serialBalances.length; i++) {
+            serialBalances[legacyCount + i] = withdrawRequest.serialBalances[i];
+        }
+    }
+
+    /**
+    @dev Look up a pending request of a wallet, including the single request kept from before multiple requests were supported
+    */
+    function _getWithdrawRequest(address wallet, uint256 requestId) internal view returns (WithdrawRequest storage) {
+        WithdrawRequest storage legacyRequest = _legacyWithdrawRequests[wallet];
+        if (requestId > 0 && legacyRequest.id == requestId) {
+            return legacyRequest;
+        }
+
+        WithdrawRequest storage withdrawRequest = _withdrawRequests[requestId];
+        require(withdrawRequest.id > 0 && withdrawRequest.wallet == wallet, "No request found");
+        return withdrawRequest;
+    }
+
+    /**
+    @dev Remove a pending request of a wallet
+    */
+    function _deleteWithdrawRequest(address wallet, uint256 requestId) internal {
+        if (_legacyWithdrawRequests[wallet].id == requestId) {
+            delete _legacyWithdrawRequests[wallet];
+            return;
+        }
+
+        uint256 amount = _withdrawRequests[requestId].amount;
+        _requestedAmounts[wallet] -= amount;
+        totalRequested -= amount;
+
+        // Swap the last pending id into the freed position
+        uint256[] storage requestIds = _walletRequestIds[wallet];
+        uint256 index = _walletRequestIndexes[requestId];
+        uint256 lastRequestId = requestIds[requestIds.length - 1];
+        requestIds[index] = lastRequestId;
+        _walletRequestIndexes[lastRequestId] = index;
+        requestIds.pop();
+
+        delete _walletRequestIndexes[requestId];
+        delete _withdrawRequests[requestId];
+    }
+
+    /**
+    @dev Move a balance stored under the legacy bytes9 key into the full-length serial key.
+    Serials longer than 9 bytes shared one legacy key, so the first of them touched after the upgrade takes it over.
+    */
+    function _migrateLegacyBalance(address wallet, string memory serial) internal {
+        bytes9 legacySerial = SerialKey.legacyKey(serial);
+        uint256 amount = _legacyBalances[wallet][legacySerial];
+        if (amount == 0) {
+            return;
+        }
+
+        _legacyBalances[wallet][legacySerial] = 0;
+        _credit(wallet, serial, amount);
+
+        emit LegacyBalanceMigrated(wallet, serial, amount);
+    }
+
+    /**
+    @dev Record a configuration change executable once the config delay is over, replacing any pending change of the parameter
+    */
+    function _proposeConfigChange(ConfigParameter parameter, uint256 value) internal {
+        uint256 executableAt = block.timestamp + configDelay;
+        _pendingConfigChanges[parameter] = ConfigChange({value: value, executableAt: executableAt});
+
+        emit ConfigChangeProposed(parameter, value, executableAt);
+    }
+
+    /**
+    @dev Checkpoint the staked amount of a wallet and the total staked at the current block
+    */
+    function _writeStakeCheckpoints(address wallet) internal {
+        _stakeCheckpoints[wallet].push(_stakedAmounts[wallet]);
+        _totalStakeCheckpoints.push(totalStaked);
+    }
+
+    /**
+    @dev Increase a device balance and the staked totals
+    */
+    function _credit(address wallet, string memory serial, uint256 amount) internal {
+        bytes32 key = SerialKey.key(serial);
+        _updateDeviceYield(wallet, key);
+        uint256 balanceBefore = _balances[wallet][key];
+        _balances[wallet][key] += amount;
+        _stakedAmounts[wallet] += amount;
+        totalStaked += amount;
+        _writeStakeCheckpoints(wallet);
+
+        if (_balances[wallet][key] > 0) {
+            _walletSerials[wallet].add(serial);
+        }
+        _emitStatusChange(wallet, serial, key, balanceBefore);
+    }
+
+    /**
+    @dev Decrease a device balance and the staked totals
+    */
+    function _debit(address wallet, string memory serial, uint256 amount) internal {
+        bytes32 key = SerialKey.key(serial);
+        _updateDeviceYield(wallet, key);
+        uint256 balanceBefore = _balances[wallet][key];
+        _balances[wallet][key] -= amount;
+        _stakedAmounts[wallet] -= amount;
+        totalStaked -= amount;
+        _writeStakeCheckpoints(wallet);
+
+        if (_balances[wallet][key] == 0) {
+            _walletSerials[wallet].remove(serial);
+        }
+        _emitStatusChange(wallet, serial, key, balanceBefore);
+    }
+}
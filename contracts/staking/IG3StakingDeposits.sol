@@ -0,0 +1,256 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import "./IG3StakingBase.sol";
+
+/**
+ * @title IG3StakingDeposits
+ * @dev Module of IG3Staking depositing, sponsoring, moving and transferring stake and funding and claiming yield.
+ * IG3Staking delegates these functions here to stay under the contract size limit, they are not meant to be called on
+ * the module itself.
+ */
+contract IG3StakingDeposits is IG3StakingBase {
+    using CheckpointsUpgradeable for CheckpointsUpgradeable.History;
+
+    /**
+    @notice Reinvest reward
+    @param serial Serial number of device
+    */
+    function reinvest(address wallet, string calldata serial, uint256 amount) onlyRole(REINVEST_ROLE) external {
+        require(!emergencyMode, "Emergency mode enabled");
+        if (amount == 0) {
+            revert("Amount must be greater than 0");
+        }
+
+        // Increase balance
+        _migrateLegacyBalance(wallet, serial);
+        _credit(wallet, serial, amount);
+
+        emit Deposited(wallet, serial, amount);
+    }
+
+    /**
+    @notice Reinvest rewards for multiple devices, after their total was transferred to this contract
+    @param reinvestInfos list of reinvest info with wallet, serial and amount
+    */
+    function bulkReinvest(ReinvestInfo[] calldata reinvestInfos) onlyRole(REINVEST_ROLE) external {
+        require(!emergencyMode, "Emergency mode enabled");
+        for (uint256 i = 0; i < reinvestInfos.length; i++) {
+            require(reinvestInfos[i].amount > 0, "Amount must be greater than 0");
+
+            // Increase balance
+            _migrateLegacyBalance(reinvestInfos[i].wallet, reinvestInfos[i].serial);
+            _credit(reinvestInfos[i].wallet, reinvestInfos[i].serial, reinvestInfos[i].amount);
+
+            emit Deposited(reinvestInfos[i].wallet, reinvestInfos[i].serial, reinvestInfos[i].amount);
+        }
+    }
+
+    /**
+    @notice Deposit staking amount
+    @param serial Serial number of device
+    */
+    function deposit(string calldata serial, uint256 amount) whenNotPaused nonReentrant external {
+        _deposit(serial, amount);
+    }
+
+    /**
+    @notice Deposit staking amount, approving it with an EIP-2612 permit signature instead of a separate approve
+    @dev A permit already used by someone else is ignored, the deposit then relies on the existing allowance
+    @param serial Serial number of device
+    @param deadline permit deadline
+    */
+    function depositWithPermit(string calldata serial, uint256 amount, uint256 deadline, uint8 v, bytes32 r, bytes32 s) whenNotPaused nonReentrant external {
+        try IERC20Permit(tokenAddress).permit(_msgSender(), address(this), amount, deadline, v, r, s) {} catch {}
+        _deposit(serial, amount);
+    }
+
+    /**
+    @notice Deposit staking amount locked for the duration of a lock tier, boosting its reward multiplier
+    @param serial Serial number of device
+    @param tier lock tier
+    */
+    function depositLocked(string calldata serial, uint256 amount, uint8 tier) whenNotPaused nonReentrant external {
+        LockTier memory lockTier = lockTiers[tier];
+        require(lockTier.duration > 0, "Lock tier not found");
+        _deposit(serial, amount);
+
+        bytes32 key = SerialKey.key(serial);
+        _pruneStakeLocks(_msgSender(), key);
+        uint64 unlockTime = uint64(block.timestamp) + lockTier.duration;
+        _stakeLocks[_msgSender()][key].push(StakeLock({amount: amount, unlockTime: unlockTime, multiplier: lockTier.multiplier}));
+
+        emit StakeLocked(_msgSender(), serial, amount, tier, unlockTime);
+    }
+
+    /**
+    @notice Deposit staking amount for multiple devices
+    @param depositInfos list of deposit info with serial and amount
+    */
+    function bulkDeposit(DepositInfo[] calldata depositInfos) whenNotPaused nonReentrant external {
+        IERC20 token = IERC20(tokenAddress);
+        for (uint256 i = 0; i < depositInfos.length; i++) {
+            DepositInfo memory depositInfo = depositInfos[i];
+            require(depositInfo.amount > 0, "Amount must be greater than 0");
+            _checkDeviceOwner(_msgSender(), depositInfo.serial);
+
+            // Transfer token to contract
+            token.transferFrom(_msgSender(), address(this), depositInfo.amount);
+            // Increase balance
+            _migrateLegacyBalance(_msgSender(), depositInfo.serial);
+            _credit(_msgSender(), depositInfo.serial, depositInfo.amount);
+
+            emit Deposited(_msgSender(), depositInfo.serial, depositInfo.amount);
+        }
+
+    }
+
+    /**
+    @notice Fund the yield reserve
+    @param amount amount of token pulled from the caller
+    */
+    function fundYield(uint256 amount) whenNotPaused nonReentrant external {
+        require(amount > 0, "Amount must be greater than 0");
+        _updateYield();
+
+        yieldReserve += amount;
+        IERC20(tokenAddress).transferFrom(_msgSender(), address(this), amount);
+
+        emit YieldFunded(_msgSender(), amount);
+    }
+
+    /**
+    @notice Transfer the yield accrued by a list of devices to the caller
+    @param serials array of device serial numbers
+    */
+    function claimYield(string[] calldata serials) whenNotPaused nonReentrant external {
+        uint256 total = 0;
+        for (uint256 i = 0; i < serials.length; i++) {
+            uint256 amount = _takeYield(_msgSender(), serials[i]);
+            total += amount;
+
+            emit YieldClaimed(_msgSender(), serials[i], amount);
+        }
+        require(total > 0, "No yield to claim");
+
+        IERC20(tokenAddress).transfer(_msgSender(), total);
+    }
+
+    /**
+    @notice Stake the yield accrued by a list of devices into the same devices
+    @param serials array of device serial numbers
+    */
+    function compoundYield(string[] calldata serials) whenNotPaused nonReentrant external {
+        uint256 total = 0;
+        for (uint256 i = 0; i < serials.length; i++) {
+            uint256 amount = _takeYield(_msgSender(), serials[i]);
+            _credit(_msgSender(), serials[i], amount);
+            total += amount;
+
+            emit YieldCompounded(_msgSender(), serials[i], amount);
+        }
+        require(total > 0, "No yield to claim");
+    }
+
+    /**
+    @notice Deposit staking amount for a device of another wallet
+    @dev The wallet's own stake is requested before sponsored stake.
+    Repeated deposits of a sponsor add up, a device owes stake back to at most MAX_DEVICE_SPONSORS sponsors
+    @param wallet wallet credited with the stake
+    @param serial Serial number of device
+    @param returnToSponsor whether withdrawals of this stake are paid to the caller instead of the wallet
+    */
+    function depositFor(address wallet, string calldata serial, uint256 amount, bool returnToSponsor) whenNotPaused nonReentrant external {
+        _depositFor(wallet, serial, amount, returnToSponsor);
+    }
+
+    /**
+    @notice Deposit staking amount for devices of other wallets
+    @param depositInfos list of deposit info with wallet, serial and amount
+    @param returnToSponsor whether withdrawals of this stake are paid to the caller instead of the wallets
+    */
+    function bulkDepositFor(DepositForInfo[] calldata depositInfos, bool returnToSponsor) whenNotPaused nonReentrant external {
+        for (uint256 i = 0; i < depositInfos.length; i++) {
+            _depositFor(depositInfos[i].wallet, depositInfos[i].serial, depositInfos[i].amount, returnToSponsor);
+        }
+    }
+
+    /**
+    @notice Move unlocked stake between two devices of the caller without a withdraw request
+    @param fromSerial Serial number of the device to take stake from
+    @param toSerial Serial number of the device to stake into
+    @param amount amount to move
+    */
+    function moveStake(string calldata fromSerial, string calldata toSerial, uint256 amount) whenNotPaused nonReentrant external {
+        require(amount > 0, "Amount must be greater than 0");
+        require(SerialKey.key(fromSerial) != SerialKey.key(toSerial), "Same device");
+        _checkDeviceOwner(_msgSender(), toSerial);
+
+        _migrateLegacyBalance(_msgSender(), fromSerial);
+        _migrateLegacyBalance(_msgSender(), toSerial);
+        bytes32 key = SerialKey.key(fromSerial);
+        require(_balances[_msgSender()][key] >= amount, "Insufficient balance");
+        require(_balances[_msgSender()][key] - _lockedAmount(_msgSender(), key) >= amount, "Stake is locked");
+        require(_balances[_msgSender()][key] - _sponsoredAmounts[_msgSender()][key] >= amount, "Stake is sponsored");
+
+        _debit(_msgSender(), fromSerial, amount);
+        _credit(_msgSender(), toSerial, amount);
+
+        emit StakeMoved(_msgSender(), fromSerial, toSerial, amount);
+    }
+
+    /**
+    @notice Transfer the staked balance of a device to another wallet, along with its locks and sponsorships
+    @dev Pending withdraw requests and accrued yield stay with the caller. With a registry set, the receiver must own the device
+    @param serial Serial number of device
+    @param to receiving wallet
+    */
+    function transferStake(string calldata serial, address to) whenNotPaused nonReentrant external {
+        require(to != address(0) && to != _msgSender(), "Invalid receiver");
+        _checkDeviceOwner(to, serial);
+
+        _migrateLegacyBalance(_msgSender(), serial);
+        _migrateLegacyBalance(to, serial);
+        bytes32 key = SerialKey.key(serial);
+        uint256 amount = _balances[_msgSender()][key];
+        require(amount > 0, "Insufficient balance");
+
+        _debit(_msgSender(), serial, amount);
+        _credit(to, serial, amount);
+
+        // Locks follow the stake
+        _pruneStakeLocks(_msgSender(), key);
+        StakeLock[] storage stakeLocks = _stakeLocks[_msgSender()][key];
+        for (uint256 i = 0; i < stakeLocks.length; i++) {
+            _stakeLocks[to][key].push(stakeLocks[i]);
+        }
+        delete _stakeLocks[_msgSender()][key];
+
+        // Sponsors keep their claim on the stake
+        Sponsorship[] storage sponsorships = _sponsorships[_msgSender()][key];
+        for (uint256 i = 0; i < sponsorships.length; i++) {
+            _addSponsorship(to, key, sponsorships[i].sponsor, sponsorships[i].amount);
+        }
+        delete _sponsorships[_msgSender()][key];
+        delete _sponsoredAmounts[_msgSender()][key];
+
+        emit StakeTransferred(_msgSender(), to, serial, amount);
+    }
+
+    /**
+    @notice Record the current staked amount of wallets whose stake has not changed since checkpoints were introduced
+    @dev Stake is checkpointed on every change, so this is only needed once per wallet after the upgrade adding checkpoints
+    @param wallets wallets to checkpoint, wallets already checkpointed are skipped
+    */
+    function checkpointStake(address[] calldata wallets) external {
+        for (uint256 i = 0; i < wallets.length; i++) {
+            if (_stakeCheckpoints[wallets[i]].length() == 0) {
+                _stakeCheckpoints[wallets[i]].push(_stakedAmounts[wallets[i]]);
+            }
+        }
+        if (_totalStakeCheckpoints.length() == 0) {
+            _totalStakeCheckpoints.push(totalStaked);
+        }
+    }
+}
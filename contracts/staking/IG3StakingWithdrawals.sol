@@ -0,0 +1,147 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import "./IG3StakingBase.sol";
+
+/**
+ * @title IG3StakingWithdrawals
+ * @dev Module of IG3Staking requesting, canceling and withdrawing stake, including emergency withdrawals. IG3Staking
+ * delegates these functions here to stay under the contract size limit, they are not meant to be called on the module
+ * itself.
+ */
+contract IG3StakingWithdrawals is IG3StakingBase {
+    using SerialSet for SerialSet.Set;
+
+    /**
+    @notice Submit a request to withdraw the whole unlocked balance of a list of devices
+    @dev Devices without unlocked balance are skipped, the request reverts if none has any
+    @param serials array of device serial numbers
+    @return requestId id of the created request
+    */
+    function request(string[] calldata serials) whenNotPaused nonReentrant external returns (uint256) {
+        WithdrawRequest storage withdrawRequest = _createWithdrawRequest(_msgSender(), serials.length);
+
+        uint256 balance = 0;
+        // Calculate withdraw request amount
+        for (uint256 i = 0; i < serials.length; ++i) {
+            _migrateLegacyBalance(_msgSender(), serials[i]);
+            bytes32 key = SerialKey.key(serials[i]);
+            uint256 unlocked = _balances[_msgSender()][key] - _lockedAmount(_msgSender(), key);
+            // Devices with nothing unlocked are left out of the request
+            if (unlocked > 0) {
+                balance += _requestBalance(withdrawRequest, serials[i], unlocked);
+            }
+        }
+        require(balance > 0, "Insufficient balance");
+        withdrawRequest.amount = balance;
+
+        emit WithdrawRequestCreated(withdrawRequest.id, _msgSender(), withdrawRequest.timestamp, balance);
+        return withdrawRequest.id;
+    }
+
+    /**
+    @notice Submit a request to withdraw specific amounts from a list of devices
+    @param serialBalances array of device serial numbers with the amount to withdraw from each
+    @return requestId id of the created request
+    */
+    function requestPartial(SerialBalance[] calldata serialBalances) whenNotPaused nonReentrant external returns (uint256) {
+        WithdrawRequest storage withdrawRequest = _createWithdrawRequest(_msgSender(), serialBalances.length);
+
+        uint256 balance = 0;
+        // Calculate withdraw request amount
+        for (uint256 i = 0; i < serialBalances.length; ++i) {
+            require(serialBalances[i].balance > 0, "Amount must be greater than 0");
+            _migrateLegacyBalance(_msgSender(), serialBalances[i].serial);
+            bytes32 key = SerialKey.key(serialBalances[i].serial);
+            require(_balances[_msgSender()][key] >= serialBalances[i].balance, "Insufficient balance");
+            require(_balances[_msgSender()][key] - _lockedAmount(_msgSender(), key) >= serialBalances[i].balance, "Stake is locked");
+            balance += _requestBalance(withdrawRequest, serialBalances[i].serial, serialBalances[i].balance);
+        }
+        require(balance > 0, "Insufficient balance");
+        withdrawRequest.amount = balance;
+
+        emit WithdrawRequestCreated(withdrawRequest.id, _msgSender(), withdrawRequest.timestamp, balance);
+        return withdrawRequest.id;
+    }
+
+    /**
+    @notice Cancel withdraw request
+    @param requestId id of the request to cancel
+    */
+    function cancel(uint256 requestId) whenNotPaused nonReentrant external {
+        WithdrawRequest storage withdrawRequest = _getWithdrawRequest(_msgSender(), requestId);
+        DeviceBalance[] memory deviceBalances = withdrawRequest.deviceBalances;
+        // Return balance to staking amount
+        for (uint256 i = 0; i < deviceBalances.length; i++) {
+            _legacyBalances[_msgSender()][deviceBalances[i].serial] += deviceBalances[i].balance;
+        }
+        SerialBalance[] memory serialBalances = withdrawRequest.serialBalances;
+        for (uint256 i = 0; i < serialBalances.length; i++) {
+            _credit(_msgSender(), serialBalances[i].serial, serialBalances[i].balance);
+        }
+        _restoreRequestSponsorships(_msgSender(), requestId);
+        emit WithdrawRequestCanceled(requestId, _msgSender(), withdrawRequest.timestamp, withdrawRequest.amount, _requestSerialBalances(withdrawRequest));
+
+        // Clear canceled request
+        _deleteWithdrawRequest(_msgSender(), requestId);
+    }
+
+    /**
+    @notice Withdraw, paying sponsored stake in the request back to its sponsors
+    @param requestId id of the request to withdraw
+    */
+    function withdraw(uint256 requestId) whenNotPaused nonReentrant external {
+        WithdrawRequest storage withdrawRequest = _getWithdrawRequest(_msgSender(), requestId);
+        require(block.timestamp >= withdrawRequest.timestamp, "Waiting time not over");
+        uint256 amount = withdrawRequest.amount;
+        SerialBalance[] memory serialBalances = _requestSerialBalances(withdrawRequest);
+
+        // Clear withdrawn request
+        _deleteWithdrawRequest(_msgSender(), requestId);
+        uint256 returned = _settleRequestSponsorships(_msgSender(), requestId, amount);
+
+        // Call TOPS contract to transfer
+        IERC20 token = IERC20(tokenAddress);
+        token.transfer(_msgSender(), amount - returned);
+
+        emit Withdrawn(requestId, _msgSender(), amount, serialBalances);
+    }
+
+    /**
+    @notice Withdraw staked balances and pending requests of the caller at once, bypassing the request time
+    @dev Only available in emergency mode, while paused. Sponsored stake is paid back to its sponsors and accrued yield is left to claim once unpaused.
+    Wallets with more devices or requests than fit in a block withdraw them over several calls
+    @param serials serials to withdraw, as listed by getDeviceBalances, along with serials whose balance is still under a legacy bytes9 key
+    @param requestIds pending requests to withdraw, as listed by getWithdrawRequestIds
+    */
+    function emergencyWithdraw(string[] calldata serials, uint256[] calldata requestIds) whenPaused nonReentrant external {
+        require(emergencyMode, "Emergency mode not enabled");
+
+        uint256 amount = 0;
+        uint256 returned = 0;
+        for (uint256 i = 0; i < serials.length; i++) {
+            _migrateLegacyBalance(_msgSender(), serials[i]);
+            bytes32 key = SerialKey.key(serials[i]);
+            uint256 balance = _balances[_msgSender()][key];
+            if (balance == 0) {
+                continue;
+            }
+            amount += balance;
+            _debit(_msgSender(), serials[i], balance);
+            delete _stakeLocks[_msgSender()][key];
+            returned += _returnSponsorships(_msgSender(), serials[i]);
+        }
+        for (uint256 i = 0; i < requestIds.length; i++) {
+            uint256 requestAmount = _getWithdrawRequest(_msgSender(), requestIds[i]).amount;
+            amount += requestAmount;
+            _deleteWithdrawRequest(_msgSender(), requestIds[i]);
+            returned += _settleRequestSponsorships(_msgSender(), requestIds[i], requestAmount);
+        }
+        require(amount > 0, "Insufficient balance");
+
+        // Call TOPS contract to transfer
+        IERC20(tokenAddress).transfer(_msgSender(), amount - returned);
+
+        emit EmergencyWithdrawn(_msgSender(), serials, requestIds, amount);
+    }
+}
@@ -0,0 +1,18 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.0;
+
+import "../TOPS.sol";
+
+/**
+ * @title TOPSUpgradeMock
+ * @dev Next TOPS implementation appending storage, kept to test upgrades
+ * @custom:oz-upgrades-unsafe-allow missing-initializer
+ */
+contract TOPSUpgradeMock is TOPS {
+    uint256 public upgradeVersion;
+
+    function initializeUpgrade() public reinitializer(4) {
+        upgradeVersion = 4;
+    }
+}
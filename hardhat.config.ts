@@ -3,6 +3,9 @@ import "@nomicfoundation/hardhat-toolbox";
 import '@openzeppelin/hardhat-upgrades';
 import * as dotenv from "dotenv";
 import "hardhat-contract-sizer";
+import "./tasks/deploy";
+import "./tasks/indexer";
+import "./tasks/import";
 
 dotenv.config();
 
@@ -45,6 +48,9 @@ const config: HardhatUserConfig = {
       gas: 8000000,
     },
   },
+  contractSizer: {
+    strict: true,
+  },
 };
 
 export default config;
@@ -0,0 +1,288 @@
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import * as fs from "fs";
+import * as path from "path";
+import { deployModules } from "../utils/modules";
+
+export interface ContractDeployment {
+    proxy: string;
+    implementation: string;
+}
+
+export interface DeploymentManifest {
+    network: string;
+    chainId: number;
+    contracts: { [name: string]: ContractDeployment };
+    rewardWallet?: string;
+}
+
+export interface DeployOptions {
+    admin?: string;
+    pauser?: string;
+    upgrader?: string;
+    registrar?: string;
+    minter?: string;
+    rewardWallet?: string;
+    forwarder?: string;
+    manifest?: string;
+    quiet?: boolean;
+}
+
+export interface DeployedStack {
+    manifest: DeploymentManifest;
+    manifestPath: string;
+    topsToken: any;
+    deviceRegistry: any;
+    ig3Staking: any;
+    ig3Reward: any;
+}
+
+// Values of the ConfigParameter enums of IG3Staking and IG3Reward
+const StakingConfig = { TokenAddress: 2, TrustedForwarder: 3, RegistryAddress: 4 };
+const RewardConfig = { TokenAddress: 1, StakingAddress: 2, RewardWallet: 3, TrustedForwarder: 4, RegistryAddress: 5 };
+
+/**
+ * @dev Default location of the deployment manifest for a network
+ */
+export function manifestPathFor(hre: HardhatRuntimeEnvironment): string {
+    return path.join(hre.config.paths.root, "deployments", `${hre.network.name}.json`);
+}
+
+export function readManifest(file: string): DeploymentManifest | undefined {
+    if (!fs.existsSync(file)) {
+        return undefined;
+    }
+    return JSON.parse(fs.readFileSync(file, "utf8"));
+}
+
+export function writeManifest(file: string, manifest: DeploymentManifest) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(manifest, null, 2) + "\n");
+}
+
+/**
+ * @dev Deploy a proxy unless the manifest already points at a live one, then record it in the manifest
+ */
+async function deployOrReuse(
+    hre: HardhatRuntimeEnvironment,
+    manifest: DeploymentManifest,
+    manifestPath: string,
+    name: string,
+    args: unknown[],
+    log: (message: string) => void
+) {
+    const { ethers, upgrades } = hre;
+    const existing = manifest.contracts[name];
+    if (existing && (await ethers.provider.getCode(existing.proxy)) !== "0x") {
+        log(`${name}: reusing proxy at ${existing.proxy}`);
+        return ethers.getContractAt(name, existing.proxy);
+    }
+
+    const factory = await ethers.getContractFactory(name);
+    const contract = await upgrades.deployProxy(factory, args, {
+        initializer: "initialize",
+        constructorArgs: await deployModules(ethers, name),
+    });
+    await contract.waitForDeployment();
+
+    const proxy = await contract.getAddress();
+    manifest.contracts[name] = {
+        proxy,
+        implementation: await upgrades.erc1967.getImplementationAddress(proxy),
+    };
+    writeManifest(manifestPath, manifest);
+    log(`${name}: deployed proxy at ${proxy}`);
+
+    return contract;
+}
+
+/**
+ * @dev Propose a timelocked configuration change unless the same change is already pending, then execute it
+ * if its delay is over. Changes still waiting for their delay are left pending for a later run.
+ * @return whether the change was executed
+ */
+async function changeConfig(
+    hre: HardhatRuntimeEnvironment,
+    contract: any,
+    label: string,
+    parameter: number,
+    value: string,
+    propose: () => Promise<any>,
+    log: (message: string) => void
+): Promise<boolean> {
+    const pending = await contract.getPendingConfigChange(parameter);
+    if (pending.executableAt === 0n || pending.value !== BigInt(value)) {
+        await (await propose()).wait();
+    }
+
+    const { executableAt } = await contract.getPendingConfigChange(parameter);
+    const latest = await hre.ethers.provider.getBlock("latest");
+    if (executableAt > BigInt(latest!.timestamp)) {
+        log(`${label}: change to ${value} pending until ${new Date(Number(executableAt) * 1000).toISOString()}, re-run to execute it`);
+        return false;
+    }
+    await (await contract.executeConfigChange(parameter)).wait();
+    log(`${label} set to ${value}`);
+    return true;
+}
+
+/**
+ * @dev Point IG3Staking and IG3Reward at each other, the token, the registry, the reward wallet and the forwarder
+ * @return whether no change is left pending
+ */
+async function wireStack(
+    hre: HardhatRuntimeEnvironment,
+    topsToken: any,
+    deviceRegistry: any,
+    ig3Staking: any,
+    ig3Reward: any,
+    rewardWallet: string,
+    forwarder: string | undefined,
+    log: (message: string) => void
+): Promise<boolean> {
+    const tokenAddress = await topsToken.getAddress();
+    const registryAddress = await deviceRegistry.getAddress();
+    const stakingAddress = await ig3Staking.getAddress();
+    const rewardAddress = await ig3Reward.getAddress();
+    let wired = true;
+
+    if ((await ig3Staking.tokenAddress()) !== tokenAddress) {
+        wired = await changeConfig(hre, ig3Staking, "IG3Staking: token address", StakingConfig.TokenAddress, tokenAddress,
+            () => ig3Staking.proposeTokenAddress(tokenAddress), log) && wired;
+    }
+    if ((await ig3Reward.tokenAddress()) !== tokenAddress) {
+        wired = await changeConfig(hre, ig3Reward, "IG3Reward: token address", RewardConfig.TokenAddress, tokenAddress,
+            () => ig3Reward.proposeTokenAddress(tokenAddress), log) && wired;
+    }
+    if ((await ig3Reward.stakingAddress()) !== stakingAddress) {
+        wired = await changeConfig(hre, ig3Reward, "IG3Reward: staking address", RewardConfig.StakingAddress, stakingAddress,
+            () => ig3Reward.proposeStakingAddress(stakingAddress), log) && wired;
+    }
+    if ((await ig3Staking.registryAddress()) !== registryAddress) {
+        wired = await changeConfig(hre, ig3Staking, "IG3Staking: registry address", StakingConfig.RegistryAddress, registryAddress,
+            () => ig3Staking.proposeRegistryAddress(registryAddress), log) && wired;
+    }
+    if ((await ig3Reward.registryAddress()) !== registryAddress) {
+        wired = await changeConfig(hre, ig3Reward, "IG3Reward: registry address", RewardConfig.RegistryAddress, registryAddress,
+            () => ig3Reward.proposeRegistryAddress(registryAddress), log) && wired;
+    }
+    const reinvestRole = await ig3Staking.REINVEST_ROLE();
+    if (!(await ig3Staking.hasRole(reinvestRole, rewardAddress))) {
+        await (await ig3Staking.grantRole(reinvestRole, rewardAddress)).wait();
+        log(`IG3Staking: REINVEST_ROLE granted to ${rewardAddress}`);
+    }
+    if ((await ig3Reward.getRewardWallet()) !== rewardWallet) {
+        wired = await changeConfig(hre, ig3Reward, "IG3Reward: reward wallet", RewardConfig.RewardWallet, rewardWallet,
+            () => ig3Reward.proposeRewardWallet(rewardWallet), log) && wired;
+    }
+    if (forwarder) {
+        if ((await ig3Staking.trustedForwarder()) !== forwarder) {
+            wired = await changeConfig(hre, ig3Staking, "IG3Staking: trusted forwarder", StakingConfig.TrustedForwarder, forwarder,
+                () => ig3Staking.proposeTrustedForwarder(forwarder), log) && wired;
+        }
+        if ((await ig3Reward.trustedForwarder()) !== forwarder) {
+            wired = await changeConfig(hre, ig3Reward, "IG3Reward: trusted forwarder", RewardConfig.TrustedForwarder, forwarder,
+                () => ig3Reward.proposeTrustedForwarder(forwarder), log) && wired;
+        }
+    }
+
+    return wired;
+}
+
+/**
+ * @dev Grant the roles the deployer held during the run to the admin, then renounce them
+ */
+async function handOverRoles(contract: any, name: string, roles: string[], deployer: string, admin: string,
+    log: (message: string) => void) {
+    const adminRole = await contract.DEFAULT_ADMIN_ROLE();
+    if (!(await contract.hasRole(adminRole, deployer))) {
+        return;
+    }
+    // DEFAULT_ADMIN_ROLE last, it is needed to grant the others
+    for (const role of [...roles, adminRole]) {
+        if (!(await contract.hasRole(role, admin))) {
+            await (await contract.grantRole(role, admin)).wait();
+        }
+    }
+    for (const role of [...roles, adminRole]) {
+        await (await contract.renounceRole(role, deployer)).wait();
+    }
+    log(`${name}: admin handed over to ${admin}`);
+}
+
+/**
+ * @notice Deploy TOPS, IG3DeviceRegistry, IG3Staking and IG3Reward behind proxies and wire them together.
+ * Safe to re-run: contracts recorded in the manifest are reused and wiring is only sent when missing.
+ */
+export async function deployStack(hre: HardhatRuntimeEnvironment, options: DeployOptions = {}): Promise<DeployedStack> {
+    const { ethers } = hre;
+    const log = options.quiet ? () => {} : console.log;
+    const [deployer] = await ethers.getSigners();
+    const admin = options.admin ? ethers.getAddress(options.admin) : deployer.address;
+    const pauser = options.pauser || admin;
+    const upgrader = options.upgrader || admin;
+    const registrar = options.registrar || admin;
+    const minter = options.minter || ethers.ZeroAddress;
+    const rewardWallet = options.rewardWallet || admin;
+    const forwarder = options.forwarder;
+
+    const manifestPath = options.manifest || manifestPathFor(hre);
+    const { chainId } = await ethers.provider.getNetwork();
+    let manifest = readManifest(manifestPath);
+    if (!manifest || BigInt(manifest.chainId) !== chainId) {
+        manifest = { network: hre.network.name, chainId: Number(chainId), contracts: {} };
+    }
+
+    const topsToken = await deployOrReuse(hre, manifest, manifestPath, "TOPS", [deployer.address, minter, upgrader], log);
+    const tokenAddress = await topsToken.getAddress();
+
+    const deviceRegistry = await deployOrReuse(hre, manifest, manifestPath, "IG3DeviceRegistry",
+        [deployer.address, pauser, upgrader, registrar], log);
+
+    const ig3Staking = await deployOrReuse(hre, manifest, manifestPath, "IG3Staking",
+        [deployer.address, pauser, upgrader, tokenAddress], log);
+    const stakingAddress = await ig3Staking.getAddress();
+
+    const ig3Reward = await deployOrReuse(hre, manifest, manifestPath, "IG3Reward",
+        [deployer.address, pauser, upgrader, tokenAddress, stakingAddress], log);
+
+    // Wiring is sent by the deployer, which holds the admin roles until it is done
+    const adminRole = await ig3Staking.DEFAULT_ADMIN_ROLE();
+    let pending = false;
+    if (await ig3Staking.hasRole(adminRole, deployer.address) && await ig3Reward.hasRole(adminRole, deployer.address)) {
+        pending = !await wireStack(hre, topsToken, deviceRegistry, ig3Staking, ig3Reward, rewardWallet, forwarder, log);
+    } else {
+        log(`Wiring skipped, ${deployer.address} no longer holds DEFAULT_ADMIN_ROLE`);
+    }
+    if (admin !== deployer.address) {
+        if (pending) {
+            log(`Admin roles stay with ${deployer.address} until all wiring is executed, re-run to hand them over to ${admin}`);
+        } else {
+            await handOverRoles(topsToken, "TOPS", [await topsToken.PAUSER_ROLE()], deployer.address, admin, log);
+            await handOverRoles(deviceRegistry, "IG3DeviceRegistry", [], deployer.address, admin, log);
+            await handOverRoles(ig3Staking, "IG3Staking", [], deployer.address, admin, log);
+            await handOverRoles(ig3Reward, "IG3Reward", [], deployer.address, admin, log);
+        }
+    }
+
+    manifest.rewardWallet = rewardWallet;
+    writeManifest(manifestPath, manifest);
+    log(`Deployment manifest written to ${manifestPath}`);
+
+    return { manifest, manifestPath, topsToken, deviceRegistry, ig3Staking, ig3Reward };
+}
+
+task("deploy", "Deploy and wire TOPS, IG3DeviceRegistry, IG3Staking and IG3Reward")
+    .addOptionalParam("admin", "Default admin of all contracts (defaults to deployer)")
+    .addOptionalParam("pauser", "Pauser role holder (defaults to admin)")
+    .addOptionalParam("upgrader", "Upgrader role holder (defaults to admin)")
+    .addOptionalParam("registrar", "Device registrar role holder (defaults to admin)")
+    .addOptionalParam("minter", "TOPS minter role holder (defaults to none)")
+    .addOptionalParam("rewardWallet", "Wallet holding the reward fund (defaults to admin)")
+    .addOptionalParam("forwarder", "IG3Forwarder trusted to relay signed requests (left unchanged when omitted)")
+    .addOptionalParam("manifest", "Path of the deployment manifest (defaults to deployments/<network>.json)", undefined, types.string)
+    .addFlag("quiet", "Do not log deployment progress")
+    .setAction(async (args, hre) => {
+        const { manifest } = await deployStack(hre, args);
+        return manifest;
+    });
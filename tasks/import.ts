@@ -0,0 +1,422 @@
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import csvtojson from "csvtojson";
+import { stringify } from "csv/sync";
+import { getAddress, isAddress, parseEther, ZeroAddress } from "ethers";
+import * as fs from "fs";
+import * as path from "path";
+import { manifestPathFor, readManifest } from "./deploy";
+
+export type ImportMode = "rewards" | "deposits";
+
+export interface ImportRow {
+    row: number; // line of the CSV, the header is line 1
+    wallet: string; // empty for deposits, which are made by the signer
+    serial: string;
+    value: bigint;
+}
+
+export type RowStatus = "pending" | "sent" | "confirmed" | "skipped";
+
+export interface RowResult {
+    row: number;
+    wallet: string;
+    serial: string;
+    value: string;
+    status: RowStatus;
+    txHash: string;
+}
+
+export interface ImportBatch {
+    rows: number[];
+    gas: bigint;
+    txHash?: string;
+}
+
+export interface ImportSummary {
+    mode: ImportMode;
+    dryRun: boolean;
+    rows: number;
+    total: bigint;
+    completed: number; // rows confirmed by an earlier run
+    batches: ImportBatch[];
+    errors: string[]; // rows whose transaction would revert, only collected on dry runs
+    warnings: string[];
+    resultPath: string;
+}
+
+export interface ImportOptions {
+    mode: ImportMode;
+    file: string;
+    result?: string;
+    contract?: string;
+    manifest?: string;
+    dryRun?: boolean;
+    total?: string;
+    wei?: boolean;
+    maxGas?: number;
+    batchSize?: number;
+    maxSerialLength?: number;
+    quiet?: boolean;
+}
+
+const DEFAULT_MAX_GAS = 10_000_000;
+const GAS_BUFFER_PERCENT = 120n; // gas limit sent with a batch, over its estimate
+const DEFAULT_BATCH_SIZE = 200;
+const DEFAULT_MAX_SERIAL_LENGTH = 64;
+
+// Columns expected in the CSV of each mode
+const COLUMNS: { [mode in ImportMode]: { wallet?: string; serial: string; value: string } } = {
+    rewards: { wallet: "wallet", serial: "serial", value: "value" },
+    deposits: { serial: "serial", value: "amount" },
+};
+
+/**
+ * @dev Default location of the result file of an import
+ */
+export function resultPathFor(hre: HardhatRuntimeEnvironment, file: string, mode: ImportMode): string {
+    return path.join(hre.config.paths.root, "assets", "csv-output", `${path.parse(file).name}.${mode}.result.csv`);
+}
+
+/**
+ * @notice Read and validate the rows of an import CSV. Values are in TOPS unless `wei` is set.
+ * All invalid rows are reported together.
+ */
+export async function readImportRows(
+    file: string,
+    mode: ImportMode,
+    options: { wei?: boolean; maxSerialLength?: number } = {}
+): Promise<ImportRow[]> {
+    const columns = COLUMNS[mode];
+    const maxSerialLength = options.maxSerialLength ?? DEFAULT_MAX_SERIAL_LENGTH;
+    const records: { [column: string]: string }[] = await csvtojson({ trim: true, checkType: false }).fromFile(file);
+    if (records.length === 0) {
+        throw new Error(`${file} has no rows`);
+    }
+    const missing = Object.values(columns).filter(column => !(column in records[0]));
+    if (missing.length > 0) {
+        throw new Error(`${file} is missing columns: ${missing.join(", ")}`);
+    }
+
+    const rows: ImportRow[] = [];
+    const errors: string[] = [];
+    records.forEach((record, index) => {
+        const row = index + 2;
+        let wallet = "";
+        if (columns.wallet) {
+            wallet = isAddress(record[columns.wallet]) ? getAddress(record[columns.wallet]) : ZeroAddress;
+            if (wallet === ZeroAddress) {
+                errors.push(`Row ${row}: invalid wallet "${record[columns.wallet]}"`);
+            }
+        }
+
+        const serial = record[columns.serial];
+        const serialLength = Buffer.byteLength(serial, "utf8");
+        if (serialLength === 0 || serialLength > maxSerialLength) {
+            errors.push(`Row ${row}: serial "${serial}" must be 1 to ${maxSerialLength} bytes`);
+        }
+
+        let value = 0n;
+        try {
+            value = options.wei ? BigInt(record[columns.value]) : parseEther(record[columns.value]);
+        } catch {
+            // Reported below
+        }
+        if (value <= 0n) {
+            errors.push(`Row ${row}: ${columns.value} "${record[columns.value]}" must be a number greater than 0`);
+        }
+
+        rows.push({ row, wallet, serial, value });
+    });
+    if (errors.length > 0) {
+        throw new Error(`Invalid rows in ${file}:\n${errors.join("\n")}`);
+    }
+    return rows;
+}
+
+export async function readResults(file: string): Promise<RowResult[]> {
+    if (!fs.existsSync(file)) {
+        return [];
+    }
+    const records = await csvtojson({ checkType: false }).fromFile(file);
+    return records.map(record => ({ ...record, row: Number(record.row) }) as RowResult);
+}
+
+export function writeResults(file: string, results: RowResult[]) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, stringify(results, { header: true, columns: ["row", "wallet", "serial", "value", "status", "txHash"] }));
+}
+
+function revertReason(error: any): string {
+    const match = /reverted with reason string '(.*)'/.exec(error.message);
+    return error.reason ?? match?.[1] ?? error.shortMessage ?? error.message;
+}
+
+/**
+ * @dev Reconcile the result file of an earlier run with the rows: confirmed rows must be unchanged, and rows
+ * whose transaction was sent but not recorded as mined are settled from the chain
+ */
+async function loadResults(hre: HardhatRuntimeEnvironment, resultPath: string, rows: ImportRow[]): Promise<RowResult[]> {
+    const previous = new Map((await readResults(resultPath)).map(result => [result.row, result]));
+    const receipts = new Map<string, any>();
+    const results: RowResult[] = [];
+    for (const row of rows) {
+        const result: RowResult = { row: row.row, wallet: row.wallet, serial: row.serial, value: row.value.toString(), status: "pending", txHash: "" };
+        const recorded = previous.get(row.row);
+        if (recorded && recorded.status !== "pending") {
+            if (recorded.wallet !== result.wallet || recorded.serial !== result.serial || recorded.value !== result.value) {
+                throw new Error(`Row ${row.row} differs from the result file ${resultPath}, which was written for another input`);
+            }
+            result.status = recorded.status;
+            result.txHash = recorded.txHash;
+        }
+
+        if (result.status === "sent") {
+            if (!receipts.has(result.txHash)) {
+                receipts.set(result.txHash, await hre.ethers.provider.getTransactionReceipt(result.txHash));
+            }
+            const receipt = receipts.get(result.txHash);
+            if (receipt?.status === 1) {
+                result.status = "confirmed";
+            } else if (receipt || !(await hre.ethers.provider.getTransaction(result.txHash))) {
+                // Reverted or dropped, send again
+                result.status = "pending";
+                result.txHash = "";
+            } else {
+                throw new Error(`Transaction ${result.txHash} of row ${row.row} is still pending, re-run once it is mined or dropped`);
+            }
+        }
+        results.push(result);
+    }
+    return results;
+}
+
+/**
+ * @notice Send the rows of a CSV to `IG3Reward.addRewards` or `IG3Staking.bulkDeposit` in batches sized by gas estimates.
+ * Every batch is recorded in the result file before and after it is mined, so re-running with the same file only sends
+ * the rows not confirmed yet. A dry run validates, estimates and reports the batches without sending anything.
+ */
+export async function importCsv(hre: HardhatRuntimeEnvironment, options: ImportOptions): Promise<ImportSummary> {
+    const { ethers } = hre;
+    const log = options.quiet ? () => {} : console.log;
+    const { mode } = options;
+    if (mode !== "rewards" && mode !== "deposits") {
+        throw new Error(`Unknown import mode "${mode}"`);
+    }
+    const contractName = mode === "rewards" ? "IG3Reward" : "IG3Staking";
+    const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+
+    const rows = await readImportRows(options.file, mode, options);
+    const total = rows.reduce((sum, row) => sum + row.value, 0n);
+    if (options.total !== undefined) {
+        const expected = options.wei ? BigInt(options.total) : ethers.parseEther(options.total);
+        if (expected !== total) {
+            throw new Error(`Total of ${ethers.formatEther(total)} TOPS does not match the expected ${ethers.formatEther(expected)} TOPS`);
+        }
+    }
+
+    let address = options.contract;
+    if (!address) {
+        const manifestPath = options.manifest || manifestPathFor(hre);
+        address = readManifest(manifestPath)?.contracts[contractName]?.proxy;
+        if (!address) {
+            throw new Error(`No ${contractName} deployment in ${manifestPath}`);
+        }
+    }
+    const [signer] = await ethers.getSigners();
+    // Batches are sized so that their buffered gas limit fits in a block
+    const blockGasLimit: bigint = (await ethers.provider.getBlock("latest"))!.gasLimit;
+    let maxGas = BigInt(options.maxGas ?? DEFAULT_MAX_GAS);
+    if (maxGas * GAS_BUFFER_PERCENT / 100n > blockGasLimit) {
+        maxGas = blockGasLimit * 100n / GAS_BUFFER_PERCENT;
+    }
+    const contract: any = await ethers.getContractAt(contractName, address, signer);
+    const token: any = await ethers.getContractAt("IERC20", await contract.tokenAddress(), signer);
+
+    const resultPath = options.result || resultPathFor(hre, options.file, mode);
+    const results = await loadResults(hre, resultPath, rows);
+    const remaining = rows.filter((_row, index) => results[index].status === "pending");
+    const remainingTotal = remaining.reduce((sum, row) => sum + row.value, 0n);
+
+    const summary: ImportSummary = {
+        mode,
+        dryRun: !!options.dryRun,
+        rows: rows.length,
+        total,
+        completed: rows.length - remaining.length,
+        batches: [],
+        errors: [],
+        warnings: [],
+        resultPath,
+    };
+
+    const seen = new Set<string>();
+    for (const row of rows) {
+        const key = `${row.wallet}:${row.serial}`;
+        if (seen.has(key)) {
+            summary.warnings.push(`Row ${row.row}: ${row.wallet ? `${row.wallet} / ` : ""}${row.serial} is listed more than once`);
+        }
+        seen.add(key);
+    }
+
+    // Funding
+    let estimate = remaining.length > 0;
+    if (mode === "rewards") {
+        let available: bigint;
+        if (await contract.vaultEnabled()) {
+            available = await contract.vaultFunds();
+        } else {
+            const rewardWallet = await contract.getRewardWallet();
+            const balance: bigint = await token.balanceOf(rewardWallet);
+            const allowance: bigint = await token.allowance(rewardWallet, address);
+            available = balance < allowance ? balance : allowance;
+        }
+        if (available < remainingTotal) {
+            summary.warnings.push(`Reward funding of ${ethers.formatEther(available)} TOPS is below the ${ethers.formatEther(remainingTotal)} TOPS to add`);
+        }
+    } else if (remaining.length > 0) {
+        const balance: bigint = await token.balanceOf(signer.address);
+        if (balance < remainingTotal) {
+            throw new Error(`Balance of ${ethers.formatEther(balance)} TOPS is below the ${ethers.formatEther(remainingTotal)} TOPS to deposit`);
+        }
+        const allowance: bigint = await token.allowance(signer.address, address);
+        if (allowance < remainingTotal) {
+            if (options.dryRun) {
+                summary.warnings.push(`Allowance of ${ethers.formatEther(allowance)} TOPS is below the ${ethers.formatEther(remainingTotal)} TOPS to deposit, the run approves it first and batches are not estimated`);
+                estimate = false;
+            } else {
+                await (await token.approve(address, remainingTotal)).wait();
+                log(`Approved ${ethers.formatEther(remainingTotal)} TOPS for ${contractName}`);
+            }
+        }
+    }
+
+    const method = mode === "rewards" ? "addRewards" : "bulkDeposit";
+    const encode = (batch: ImportRow[]) => mode === "rewards"
+        ? batch.map(row => ({ wallet: row.wallet, serial: row.serial, value: row.value }))
+        : batch.map(row => ({ serial: row.serial, amount: row.value }));
+
+    let start = 0;
+    while (estimate && start < remaining.length) {
+        // Halve the batch until it fits the gas limit; a reverting batch is halved down to its first failing row
+        let count = Math.min(batchSize, remaining.length - start);
+        let gas: bigint | undefined;
+        let failure = "";
+        while (gas === undefined && !failure) {
+            const candidate = remaining.slice(start, start + count);
+            try {
+                const estimated: bigint = await contract[method].estimateGas(encode(candidate));
+                if (estimated <= maxGas) {
+                    gas = estimated;
+                } else if (count === 1) {
+                    failure = `Row ${candidate[0].row} needs ${estimated} gas, above the ${maxGas} limit`;
+                }
+            } catch (error: any) {
+                if (count === 1) {
+                    failure = `Row ${candidate[0].row}: ${revertReason(error)}`;
+                }
+            }
+            if (gas === undefined && !failure) {
+                count = Math.ceil(count / 2);
+            }
+        }
+        const batch = remaining.slice(start, start + count);
+        start += count;
+        if (gas === undefined) {
+            if (!options.dryRun) {
+                throw new Error(`${failure}. Fix the row and re-run to resume`);
+            }
+            summary.errors.push(failure);
+            continue;
+        }
+        const planned: ImportBatch = { rows: batch.map(row => row.row), gas };
+        summary.batches.push(planned);
+        if (options.dryRun) {
+            continue;
+        }
+
+        const batchResults = batch.map(row => results[rows.indexOf(row)]);
+        const buffered = gas * GAS_BUFFER_PERCENT / 100n;
+        const tx = await contract[method](encode(batch), { gasLimit: buffered < blockGasLimit ? buffered : blockGasLimit });
+        planned.txHash = tx.hash;
+        for (const result of batchResults) {
+            result.status = "sent";
+            result.txHash = tx.hash;
+        }
+        writeResults(resultPath, results);
+
+        let receipt: any;
+        try {
+            receipt = await tx.wait();
+        } catch (error: any) {
+            for (const result of batchResults) {
+                result.status = "pending";
+                result.txHash = "";
+            }
+            writeResults(resultPath, results);
+            throw new Error(`Batch of rows ${planned.rows[0]}-${planned.rows[planned.rows.length - 1]} failed: ${revertReason(error)}`);
+        }
+        for (const result of batchResults) {
+            result.status = "confirmed";
+        }
+        // Rewards left out under the Skip inactive device policy
+        for (const parsed of receipt.logs.map((entry: any) => contract.interface.parseLog(entry))) {
+            if (parsed?.name !== "RewardSkipped") {
+                continue;
+            }
+            const skipped = batchResults.find(result => result.status === "confirmed" && result.wallet === parsed.args.wallet
+                && result.serial === parsed.args.serial && result.value === parsed.args.value.toString());
+            if (skipped) {
+                skipped.status = "skipped";
+            }
+        }
+        writeResults(resultPath, results);
+        log(`${method}: rows ${planned.rows[0]}-${planned.rows[planned.rows.length - 1]} in ${tx.hash}`);
+    }
+    if (!options.dryRun) {
+        writeResults(resultPath, results);
+    }
+
+    log(`${options.dryRun ? "Dry run of" : "Imported"} ${rows.length} ${mode} rows totalling ${ethers.formatEther(total)} TOPS into ${contractName} at ${address}`);
+    if (summary.completed > 0) {
+        log(`${summary.completed} rows already confirmed in ${resultPath}`);
+    }
+    for (const batch of summary.batches) {
+        log(`  rows ${batch.rows[0]}-${batch.rows[batch.rows.length - 1]}: ${batch.rows.length} rows, ${batch.gas} gas${batch.txHash ? `, ${batch.txHash}` : ""}`);
+    }
+    summary.warnings.forEach(warning => log(`Warning: ${warning}`));
+    summary.errors.forEach(error => log(`Error: ${error}`));
+    return summary;
+}
+
+task("import-rewards", "Add rewards listed in a CSV with wallet, serial and value columns through IG3Reward.addRewards")
+    .addParam("file", "CSV file to import")
+    .addOptionalParam("result", "Result file recording the transaction of each row (defaults to assets/csv-output/<file>.rewards.result.csv)", undefined, types.string)
+    .addOptionalParam("total", "Expected total of the file, the import stops when it differs", undefined, types.string)
+    .addOptionalParam("contract", "IG3Reward address (defaults to the manifest)", undefined, types.string)
+    .addOptionalParam("manifest", "Path of the deployment manifest (defaults to deployments/<network>.json)", undefined, types.string)
+    .addOptionalParam("maxGas", "Gas limit of a batch, lowered to fit the block gas limit with a 20% buffer", DEFAULT_MAX_GAS, types.int)
+    .addOptionalParam("batchSize", "Maximum rows of a batch", DEFAULT_BATCH_SIZE, types.int)
+    .addOptionalParam("maxSerialLength", "Maximum serial length in bytes", DEFAULT_MAX_SERIAL_LENGTH, types.int)
+    .addFlag("wei", "Values are in wei instead of TOPS")
+    .addFlag("dryRun", "Validate and estimate the batches without sending them")
+    .addFlag("quiet", "Do not log progress")
+    .setAction(async (args, hre) => {
+        return importCsv(hre, { ...args, mode: "rewards" });
+    });
+
+task("import-deposits", "Stake the amounts listed in a CSV with serial and amount columns through IG3Staking.bulkDeposit")
+    .addParam("file", "CSV file to import")
+    .addOptionalParam("result", "Result file recording the transaction of each row (defaults to assets/csv-output/<file>.deposits.result.csv)", undefined, types.string)
+    .addOptionalParam("total", "Expected total of the file, the import stops when it differs", undefined, types.string)
+    .addOptionalParam("contract", "IG3Staking address (defaults to the manifest)", undefined, types.string)
+    .addOptionalParam("manifest", "Path of the deployment manifest (defaults to deployments/<network>.json)", undefined, types.string)
+    .addOptionalParam("maxGas", "Gas limit of a batch, lowered to fit the block gas limit with a 20% buffer", DEFAULT_MAX_GAS, types.int)
+    .addOptionalParam("batchSize", "Maximum rows of a batch", DEFAULT_BATCH_SIZE, types.int)
+    .addOptionalParam("maxSerialLength", "Maximum serial length in bytes", DEFAULT_MAX_SERIAL_LENGTH, types.int)
+    .addFlag("wei", "Amounts are in wei instead of TOPS")
+    .addFlag("dryRun", "Validate and estimate the batches without sending them")
+    .addFlag("quiet", "Do not log progress")
+    .setAction(async (args, hre) => {
+        return importCsv(hre, { ...args, mode: "deposits" });
+    });
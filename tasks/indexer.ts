@@ -0,0 +1,58 @@
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import * as path from "path";
+import { manifestPathFor, readManifest } from "./deploy";
+import { EventIndexer, JsonFileStore } from "../utils/eventIndexer";
+
+export interface IndexOptions {
+    manifest?: string;
+    store?: string;
+    fromBlock?: number;
+    confirmations?: number;
+    quiet?: boolean;
+}
+
+/**
+ * @dev Default location of the indexer store for a network
+ */
+export function indexStorePathFor(hre: HardhatRuntimeEnvironment): string {
+    return path.join(hre.config.paths.root, "deployments", `${hre.network.name}.index.json`);
+}
+
+/**
+ * @notice Index the IG3Staking and IG3Reward logs of the deployment recorded in the manifest, resuming from the store
+ */
+export async function indexDeployment(hre: HardhatRuntimeEnvironment, options: IndexOptions = {}): Promise<EventIndexer> {
+    const log = options.quiet ? () => {} : console.log;
+    const manifestPath = options.manifest || manifestPathFor(hre);
+    const manifest = readManifest(manifestPath);
+    if (!manifest?.contracts.IG3Staking || !manifest.contracts.IG3Reward) {
+        throw new Error(`No IG3Staking and IG3Reward deployment in ${manifestPath}`);
+    }
+
+    const storePath = options.store || indexStorePathFor(hre);
+    const indexer = new EventIndexer({
+        provider: hre.ethers.provider,
+        stakingAddress: manifest.contracts.IG3Staking.proxy,
+        rewardAddress: manifest.contracts.IG3Reward.proxy,
+        store: new JsonFileStore(storePath),
+        startBlock: options.fromBlock,
+        confirmations: options.confirmations,
+    });
+    const lastBlock = await indexer.sync();
+
+    const { stakes, requests, history } = indexer.state;
+    log(`Indexed up to block ${lastBlock}: ${Object.keys(stakes).length} staking wallets, ${Object.keys(requests).length} pending requests, ${history.length} balance changes`);
+    log(`Index written to ${storePath}`);
+    return indexer;
+}
+
+task("index", "Index IG3Staking and IG3Reward logs into a local JSON store")
+    .addOptionalParam("manifest", "Path of the deployment manifest (defaults to deployments/<network>.json)", undefined, types.string)
+    .addOptionalParam("store", "Path of the index store (defaults to deployments/<network>.index.json)", undefined, types.string)
+    .addOptionalParam("fromBlock", "Block to start from on the first run, usually the deployment block", undefined, types.int)
+    .addOptionalParam("confirmations", "Blocks kept reorg-safe before being finalized", undefined, types.int)
+    .addFlag("quiet", "Do not log progress")
+    .setAction(async (args, hre) => {
+        return indexDeployment(hre, args);
+    });
@@ -0,0 +1,153 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+
+describe("IG3DeviceRegistry", () => {
+    let deviceRegistry: any;
+    let owner: any;
+    let pauser: any;
+    let upgrader: any;
+    let registrar: any;
+    let addr1: any;
+    let addr2: any;
+    let snapshotId: string;
+
+    before(async () => {
+        [owner, pauser, upgrader, registrar, addr1, addr2] = await ethers.getSigners();
+
+        const registryFactory = await ethers.getContractFactory("IG3DeviceRegistry");
+        deviceRegistry = await upgrades.deployProxy(
+            registryFactory,
+            [owner.address, pauser.address, upgrader.address, registrar.address],
+            { initializer: "initialize" }
+        );
+        await deviceRegistry.waitForDeployment();
+    });
+
+    beforeEach(async () => {
+        snapshotId = await ethers.provider.send("evm_snapshot", []);
+    });
+
+    afterEach(async () => {
+        await ethers.provider.send("evm_revert", [snapshotId]);
+    });
+
+    describe("Initialization", () => {
+        it("Should initialize with correct roles", async () => {
+            expect(await deviceRegistry.hasRole(await deviceRegistry.DEFAULT_ADMIN_ROLE(), owner.address)).to.be.true;
+            expect(await deviceRegistry.hasRole(await deviceRegistry.PAUSER_ROLE(), pauser.address)).to.be.true;
+            expect(await deviceRegistry.hasRole(await deviceRegistry.UPGRADER_ROLE(), upgrader.address)).to.be.true;
+            expect(await deviceRegistry.hasRole(await deviceRegistry.REGISTRAR_ROLE(), registrar.address)).to.be.true;
+        });
+    });
+
+    describe("Registration", () => {
+        it("Should register a device and emit event", async () => {
+            await expect(deviceRegistry.connect(registrar).register("SERIAL001", addr1.address))
+                .to.emit(deviceRegistry, "DeviceRegistered")
+                .withArgs("SERIAL001", addr1.address);
+            expect(await deviceRegistry.ownerOf("SERIAL001")).to.equal(addr1.address);
+        });
+
+        it("Should return zero address for unregistered devices", async () => {
+            expect(await deviceRegistry.ownerOf("UNKNOWN")).to.equal(ethers.ZeroAddress);
+        });
+
+        it("Should revert registering a device twice", async () => {
+            await deviceRegistry.connect(registrar).register("SERIAL001", addr1.address);
+            await expect(deviceRegistry.connect(registrar).register("SERIAL001", addr2.address))
+                .to.be.revertedWith("Device already registered");
+        });
+
+        it("Should revert with empty serial or zero owner", async () => {
+            await expect(deviceRegistry.connect(registrar).register("", addr1.address))
+                .to.be.revertedWith("Serial cannot be empty");
+            await expect(deviceRegistry.connect(registrar).register("SERIAL001", ethers.ZeroAddress))
+                .to.be.revertedWith("Owner cannot be 0");
+        });
+
+        it("Should only allow registrar to register", async () => {
+            const REGISTRAR_ROLE = await deviceRegistry.REGISTRAR_ROLE();
+            await expect(deviceRegistry.connect(addr1).register("SERIAL001", addr1.address))
+                .to.be.revertedWith(`AccessControl: account ${addr1.address.toLowerCase()} is missing role ${REGISTRAR_ROLE}`);
+        });
+
+        it("Should revert when paused", async () => {
+            await deviceRegistry.connect(pauser).pause();
+            await expect(deviceRegistry.connect(registrar).register("SERIAL001", addr1.address))
+                .to.be.revertedWith("Pausable: paused");
+        });
+    });
+
+    describe("Transfer", () => {
+        beforeEach(async () => {
+            await deviceRegistry.connect(registrar).register("SERIAL001", addr1.address);
+        });
+
+        it("Should transfer once both parties agree", async () => {
+            await expect(deviceRegistry.connect(addr1).proposeTransfer("SERIAL001", addr2.address))
+                .to.emit(deviceRegistry, "DeviceTransferProposed")
+                .withArgs("SERIAL001", addr1.address, addr2.address);
+            expect(await deviceRegistry.pendingOwnerOf("SERIAL001")).to.equal(addr2.address);
+            expect(await deviceRegistry.ownerOf("SERIAL001")).to.equal(addr1.address);
+
+            await expect(deviceRegistry.connect(addr2).acceptTransfer("SERIAL001"))
+                .to.emit(deviceRegistry, "DeviceTransferred")
+                .withArgs("SERIAL001", addr1.address, addr2.address);
+            expect(await deviceRegistry.ownerOf("SERIAL001")).to.equal(addr2.address);
+            expect(await deviceRegistry.pendingOwnerOf("SERIAL001")).to.equal(ethers.ZeroAddress);
+        });
+
+        it("Should cancel a proposed transfer", async () => {
+            await deviceRegistry.connect(addr1).proposeTransfer("SERIAL001", addr2.address);
+            await expect(deviceRegistry.connect(addr1).cancelTransfer("SERIAL001"))
+                .to.emit(deviceRegistry, "DeviceTransferCanceled")
+                .withArgs("SERIAL001", addr1.address, addr2.address);
+
+            await expect(deviceRegistry.connect(addr2).acceptTransfer("SERIAL001"))
+                .to.be.revertedWith("No transfer found");
+        });
+
+        it("Should revert proposing from a non-owner", async () => {
+            await expect(deviceRegistry.connect(addr2).proposeTransfer("SERIAL001", addr2.address))
+                .to.be.revertedWith("Not device owner");
+        });
+
+        it("Should revert proposing to zero address or the owner", async () => {
+            await expect(deviceRegistry.connect(addr1).proposeTransfer("SERIAL001", ethers.ZeroAddress))
+                .to.be.revertedWith("Invalid new owner");
+            await expect(deviceRegistry.connect(addr1).proposeTransfer("SERIAL001", addr1.address))
+                .to.be.revertedWith("Invalid new owner");
+        });
+
+        it("Should revert accepting a transfer offered to someone else", async () => {
+            await deviceRegistry.connect(addr1).proposeTransfer("SERIAL001", addr2.address);
+            await expect(deviceRegistry.connect(owner).acceptTransfer("SERIAL001"))
+                .to.be.revertedWith("No transfer found");
+        });
+
+        it("Should revert canceling without a pending transfer", async () => {
+            await expect(deviceRegistry.connect(addr1).cancelTransfer("SERIAL001"))
+                .to.be.revertedWith("No transfer found");
+        });
+
+        it("Should let admin transfer without consent", async () => {
+            await deviceRegistry.connect(addr1).proposeTransfer("SERIAL001", owner.address);
+            await expect(deviceRegistry.adminTransfer("SERIAL001", addr2.address))
+                .to.emit(deviceRegistry, "DeviceTransferred")
+                .withArgs("SERIAL001", addr1.address, addr2.address);
+            expect(await deviceRegistry.ownerOf("SERIAL001")).to.equal(addr2.address);
+            expect(await deviceRegistry.pendingOwnerOf("SERIAL001")).to.equal(ethers.ZeroAddress);
+        });
+
+        it("Should revert admin transfer of unregistered device", async () => {
+            await expect(deviceRegistry.adminTransfer("UNKNOWN", addr2.address))
+                .to.be.revertedWith("Device not registered");
+        });
+
+        it("Should only allow admin to force a transfer", async () => {
+            const DEFAULT_ADMIN_ROLE = await deviceRegistry.DEFAULT_ADMIN_ROLE();
+            await expect(deviceRegistry.connect(addr2).adminTransfer("SERIAL001", addr2.address))
+                .to.be.revertedWith(`AccessControl: account ${addr2.address.toLowerCase()} is missing role ${DEFAULT_ADMIN_ROLE}`);
+        });
+    });
+});
@@ -0,0 +1,122 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import { buildForwardRequest, signForwardRequest } from "../utils/forwardRequest";
+import { deployModules } from "../utils/modules";
+
+describe("IG3Forwarder", () => {
+    let topsToken: any;
+    let ig3Reward: any;
+    let forwarder: any;
+    let owner: any;
+    let relayer: any;
+    let addr1: any;
+    let addr2: any;
+    let snapshotId: string;
+
+    before(async () => {
+        [owner, relayer, addr1, addr2] = await ethers.getSigners();
+
+        const topsTokenFactory = await ethers.getContractFactory("TOPS");
+        topsToken = await upgrades.deployProxy(topsTokenFactory, [owner.address, ethers.ZeroAddress, owner.address], { initializer: "initialize" });
+        await topsToken.waitForDeployment();
+
+        const stakingFactory = await ethers.getContractFactory("IG3Staking");
+        const stakingContract = await upgrades.deployProxy(
+            stakingFactory,
+            [owner.address, owner.address, owner.address, await topsToken.getAddress()],
+            { initializer: "initialize", constructorArgs: await deployModules(ethers, "IG3Staking") }
+        );
+        await stakingContract.waitForDeployment();
+
+        const ig3RewardFactory = await ethers.getContractFactory("IG3Reward");
+        ig3Reward = await upgrades.deployProxy(
+            ig3RewardFactory,
+            [owner.address, owner.address, owner.address, await topsToken.getAddress(), await stakingContract.getAddress()],
+            { initializer: "initialize", constructorArgs: await deployModules(ethers, "IG3Reward") }
+        );
+        await ig3Reward.waitForDeployment();
+
+        const forwarderFactory = await ethers.getContractFactory("IG3Forwarder");
+        forwarder = await forwarderFactory.deploy();
+        await forwarder.waitForDeployment();
+        await ig3Reward.proposeTrustedForwarder(forwarder.target);
+        await ethers.provider.send("evm_increaseTime", [Number(await ig3Reward.configDelay())]);
+        await ig3Reward.executeConfigChange(4); // ConfigParameter.TrustedForwarder
+    });
+
+    beforeEach(async () => {
+        snapshotId = await ethers.provider.send("evm_snapshot", []);
+    });
+
+    afterEach(async () => {
+        await ethers.provider.send("evm_revert", [snapshotId]);
+    });
+
+    const reinvestData = (percentage: number) => ig3Reward.interface.encodeFunctionData("setReinvestPercentage", [percentage]);
+
+    it("Should execute a signed request and increment the nonce", async () => {
+        const request = await buildForwardRequest(forwarder, addr1, ig3Reward.target, reinvestData(25));
+        const signature = await signForwardRequest(forwarder, addr1, request);
+        expect(await forwarder.verify(request, signature)).to.be.true;
+
+        await expect(forwarder.connect(relayer).execute(request, signature))
+            .to.emit(forwarder, "RequestExecuted")
+            .withArgs(addr1.address, ig3Reward.target, 0);
+
+        expect(await forwarder.getNonce(addr1.address)).to.equal(1);
+        expect(await ig3Reward.getReinvestPercentage(addr1.address)).to.equal(25);
+    });
+
+    it("Should reject a replayed request", async () => {
+        const request = await buildForwardRequest(forwarder, addr1, ig3Reward.target, reinvestData(25));
+        const signature = await signForwardRequest(forwarder, addr1, request);
+        await forwarder.connect(relayer).execute(request, signature);
+
+        expect(await forwarder.verify(request, signature)).to.be.false;
+        await expect(forwarder.connect(relayer).execute(request, signature))
+            .to.be.revertedWith("Invalid nonce");
+    });
+
+    it("Should reject an expired request", async () => {
+        const request = await buildForwardRequest(forwarder, addr1, ig3Reward.target, reinvestData(25), { validFor: 60 });
+        const signature = await signForwardRequest(forwarder, addr1, request);
+        await ethers.provider.send("evm_increaseTime", [61]);
+        await ethers.provider.send("evm_mine", []);
+
+        await expect(forwarder.connect(relayer).execute(request, signature))
+            .to.be.revertedWith("Request expired");
+    });
+
+    it("Should reject a request signed by another wallet", async () => {
+        const request = await buildForwardRequest(forwarder, addr1, ig3Reward.target, reinvestData(25));
+        const signature = await signForwardRequest(forwarder, addr2, request);
+
+        await expect(forwarder.connect(relayer).execute(request, signature))
+            .to.be.revertedWith("Invalid signature");
+    });
+
+    it("Should reject a tampered request", async () => {
+        const request = await buildForwardRequest(forwarder, addr1, ig3Reward.target, reinvestData(25));
+        const signature = await signForwardRequest(forwarder, addr1, request);
+
+        await expect(forwarder.connect(relayer).execute({ ...request, data: reinvestData(100) }, signature))
+            .to.be.revertedWith("Invalid signature");
+    });
+
+    it("Should reject a request with mismatching value", async () => {
+        const request = await buildForwardRequest(forwarder, addr1, ig3Reward.target, reinvestData(25));
+        const signature = await signForwardRequest(forwarder, addr1, request);
+
+        await expect(forwarder.connect(relayer).execute(request, signature, { value: 1 }))
+            .to.be.revertedWith("Invalid value");
+    });
+
+    it("Should keep the nonce when the relayed call reverts", async () => {
+        const request = await buildForwardRequest(forwarder, addr1, ig3Reward.target, reinvestData(101));
+        const signature = await signForwardRequest(forwarder, addr1, request);
+
+        await expect(forwarder.connect(relayer).execute(request, signature))
+            .to.be.revertedWith("Invalid percentage");
+        expect(await forwarder.getNonce(addr1.address)).to.equal(0);
+    });
+});
@@ -1,6 +1,9 @@
 import { expect } from "chai";
 import { ethers, upgrades } from "hardhat";
 import { Contract } from "ethers";
+import { buildForwardRequest, signForwardRequest } from "../utils/forwardRequest";
+import { buildRewardMerkleTree, epochRewardClaims } from "../utils/rewardMerkleTree";
+import { deployModules } from "../utils/modules";
 
 describe("IG3Reward", () => {
     let topsToken: any;
@@ -14,21 +17,33 @@ describe("IG3Reward", () => {
     let addr2: any;
     let snapshotId: string;
 
+    const ConfigParameter = { ConfigDelay: 0, TokenAddress: 1, StakingAddress: 2, RewardWallet: 3, TrustedForwarder: 4, RegistryAddress: 5 };
+
+    // Execute a proposed configuration change once the config delay is over
+    const executeConfigChange = async (parameter: number) => {
+        await ethers.provider.send("evm_increaseTime", [Number(await ig3Reward.configDelay())]);
+        return ig3Reward.executeConfigChange(parameter);
+    };
+
+    const setRewardWallet = async (wallet: string) => {
+        await ig3Reward.proposeRewardWallet(wallet);
+        await executeConfigChange(ConfigParameter.RewardWallet);
+    };
+
     before(async () => {
         [owner, pauser, upgrader, rewardWallet, addr1, addr2] = await ethers.getSigners();
 
         // Deploy TOPS token
         const topsTokenFactory = await ethers.getContractFactory("TOPS");
-        topsToken = await upgrades.deployProxy(topsTokenFactory, { initializer: "initialize" });
+        topsToken = await upgrades.deployProxy(topsTokenFactory, [owner.address, owner.address, upgrader.address], { initializer: "initialize" });
         await topsToken.waitForDeployment();
-        await topsToken.grantRole(await topsToken.MINTER_ROLE(), owner.address);
 
         // Deploy IG3Staking contract for testing
         const stakingFactory = await ethers.getContractFactory("IG3Staking");
         stakingContract = await upgrades.deployProxy(
             stakingFactory,
             [owner.address, pauser.address, upgrader.address, await topsToken.getAddress()],
-            { initializer: "initialize" }
+            { initializer: "initialize", constructorArgs: await deployModules(ethers, "IG3Staking") }
         );
         await stakingContract.waitForDeployment();
 
@@ -40,7 +55,7 @@ describe("IG3Reward", () => {
         ig3Reward = await upgrades.deployProxy(
             ig3RewardFactory,
             [owner.address, pauser.address, upgrader.address, topsTokenAddress, stakingAddress],
-            { initializer: "initialize" }
+            { initializer: "initialize", constructorArgs: await deployModules(ethers, "IG3Reward") }
         );
         await ig3Reward.waitForDeployment();
     });
@@ -60,20 +75,23 @@ describe("IG3Reward", () => {
             expect(await ig3Reward.hasRole(await ig3Reward.DEFAULT_ADMIN_ROLE(), owner.address)).to.be.true;
             expect(await ig3Reward.hasRole(await ig3Reward.PAUSER_ROLE(), pauser.address)).to.be.true;
             expect(await ig3Reward.hasRole(await ig3Reward.UPGRADER_ROLE(), upgrader.address)).to.be.true;
+            expect(await ig3Reward.configDelay()).to.equal(await ig3Reward.MIN_CONFIG_DELAY());
         });
     });
 
     describe("Configuration", () => {
         it("Should set token address", async () => {
             const newTokenAddress = addr1.address;
-            await expect(ig3Reward.setTokenAddress(newTokenAddress))
+            await ig3Reward.proposeTokenAddress(newTokenAddress);
+            await expect(executeConfigChange(ConfigParameter.TokenAddress))
                 .to.emit(ig3Reward, "TokenAddressChanged")
                 .withArgs(newTokenAddress);
             expect(await ig3Reward.tokenAddress()).to.equal(newTokenAddress);
         });
 
         it("Should set reward wallet", async () => {
-            await expect(ig3Reward.setRewardWallet(rewardWallet.address))
+            await ig3Reward.proposeRewardWallet(rewardWallet.address);
+            await expect(executeConfigChange(ConfigParameter.RewardWallet))
                 .to.emit(ig3Reward, "RewardWalletChanged")
                 .withArgs(rewardWallet.address);
             expect(await ig3Reward.getRewardWallet()).to.equal(rewardWallet.address);
@@ -81,26 +99,153 @@ describe("IG3Reward", () => {
 
         it("Should set staking address", async () => {
             const newStakingAddress = addr1.address;
-            await expect(ig3Reward.setStakingAddress(newStakingAddress))
+            await ig3Reward.proposeStakingAddress(newStakingAddress);
+            await expect(executeConfigChange(ConfigParameter.StakingAddress))
                 .to.emit(ig3Reward, "StakingAddressChanged")
                 .withArgs(newStakingAddress);
             expect(await ig3Reward.getStakingAddress()).to.equal(newStakingAddress);
         });
 
+        it("Should reject zero addresses", async () => {
+            await expect(ig3Reward.proposeTokenAddress(ethers.ZeroAddress))
+                .to.be.revertedWith("Token address cannot be 0");
+            await expect(ig3Reward.proposeStakingAddress(ethers.ZeroAddress))
+                .to.be.revertedWith("Staking address cannot be 0");
+            await expect(ig3Reward.proposeRewardWallet(ethers.ZeroAddress))
+                .to.be.revertedWith("Reward wallet cannot be 0");
+        });
+
+        it("Should reject zero addresses on initialize", async () => {
+            const ig3RewardFactory = await ethers.getContractFactory("IG3Reward");
+            await expect(upgrades.deployProxy(
+                ig3RewardFactory,
+                [owner.address, pauser.address, upgrader.address, ethers.ZeroAddress, stakingContract.target],
+                { initializer: "initialize", constructorArgs: await deployModules(ethers, "IG3Reward") }
+            )).to.be.revertedWith("Token address cannot be 0");
+            await expect(upgrades.deployProxy(
+                ig3RewardFactory,
+                [owner.address, pauser.address, upgrader.address, topsToken.target, ethers.ZeroAddress],
+                { initializer: "initialize", constructorArgs: await deployModules(ethers, "IG3Reward") }
+            )).to.be.revertedWith("Staking address cannot be 0");
+        });
+
+        it("Should reject modules without code", async () => {
+            const ig3RewardFactory = await ethers.getContractFactory("IG3Reward");
+            await expect(ig3RewardFactory.deploy(addr1.address))
+                .to.be.revertedWith("Module has no code");
+        });
+
         it("Should only allow admin to set config", async () => {
             const DEFAULT_ADMIN_ROLE = await ig3Reward.DEFAULT_ADMIN_ROLE();
-            await expect(ig3Reward.connect(addr1).setTokenAddress(addr2.address))
+            await expect(ig3Reward.connect(addr1).proposeTokenAddress(addr2.address))
                 .to.be.revertedWith(`AccessControl: account ${addr1.address.toLowerCase()} is missing role ${DEFAULT_ADMIN_ROLE}`);
-            await expect(ig3Reward.connect(addr1).setRewardWallet(rewardWallet.address))
+            await expect(ig3Reward.connect(addr1).proposeRewardWallet(rewardWallet.address))
                 .to.be.revertedWith(`AccessControl: account ${addr1.address.toLowerCase()} is missing role ${DEFAULT_ADMIN_ROLE}`);
-            await expect(ig3Reward.connect(addr1).setStakingAddress(addr2.address))
+            await expect(ig3Reward.connect(addr1).proposeStakingAddress(addr2.address))
+                .to.be.revertedWith(`AccessControl: account ${addr1.address.toLowerCase()} is missing role ${DEFAULT_ADMIN_ROLE}`);
+            await ig3Reward.proposeRewardWallet(rewardWallet.address);
+            await expect(ig3Reward.connect(addr1).executeConfigChange(ConfigParameter.RewardWallet))
+                .to.be.revertedWith(`AccessControl: account ${addr1.address.toLowerCase()} is missing role ${DEFAULT_ADMIN_ROLE}`);
+            await expect(ig3Reward.connect(addr1).cancelConfigChange(ConfigParameter.RewardWallet))
                 .to.be.revertedWith(`AccessControl: account ${addr1.address.toLowerCase()} is missing role ${DEFAULT_ADMIN_ROLE}`);
         });
     });
 
+    describe("Timelocked Configuration", () => {
+        const delay = 2 * 24 * 60 * 60;
+
+        beforeEach(async () => {
+            await ig3Reward.proposeConfigDelay(delay);
+            await executeConfigChange(ConfigParameter.ConfigDelay);
+        });
+
+        it("Should set the config delay", async () => {
+            expect(await ig3Reward.configDelay()).to.equal(delay);
+            await expect(ig3Reward.proposeConfigDelay(31 * 24 * 60 * 60))
+                .to.be.revertedWith("Invalid delay");
+            await expect(ig3Reward.proposeConfigDelay(24 * 60 * 60 - 1))
+                .to.be.revertedWith("Invalid delay");
+        });
+
+        it("Should only execute a change once its delay is over", async () => {
+            const tx = await ig3Reward.proposeRewardWallet(rewardWallet.address);
+            const { timestamp } = (await ethers.provider.getBlock(tx.blockNumber))!;
+            await expect(tx)
+                .to.emit(ig3Reward, "ConfigChangeProposed")
+                .withArgs(ConfigParameter.RewardWallet, BigInt(rewardWallet.address), timestamp + delay);
+
+            const pending = await ig3Reward.getPendingConfigChange(ConfigParameter.RewardWallet);
+            expect(pending.value).to.equal(BigInt(rewardWallet.address));
+            expect(pending.executableAt).to.equal(timestamp + delay);
+
+            await ethers.provider.send("evm_setNextBlockTimestamp", [timestamp + delay - 1]);
+            await expect(ig3Reward.executeConfigChange(ConfigParameter.RewardWallet))
+                .to.be.revertedWith("Change not ready");
+
+            await ethers.provider.send("evm_setNextBlockTimestamp", [timestamp + delay]);
+            await expect(ig3Reward.executeConfigChange(ConfigParameter.RewardWallet))
+                .to.emit(ig3Reward, "RewardWalletChanged")
+                .withArgs(rewardWallet.address);
+            expect(await ig3Reward.getRewardWallet()).to.equal(rewardWallet.address);
+            expect((await ig3Reward.getPendingConfigChange(ConfigParameter.RewardWallet)).executableAt).to.equal(0);
+        });
+
+        it("Should cancel a pending change", async () => {
+            const stakingAddress = await ig3Reward.stakingAddress();
+            await ig3Reward.proposeStakingAddress(addr1.address);
+
+            await expect(ig3Reward.cancelConfigChange(ConfigParameter.StakingAddress))
+                .to.emit(ig3Reward, "ConfigChangeCanceled")
+                .withArgs(ConfigParameter.StakingAddress, BigInt(addr1.address));
+
+            await ethers.provider.send("evm_increaseTime", [delay]);
+            await expect(ig3Reward.executeConfigChange(ConfigParameter.StakingAddress))
+                .to.be.revertedWith("No pending change");
+            expect(await ig3Reward.stakingAddress()).to.equal(stakingAddress);
+        });
+
+        it("Should restart the delay when a change is proposed again", async () => {
+            await ig3Reward.proposeTokenAddress(addr1.address);
+            await ethers.provider.send("evm_increaseTime", [delay - 60]);
+            await ig3Reward.proposeTokenAddress(addr2.address);
+            await ethers.provider.send("evm_increaseTime", [60]);
+
+            await expect(ig3Reward.executeConfigChange(ConfigParameter.TokenAddress))
+                .to.be.revertedWith("Change not ready");
+        });
+
+        it("Should revert cancelling without a pending change", async () => {
+            await expect(ig3Reward.cancelConfigChange(ConfigParameter.TokenAddress))
+                .to.be.revertedWith("No pending change");
+        });
+
+        it("Should delay trusted forwarder and registry changes", async () => {
+            const tx = await ig3Reward.proposeTrustedForwarder(addr2.address);
+            const { timestamp } = (await ethers.provider.getBlock(tx.blockNumber))!;
+            await expect(tx)
+                .to.emit(ig3Reward, "ConfigChangeProposed")
+                .withArgs(ConfigParameter.TrustedForwarder, BigInt(addr2.address), timestamp + delay);
+            await ig3Reward.proposeRegistryAddress(addr1.address);
+
+            expect(await ig3Reward.isTrustedForwarder(addr2.address)).to.be.false;
+            await expect(ig3Reward.executeConfigChange(ConfigParameter.TrustedForwarder))
+                .to.be.revertedWith("Change not ready");
+            await expect(ig3Reward.executeConfigChange(ConfigParameter.RegistryAddress))
+                .to.be.revertedWith("Change not ready");
+
+            await ethers.provider.send("evm_increaseTime", [delay]);
+            await ig3Reward.executeConfigChange(ConfigParameter.TrustedForwarder);
+            await expect(ig3Reward.executeConfigChange(ConfigParameter.RegistryAddress))
+                .to.emit(ig3Reward, "RegistryAddressChanged")
+                .withArgs(addr1.address);
+            expect(await ig3Reward.isTrustedForwarder(addr2.address)).to.be.true;
+            expect(await ig3Reward.registryAddress()).to.equal(addr1.address);
+        });
+    });
+
     describe("Reinvestment Logic", () => {
         beforeEach(async () => {
-            await ig3Reward.setRewardWallet(rewardWallet.address);
+            await setRewardWallet(rewardWallet.address);
         });
 
         it("Should set reinvest percentage", async () => {
@@ -124,7 +269,7 @@ describe("IG3Reward", () => {
 
     describe("Reward Logic", () => {
         beforeEach(async () => {
-            await ig3Reward.setRewardWallet(rewardWallet.address);
+            await setRewardWallet(rewardWallet.address);
             // Mint tokens to reward wallet
             await topsToken.mint(rewardWallet.address, ethers.parseEther("10000"));
             // Approve ig3Reward to spend tokens
@@ -166,6 +311,48 @@ describe("IG3Reward", () => {
             expect(await stakingContract.getBalance(addr1.address, "SERIAL001")).to.equal(expectedReinvestAmount);
         });
 
+        it("Should credit a reinvest share that rounds down to 0", async () => {
+            await ig3Reward.connect(addr1).setReinvestPercentage(30);
+
+            await expect(ig3Reward.addRewards([
+                { wallet: addr1.address, serial: "SERIAL001", value: 3n },
+                { wallet: addr1.address, serial: "SERIAL002", value: ethers.parseEther("100") }
+            ]))
+                .to.emit(ig3Reward, "RewardAdded")
+                .withArgs(addr1.address, "SERIAL001", 3n, 0);
+
+            expect(await ig3Reward.getBalance(addr1.address, "SERIAL001")).to.equal(3n);
+            expect(await stakingContract.getBalance(addr1.address, "SERIAL001")).to.equal(0);
+            expect(await stakingContract.getBalance(addr1.address, "SERIAL002")).to.equal(ethers.parseEther("30"));
+        });
+
+        it("Should move reinvested amounts to staking in a single transfer", async () => {
+            await ig3Reward.connect(addr1).setReinvestPercentage(30);
+            await ig3Reward.connect(addr2).setReinvestPercentage(50);
+
+            const tx = await ig3Reward.addRewards([
+                { wallet: addr1.address, serial: "SERIAL001", value: ethers.parseEther("100") },
+                { wallet: owner.address, serial: "SERIAL009", value: ethers.parseEther("100") },
+                { wallet: addr2.address, serial: "SERIAL003", value: ethers.parseEther("200") },
+                { wallet: addr1.address, serial: "SERIAL002", value: ethers.parseEther("10") }
+            ]);
+            const receipt = await tx.wait();
+
+            const transfers = receipt.logs
+                .filter((log: any) => log.address === topsToken.target)
+                .map((log: any) => topsToken.interface.parseLog(log))
+                .filter((event: any) => event.name === "Transfer");
+            expect(transfers.length).to.equal(1);
+            expect(transfers[0].args.to).to.equal(stakingContract.target);
+            expect(transfers[0].args.value).to.equal(ethers.parseEther("133"));
+
+            expect(await stakingContract.getBalance(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("30"));
+            expect(await stakingContract.getBalance(addr1.address, "SERIAL002")).to.equal(ethers.parseEther("3"));
+            expect(await stakingContract.getBalance(addr2.address, "SERIAL003")).to.equal(ethers.parseEther("100"));
+            expect(await stakingContract.getBalance(owner.address, "SERIAL009")).to.equal(0);
+            expect(await ig3Reward.getBalance(owner.address, "SERIAL009")).to.equal(ethers.parseEther("100"));
+        });
+
         it("Should accumulate rewards for the same device", async () => {
             const rewards = [ { wallet: addr1.address, serial: "SERIAL001", value: ethers.parseEther("100") } ];
             await ig3Reward.addRewards(rewards);
@@ -195,7 +382,7 @@ describe("IG3Reward", () => {
 
     describe("Withdraw Logic", () => {
         beforeEach(async () => {
-            await ig3Reward.setRewardWallet(rewardWallet.address);
+            await setRewardWallet(rewardWallet.address);
             // Mint tokens to reward wallet
             await topsToken.mint(rewardWallet.address, ethers.parseEther("10000"));
             // Approve ig3Reward to spend tokens
@@ -257,6 +444,876 @@ describe("IG3Reward", () => {
         });
     });
 
+    describe("Device Reinvestment", () => {
+        beforeEach(async () => {
+            await setRewardWallet(rewardWallet.address);
+            await topsToken.mint(rewardWallet.address, ethers.parseEther("10000"));
+            await topsToken.connect(rewardWallet).approve(ig3Reward.target, ethers.parseEther("10000"));
+            await stakingContract.grantRole(await stakingContract.REINVEST_ROLE(), ig3Reward.target);
+        });
+
+        it("Should set a device percentage and emit event", async () => {
+            await ig3Reward.connect(addr1).setReinvestPercentage(20);
+            await expect(ig3Reward.connect(addr1).setDeviceReinvestPercentage("SERIAL001", 60))
+                .to.emit(ig3Reward, "DeviceReinvestPercentageChanged")
+                .withArgs(addr1.address, "SERIAL001", 60);
+
+            expect(await ig3Reward.getDeviceReinvestPercentage(addr1.address, "SERIAL001")).to.equal(60);
+            expect(await ig3Reward.getDeviceReinvestPercentage(addr1.address, "SERIAL002")).to.equal(20);
+        });
+
+        it("Should apply device percentages over the wallet default", async () => {
+            await ig3Reward.connect(addr1).setReinvestPercentage(20);
+            await ig3Reward.connect(addr1).setDeviceReinvestPercentage("SERIAL001", 0);
+            await ig3Reward.connect(addr1).setDeviceReinvestPercentage("SERIAL002", 100);
+
+            await ig3Reward.addRewards([
+                { wallet: addr1.address, serial: "SERIAL001", value: ethers.parseEther("100") },
+                { wallet: addr1.address, serial: "SERIAL002", value: ethers.parseEther("100") },
+                { wallet: addr1.address, serial: "SERIAL003", value: ethers.parseEther("100") }
+            ]);
+
+            expect(await ig3Reward.getBalance(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("100"));
+            expect(await ig3Reward.getBalance(addr1.address, "SERIAL002")).to.equal(0);
+            expect(await ig3Reward.getBalance(addr1.address, "SERIAL003")).to.equal(ethers.parseEther("80"));
+            expect(await stakingContract.getBalance(addr1.address, "SERIAL002")).to.equal(ethers.parseEther("100"));
+            expect(await stakingContract.getBalance(addr1.address, "SERIAL003")).to.equal(ethers.parseEther("20"));
+        });
+
+        it("Should fall back to the wallet percentage once cleared", async () => {
+            await ig3Reward.connect(addr1).setReinvestPercentage(20);
+            await ig3Reward.connect(addr1).setDeviceReinvestPercentage("SERIAL001", 60);
+            await expect(ig3Reward.connect(addr1).clearDeviceReinvestPercentage("SERIAL001"))
+                .to.emit(ig3Reward, "DeviceReinvestPercentageCleared")
+                .withArgs(addr1.address, "SERIAL001");
+
+            expect(await ig3Reward.getDeviceReinvestPercentage(addr1.address, "SERIAL001")).to.equal(20);
+        });
+
+        it("Should reject invalid device percentage", async () => {
+            await expect(ig3Reward.connect(addr1).setDeviceReinvestPercentage("SERIAL001", 101))
+                .to.be.revertedWith("Invalid percentage");
+        });
+
+        it("Should route reinvestment into the target device", async () => {
+            await ig3Reward.connect(addr1).setReinvestPercentage(50);
+            await expect(ig3Reward.connect(addr1).setReinvestTarget("SERIAL001", "NEWDEVICE"))
+                .to.emit(ig3Reward, "ReinvestTargetChanged")
+                .withArgs(addr1.address, "SERIAL001", "NEWDEVICE");
+            expect(await ig3Reward.getReinvestTarget(addr1.address, "SERIAL001")).to.equal("NEWDEVICE");
+            expect(await ig3Reward.getReinvestTarget(addr1.address, "SERIAL002")).to.equal("SERIAL002");
+
+            await expect(ig3Reward.addRewards([{ wallet: addr1.address, serial: "SERIAL001", value: ethers.parseEther("100") }]))
+                .to.emit(stakingContract, "Deposited")
+                .withArgs(addr1.address, "NEWDEVICE", ethers.parseEther("50"));
+
+            expect(await ig3Reward.getBalance(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("50"));
+            expect(await stakingContract.getBalance(addr1.address, "SERIAL001")).to.equal(0);
+            expect(await stakingContract.getBalance(addr1.address, "NEWDEVICE")).to.equal(ethers.parseEther("50"));
+        });
+
+        it("Should reset the target with an empty serial", async () => {
+            await ig3Reward.connect(addr1).setReinvestTarget("SERIAL001", "NEWDEVICE");
+            await ig3Reward.connect(addr1).setReinvestTarget("SERIAL001", "");
+            expect(await ig3Reward.getReinvestTarget(addr1.address, "SERIAL001")).to.equal("SERIAL001");
+        });
+
+        it("Should require owning the target device when a registry is set", async () => {
+            const registryFactory = await ethers.getContractFactory("IG3DeviceRegistry");
+            const deviceRegistry: any = await upgrades.deployProxy(
+                registryFactory,
+                [owner.address, pauser.address, upgrader.address, owner.address],
+                { initializer: "initialize" }
+            );
+            await deviceRegistry.register("NEWDEVICE", addr2.address);
+            await ig3Reward.proposeRegistryAddress(await deviceRegistry.getAddress());
+            await executeConfigChange(ConfigParameter.RegistryAddress);
+
+            await expect(ig3Reward.connect(addr1).setReinvestTarget("SERIAL001", "NEWDEVICE"))
+                .to.be.revertedWith("Not device owner");
+        });
+
+        it("Should not work when paused", async () => {
+            await ig3Reward.connect(pauser).pause();
+            await expect(ig3Reward.connect(addr1).setDeviceReinvestPercentage("SERIAL001", 50))
+                .to.be.revertedWith("Pausable: paused");
+            await expect(ig3Reward.connect(addr1).setReinvestTarget("SERIAL001", "NEWDEVICE"))
+                .to.be.revertedWith("Pausable: paused");
+        });
+    });
+
+    describe("Epoch Rewards", () => {
+        let tree: any;
+
+        beforeEach(async () => {
+            await setRewardWallet(rewardWallet.address);
+            await topsToken.mint(rewardWallet.address, ethers.parseEther("10000"));
+            await topsToken.connect(rewardWallet).approve(ig3Reward.target, ethers.parseEther("10000"));
+            await stakingContract.grantRole(await stakingContract.REINVEST_ROLE(), ig3Reward.target);
+
+            tree = buildRewardMerkleTree([
+                { wallet: addr1.address, serial: "SERIAL001", value: ethers.parseEther("100") },
+                { wallet: addr1.address, serial: "SERIAL002", value: ethers.parseEther("200") },
+                { wallet: addr2.address, serial: "SERIAL003", value: ethers.parseEther("300") }
+            ]);
+        });
+
+        it("Should post an epoch root and emit event", async () => {
+            await expect(ig3Reward.postRewardEpoch(tree.root, tree.total))
+                .to.emit(ig3Reward, "RewardEpochPosted")
+                .withArgs(1, tree.root, ethers.parseEther("600"));
+
+            const epoch = await ig3Reward.rewardEpochs(1);
+            expect(epoch.root).to.equal(tree.root);
+            expect(epoch.total).to.equal(ethers.parseEther("600"));
+            expect(await ig3Reward.epochCount()).to.equal(1);
+        });
+
+        it("Should only allow admin to post epochs", async () => {
+            const DEFAULT_ADMIN_ROLE = await ig3Reward.DEFAULT_ADMIN_ROLE();
+            await expect(ig3Reward.connect(addr1).postRewardEpoch(tree.root, tree.total))
+                .to.be.revertedWith(`AccessControl: account ${addr1.address.toLowerCase()} is missing role ${DEFAULT_ADMIN_ROLE}`);
+        });
+
+        it("Should claim own device rewards with proofs", async () => {
+            await ig3Reward.postRewardEpoch(tree.root, tree.total);
+
+            await expect(ig3Reward.connect(addr1).claimEpochRewards(1, epochRewardClaims(tree, addr1.address)))
+                .to.emit(ig3Reward, "EpochRewardClaimed")
+                .withArgs(1, addr1.address, "SERIAL002", ethers.parseEther("200"), 0);
+
+            expect(await topsToken.balanceOf(addr1.address)).to.equal(ethers.parseEther("300"));
+            expect(await ig3Reward.isEpochRewardClaimed(1, addr1.address, "SERIAL001", ethers.parseEther("100"))).to.be.true;
+            expect(await ig3Reward.isEpochRewardClaimed(1, addr2.address, "SERIAL003", ethers.parseEther("300"))).to.be.false;
+            expect((await ig3Reward.rewardEpochs(1)).claimed).to.equal(ethers.parseEther("300"));
+        });
+
+        it("Should reinvest the configured share of claimed rewards", async () => {
+            await ig3Reward.connect(addr2).setReinvestPercentage(40);
+            await ig3Reward.postRewardEpoch(tree.root, tree.total);
+
+            await expect(ig3Reward.connect(addr2).claimEpochRewards(1, epochRewardClaims(tree, addr2.address)))
+                .to.emit(ig3Reward, "EpochRewardClaimed")
+                .withArgs(1, addr2.address, "SERIAL003", ethers.parseEther("300"), ethers.parseEther("120"));
+
+            expect(await topsToken.balanceOf(addr2.address)).to.equal(ethers.parseEther("180"));
+            expect(await stakingContract.getBalance(addr2.address, "SERIAL003")).to.equal(ethers.parseEther("120"));
+        });
+
+        it("Should pay out a reinvest share that rounds down to 0", async () => {
+            await ig3Reward.connect(addr1).setReinvestPercentage(40);
+            const smallTree = buildRewardMerkleTree([
+                { wallet: addr1.address, serial: "SERIAL001", value: 1n },
+                { wallet: addr1.address, serial: "SERIAL002", value: ethers.parseEther("10") }
+            ]);
+            await ig3Reward.postRewardEpoch(smallTree.root, smallTree.total);
+
+            await expect(ig3Reward.connect(addr1).claimEpochRewards(1, epochRewardClaims(smallTree, addr1.address)))
+                .to.emit(ig3Reward, "EpochRewardClaimed")
+                .withArgs(1, addr1.address, "SERIAL001", 1n, 0);
+
+            expect(await topsToken.balanceOf(addr1.address)).to.equal(ethers.parseEther("6") + 1n);
+            expect(await stakingContract.getBalance(addr1.address, "SERIAL001")).to.equal(0);
+            expect(await stakingContract.getBalance(addr1.address, "SERIAL002")).to.equal(ethers.parseEther("4"));
+        });
+
+        it("Should verify every proof of an uneven tree", async () => {
+            const rewards = [];
+            for (let i = 0; i < 7; i++) {
+                rewards.push({ wallet: i % 2 === 0 ? addr1.address : addr2.address, serial: `DEVICE${i}`, value: ethers.parseEther("1") });
+            }
+            const unevenTree = buildRewardMerkleTree(rewards);
+            await ig3Reward.postRewardEpoch(unevenTree.root, unevenTree.total);
+
+            await ig3Reward.connect(addr1).claimEpochRewards(1, epochRewardClaims(unevenTree, addr1.address));
+            await ig3Reward.connect(addr2).claimEpochRewards(1, epochRewardClaims(unevenTree, addr2.address));
+
+            expect(await topsToken.balanceOf(addr1.address)).to.equal(ethers.parseEther("4"));
+            expect(await topsToken.balanceOf(addr2.address)).to.equal(ethers.parseEther("3"));
+            expect((await ig3Reward.rewardEpochs(1)).claimed).to.equal(unevenTree.total);
+        });
+
+        it("Should reject double claims within an epoch", async () => {
+            await ig3Reward.postRewardEpoch(tree.root, tree.total);
+            const claims = epochRewardClaims(tree, addr1.address);
+            await ig3Reward.connect(addr1).claimEpochRewards(1, [claims[0]]);
+
+            await expect(ig3Reward.connect(addr1).claimEpochRewards(1, claims))
+                .to.be.revertedWith("Already claimed");
+            await expect(ig3Reward.connect(addr1).claimEpochRewards(1, [claims[1], claims[1]]))
+                .to.be.revertedWith("Already claimed");
+        });
+
+        it("Should allow the same reward in another epoch", async () => {
+            await ig3Reward.postRewardEpoch(tree.root, tree.total);
+            await ig3Reward.postRewardEpoch(tree.root, tree.total);
+            const claims = epochRewardClaims(tree, addr1.address);
+
+            await ig3Reward.connect(addr1).claimEpochRewards(1, claims);
+            await ig3Reward.connect(addr1).claimEpochRewards(2, claims);
+
+            expect(await topsToken.balanceOf(addr1.address)).to.equal(ethers.parseEther("600"));
+        });
+
+        it("Should reject claims of another wallet's rewards", async () => {
+            await ig3Reward.postRewardEpoch(tree.root, tree.total);
+            await expect(ig3Reward.connect(addr2).claimEpochRewards(1, epochRewardClaims(tree, addr1.address)))
+                .to.be.revertedWith("Invalid proof");
+        });
+
+        it("Should reject claims with a tampered value", async () => {
+            await ig3Reward.postRewardEpoch(tree.root, tree.total);
+            const [claim] = epochRewardClaims(tree, addr1.address);
+            await expect(ig3Reward.connect(addr1).claimEpochRewards(1, [{ ...claim, value: claim.value * 2n }]))
+                .to.be.revertedWith("Invalid proof");
+        });
+
+        it("Should reject claims above the epoch total", async () => {
+            await ig3Reward.postRewardEpoch(tree.root, ethers.parseEther("250"));
+            await expect(ig3Reward.connect(addr1).claimEpochRewards(1, epochRewardClaims(tree, addr1.address)))
+                .to.be.revertedWith("Epoch total exceeded");
+        });
+
+        it("Should reject claims for unknown epochs", async () => {
+            await expect(ig3Reward.connect(addr1).claimEpochRewards(1, epochRewardClaims(tree, addr1.address)))
+                .to.be.revertedWith("Epoch not found");
+        });
+
+        it("Should not work when paused", async () => {
+            await ig3Reward.postRewardEpoch(tree.root, tree.total);
+            await ig3Reward.connect(pauser).pause();
+            await expect(ig3Reward.connect(addr1).claimEpochRewards(1, epochRewardClaims(tree, addr1.address)))
+                .to.be.revertedWith("Pausable: paused");
+        });
+    });
+
+    describe("Solvency", () => {
+        beforeEach(async () => {
+            await setRewardWallet(rewardWallet.address);
+            await topsToken.mint(rewardWallet.address, ethers.parseEther("1000"));
+            await topsToken.connect(rewardWallet).approve(ig3Reward.target, ethers.parseEther("800"));
+            await stakingContract.grantRole(await stakingContract.REINVEST_ROLE(), ig3Reward.target);
+        });
+
+        it("Should report liabilities against reward wallet balance and allowance", async () => {
+            await ig3Reward.addRewards([{ wallet: addr1.address, serial: "SERIAL001", value: ethers.parseEther("400") }]);
+            const tree = buildRewardMerkleTree([{ wallet: addr2.address, serial: "SERIAL002", value: ethers.parseEther("100") }]);
+            await ig3Reward.postRewardEpoch(tree.root, tree.total);
+
+            const coverage = await ig3Reward.getRewardCoverage();
+            expect(coverage.liabilities).to.equal(ethers.parseEther("500"));
+            expect(coverage.balance).to.equal(ethers.parseEther("1000"));
+            expect(coverage.allowance).to.equal(ethers.parseEther("800"));
+            expect(coverage.coverage).to.equal(16000); // 800 / 500
+            expect(await ig3Reward.getTotalLiabilities()).to.equal(ethers.parseEther("500"));
+        });
+
+        it("Should decrease liabilities as rewards are claimed", async () => {
+            await ig3Reward.addRewards([{ wallet: addr1.address, serial: "SERIAL001", value: ethers.parseEther("400") }]);
+            const tree = buildRewardMerkleTree([{ wallet: addr2.address, serial: "SERIAL002", value: ethers.parseEther("100") }]);
+            await ig3Reward.postRewardEpoch(tree.root, tree.total);
+
+            await ig3Reward.connect(addr1).withdraw(["SERIAL001"]);
+            await ig3Reward.connect(addr2).claimEpochRewards(1, epochRewardClaims(tree, addr2.address));
+
+            expect(await ig3Reward.getTotalLiabilities()).to.equal(0);
+            expect(await ig3Reward.totalEpochOutstanding()).to.equal(0);
+        });
+
+        it("Should not count reinvested shares as liabilities", async () => {
+            await ig3Reward.connect(addr1).setReinvestPercentage(25);
+            await ig3Reward.addRewards([{ wallet: addr1.address, serial: "SERIAL001", value: ethers.parseEther("400") }]);
+
+            const coverage = await ig3Reward.getRewardCoverage();
+            expect(coverage.liabilities).to.equal(ethers.parseEther("300"));
+            expect(coverage.allowance).to.equal(ethers.parseEther("700"));
+        });
+
+        it("Should refuse batches exceeding the reward funds when enabled", async () => {
+            await expect(ig3Reward.setSolvencyCheck(true))
+                .to.emit(ig3Reward, "SolvencyCheckChanged")
+                .withArgs(true);
+
+            await ig3Reward.addRewards([{ wallet: addr1.address, serial: "SERIAL001", value: ethers.parseEther("800") }]);
+            await expect(ig3Reward.addRewards([{ wallet: addr1.address, serial: "SERIAL002", value: 1 }]))
+                .to.be.revertedWith("Insufficient reward funds");
+
+            const tree = buildRewardMerkleTree([{ wallet: addr2.address, serial: "SERIAL002", value: 1n }]);
+            await expect(ig3Reward.postRewardEpoch(tree.root, tree.total))
+                .to.be.revertedWith("Insufficient reward funds");
+        });
+
+        it("Should accept batches exceeding the reward funds when disabled", async () => {
+            await ig3Reward.addRewards([{ wallet: addr1.address, serial: "SERIAL001", value: ethers.parseEther("2000") }]);
+            expect((await ig3Reward.getRewardCoverage()).coverage).to.equal(4000);
+        });
+
+        it("Should emit an event when coverage falls below the threshold", async () => {
+            await expect(ig3Reward.setCoverageThreshold(12000))
+                .to.emit(ig3Reward, "CoverageThresholdChanged")
+                .withArgs(12000);
+
+            await expect(ig3Reward.addRewards([{ wallet: addr1.address, serial: "SERIAL001", value: ethers.parseEther("600") }]))
+                .to.not.emit(ig3Reward, "RewardCoverageLow");
+            await expect(ig3Reward.addRewards([{ wallet: addr1.address, serial: "SERIAL001", value: ethers.parseEther("200") }]))
+                .to.emit(ig3Reward, "RewardCoverageLow")
+                .withArgs(ethers.parseEther("800"), ethers.parseEther("800"), 10000);
+        });
+
+        it("Should only allow admin to configure solvency", async () => {
+            const DEFAULT_ADMIN_ROLE = await ig3Reward.DEFAULT_ADMIN_ROLE();
+            await expect(ig3Reward.connect(addr1).setSolvencyCheck(true))
+                .to.be.revertedWith(`AccessControl: account ${addr1.address.toLowerCase()} is missing role ${DEFAULT_ADMIN_ROLE}`);
+            await expect(ig3Reward.connect(addr1).setCoverageThreshold(10000))
+                .to.be.revertedWith(`AccessControl: account ${addr1.address.toLowerCase()} is missing role ${DEFAULT_ADMIN_ROLE}`);
+        });
+    });
+
+    describe("Reward Vault", () => {
+        beforeEach(async () => {
+            await setRewardWallet(rewardWallet.address);
+            await topsToken.mint(rewardWallet.address, ethers.parseEther("1000"));
+            await topsToken.connect(rewardWallet).approve(ig3Reward.target, ethers.parseEther("1000"));
+            await stakingContract.grantRole(await stakingContract.REINVEST_ROLE(), ig3Reward.target);
+        });
+
+        it("Should migrate outstanding liabilities from the reward wallet", async () => {
+            await ig3Reward.addRewards([{ wallet: addr1.address, serial: "SERIAL001", value: ethers.parseEther("300") }]);
+
+            await expect(ig3Reward.migrateToVault(ethers.parseEther("299")))
+                .to.be.revertedWith("Amount below liabilities");
+            await expect(ig3Reward.migrateToVault(ethers.parseEther("400")))
+                .to.emit(ig3Reward, "VaultMigrated")
+                .withArgs(ethers.parseEther("300"), ethers.parseEther("400"));
+
+            expect(await ig3Reward.vaultEnabled()).to.be.true;
+            expect(await ig3Reward.vaultFunds()).to.equal(ethers.parseEther("400"));
+            expect(await topsToken.balanceOf(ig3Reward.target)).to.equal(ethers.parseEther("400"));
+            await expect(ig3Reward.migrateToVault(0)).to.be.revertedWith("Vault already enabled");
+        });
+
+        it("Should pay rewards from the vault without the reward wallet allowance", async () => {
+            await ig3Reward.addRewards([{ wallet: addr1.address, serial: "SERIAL001", value: ethers.parseEther("300") }]);
+            await ig3Reward.migrateToVault(ethers.parseEther("300"));
+            await topsToken.connect(rewardWallet).approve(ig3Reward.target, 0);
+
+            await ig3Reward.connect(addr1).withdraw(["SERIAL001"]);
+            expect(await topsToken.balanceOf(addr1.address)).to.equal(ethers.parseEther("300"));
+            expect(await ig3Reward.vaultFunds()).to.equal(0);
+        });
+
+        it("Should fund the vault", async () => {
+            await expect(ig3Reward.connect(rewardWallet).fund(ethers.parseEther("100")))
+                .to.be.revertedWith("Vault not enabled");
+            await ig3Reward.migrateToVault(0);
+
+            await expect(ig3Reward.connect(rewardWallet).fund(0))
+                .to.be.revertedWith("Amount must be greater than 0");
+            await expect(ig3Reward.connect(rewardWallet).fund(ethers.parseEther("100")))
+                .to.emit(ig3Reward, "RewardsFunded")
+                .withArgs(rewardWallet.address, ethers.parseEther("100"));
+
+            expect(await ig3Reward.vaultFunds()).to.equal(ethers.parseEther("100"));
+            expect(await topsToken.balanceOf(ig3Reward.target)).to.equal(ethers.parseEther("100"));
+        });
+
+        it("Should keep rewards backed 1:1 by vault funds", async () => {
+            await ig3Reward.migrateToVault(0);
+            await ig3Reward.connect(rewardWallet).fund(ethers.parseEther("100"));
+
+            await expect(ig3Reward.addRewards([{ wallet: addr1.address, serial: "SERIAL001", value: ethers.parseEther("101") }]))
+                .to.be.revertedWith("Insufficient vault funds");
+            const tree = buildRewardMerkleTree([{ wallet: addr2.address, serial: "SERIAL002", value: ethers.parseEther("101") }]);
+            await expect(ig3Reward.postRewardEpoch(tree.root, tree.total))
+                .to.be.revertedWith("Insufficient vault funds");
+
+            await ig3Reward.addRewards([{ wallet: addr1.address, serial: "SERIAL001", value: ethers.parseEther("100") }]);
+            const coverage = await ig3Reward.getRewardCoverage();
+            expect(coverage.liabilities).to.equal(ethers.parseEther("100"));
+            expect(coverage.balance).to.equal(ethers.parseEther("100"));
+            expect(coverage.coverage).to.equal(10000);
+        });
+
+        it("Should reinvest and claim epoch rewards from the vault", async () => {
+            await ig3Reward.migrateToVault(0);
+            await ig3Reward.connect(rewardWallet).fund(ethers.parseEther("500"));
+            await ig3Reward.connect(addr1).setReinvestPercentage(50);
+
+            await ig3Reward.addRewards([{ wallet: addr1.address, serial: "SERIAL001", value: ethers.parseEther("200") }]);
+            expect(await stakingContract.getBalance(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("100"));
+            expect(await ig3Reward.vaultFunds()).to.equal(ethers.parseEther("400"));
+
+            const tree = buildRewardMerkleTree([{ wallet: addr2.address, serial: "SERIAL002", value: ethers.parseEther("150") }]);
+            await ig3Reward.postRewardEpoch(tree.root, tree.total);
+            await ig3Reward.connect(addr2).claimEpochRewards(1, epochRewardClaims(tree, addr2.address));
+
+            expect(await topsToken.balanceOf(addr2.address)).to.equal(ethers.parseEther("150"));
+            expect(await ig3Reward.vaultFunds()).to.equal(ethers.parseEther("250"));
+            expect(await topsToken.balanceOf(ig3Reward.target)).to.equal(ethers.parseEther("250"));
+        });
+
+        it("Should only withdraw surplus vault funds", async () => {
+            await expect(ig3Reward.withdrawVaultSurplus(owner.address, 1))
+                .to.be.revertedWith("Vault not enabled");
+            await ig3Reward.migrateToVault(0);
+            await ig3Reward.connect(rewardWallet).fund(ethers.parseEther("500"));
+            await ig3Reward.addRewards([{ wallet: addr1.address, serial: "SERIAL001", value: ethers.parseEther("300") }]);
+
+            await expect(ig3Reward.withdrawVaultSurplus(owner.address, ethers.parseEther("201")))
+                .to.be.revertedWith("Insufficient surplus");
+            await expect(ig3Reward.withdrawVaultSurplus(ethers.ZeroAddress, 1))
+                .to.be.revertedWith("Receiver cannot be 0");
+            await expect(ig3Reward.withdrawVaultSurplus(owner.address, ethers.parseEther("200")))
+                .to.emit(ig3Reward, "VaultSurplusWithdrawn")
+                .withArgs(owner.address, ethers.parseEther("200"));
+
+            expect(await topsToken.balanceOf(owner.address)).to.equal(ethers.parseEther("200"));
+            expect(await ig3Reward.vaultFunds()).to.equal(ethers.parseEther("300"));
+        });
+
+        it("Should only allow admin to manage the vault", async () => {
+            const DEFAULT_ADMIN_ROLE = await ig3Reward.DEFAULT_ADMIN_ROLE();
+            await expect(ig3Reward.connect(addr1).migrateToVault(0))
+                .to.be.revertedWith(`AccessControl: account ${addr1.address.toLowerCase()} is missing role ${DEFAULT_ADMIN_ROLE}`);
+            await expect(ig3Reward.connect(addr1).withdrawVaultSurplus(addr1.address, 0))
+                .to.be.revertedWith(`AccessControl: account ${addr1.address.toLowerCase()} is missing role ${DEFAULT_ADMIN_ROLE}`);
+        });
+    });
+
+    describe("Vesting", () => {
+        const DAY = 24 * 60 * 60;
+
+        const setNextTimestamp = async (timestamp: bigint) => {
+            await ethers.provider.send("evm_setNextBlockTimestamp", [Number(timestamp)]);
+        };
+
+        beforeEach(async () => {
+            await setRewardWallet(rewardWallet.address);
+            await topsToken.mint(rewardWallet.address, ethers.parseEther("10000"));
+            await topsToken.connect(rewardWallet).approve(ig3Reward.target, ethers.parseEther("10000"));
+            await stakingContract.grantRole(await stakingContract.REINVEST_ROLE(), ig3Reward.target);
+        });
+
+        it("Should set vesting schedule", async () => {
+            await expect(ig3Reward.setVestingSchedule(100 * DAY, 10 * DAY))
+                .to.emit(ig3Reward, "VestingScheduleChanged")
+                .withArgs(100 * DAY, 10 * DAY);
+            expect(await ig3Reward.vestingDuration()).to.equal(100 * DAY);
+            expect(await ig3Reward.vestingCliff()).to.equal(10 * DAY);
+
+            await expect(ig3Reward.setVestingSchedule(DAY, 2 * DAY)).to.be.revertedWith("Invalid cliff");
+            await expect(ig3Reward.connect(addr1).setVestingSchedule(DAY, 0)).to.be.reverted;
+        });
+
+        it("Should vest rewards linearly and withdraw only the vested part", async () => {
+            await ig3Reward.setVestingSchedule(100 * DAY, 0);
+            await ig3Reward.addRewards([{ wallet: addr1.address, serial: "SERIAL001", value: ethers.parseEther("1000") }]);
+            const [grant] = await ig3Reward.getVestingGrants(addr1.address, "SERIAL001");
+
+            await setNextTimestamp(grant.start + BigInt(25 * DAY));
+            await ig3Reward.connect(addr1).withdraw(["SERIAL001"]);
+
+            expect(await topsToken.balanceOf(addr1.address)).to.equal(ethers.parseEther("250"));
+            expect(await ig3Reward.getBalance(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("750"));
+            expect(await ig3Reward.getUnvestedAmount(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("750"));
+            expect(await ig3Reward.getVestedAmount(addr1.address, "SERIAL001")).to.equal(0);
+            expect(await ig3Reward.getClaimedAmount(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("250"));
+
+            await setNextTimestamp(grant.start + BigInt(100 * DAY));
+            await ig3Reward.connect(addr1).withdraw(["SERIAL001"]);
+
+            expect(await topsToken.balanceOf(addr1.address)).to.equal(ethers.parseEther("1000"));
+            expect(await ig3Reward.getClaimedAmount(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("1000"));
+            expect(await ig3Reward.getVestingGrants(addr1.address, "SERIAL001")).to.have.lengthOf(0);
+        });
+
+        it("Should not vest anything before the cliff", async () => {
+            await ig3Reward.setVestingSchedule(100 * DAY, 30 * DAY);
+            await ig3Reward.addRewards([{ wallet: addr1.address, serial: "SERIAL001", value: ethers.parseEther("1000") }]);
+            const [grant] = await ig3Reward.getVestingGrants(addr1.address, "SERIAL001");
+
+            await setNextTimestamp(grant.start + BigInt(30 * DAY - 1));
+            await expect(ig3Reward.connect(addr1).withdraw(["SERIAL001"]))
+                .to.be.revertedWith("Insufficient balance");
+
+            await setNextTimestamp(grant.start + BigInt(30 * DAY));
+            await ig3Reward.connect(addr1).withdraw(["SERIAL001"]);
+            expect(await topsToken.balanceOf(addr1.address)).to.equal(ethers.parseEther("300"));
+        });
+
+        it("Should vest each batch of rewards on its own schedule", async () => {
+            await ig3Reward.setVestingSchedule(100 * DAY, 0);
+            await ig3Reward.addRewards([{ wallet: addr1.address, serial: "SERIAL001", value: ethers.parseEther("1000") }]);
+            const [first] = await ig3Reward.getVestingGrants(addr1.address, "SERIAL001");
+
+            await setNextTimestamp(first.start + BigInt(50 * DAY));
+            await ig3Reward.addRewards([{ wallet: addr1.address, serial: "SERIAL001", value: ethers.parseEther("1000") }]);
+            expect(await ig3Reward.getVestingGrants(addr1.address, "SERIAL001")).to.have.lengthOf(2);
+
+            await setNextTimestamp(first.start + BigInt(100 * DAY));
+            await ethers.provider.send("evm_mine", []);
+            expect(await ig3Reward.getVestedAmount(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("1500"));
+            expect(await ig3Reward.getUnvestedAmount(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("500"));
+        });
+
+        it("Should keep rewards added without vesting withdrawable", async () => {
+            await ig3Reward.addRewards([{ wallet: addr1.address, serial: "SERIAL001", value: ethers.parseEther("200") }]);
+            await ig3Reward.setVestingSchedule(100 * DAY, 100 * DAY);
+            await ig3Reward.addRewards([{ wallet: addr1.address, serial: "SERIAL001", value: ethers.parseEther("1000") }]);
+
+            await ig3Reward.connect(addr1).withdraw(["SERIAL001"]);
+            expect(await topsToken.balanceOf(addr1.address)).to.equal(ethers.parseEther("200"));
+            expect(await ig3Reward.getBalance(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("1000"));
+        });
+
+        it("Should reinvest without vesting", async () => {
+            await ig3Reward.setVestingSchedule(100 * DAY, 100 * DAY);
+            await ig3Reward.connect(addr1).setReinvestPercentage(40);
+            await ig3Reward.addRewards([{ wallet: addr1.address, serial: "SERIAL001", value: ethers.parseEther("1000") }]);
+
+            expect(await stakingContract.getBalance(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("400"));
+            expect(await ig3Reward.getUnvestedAmount(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("600"));
+            expect(await ig3Reward.getVestedAmount(addr1.address, "SERIAL001")).to.equal(0);
+        });
+
+        it("Should vest claimed epoch rewards", async () => {
+            await ig3Reward.setVestingSchedule(100 * DAY, 0);
+            await ig3Reward.connect(addr1).setReinvestPercentage(40);
+            const tree = buildRewardMerkleTree([
+                { wallet: addr1.address, serial: "SERIAL001", value: ethers.parseEther("1000") },
+                { wallet: addr2.address, serial: "SERIAL002", value: ethers.parseEther("500") }
+            ]);
+            await ig3Reward.postRewardEpoch(tree.root, tree.total);
+
+            await ig3Reward.connect(addr1).claimEpochRewards(1, epochRewardClaims(tree, addr1.address));
+            expect(await topsToken.balanceOf(addr1.address)).to.equal(0);
+            expect(await stakingContract.getBalance(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("400"));
+            expect(await ig3Reward.getBalance(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("600"));
+            expect(await ig3Reward.getUnvestedAmount(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("600"));
+            expect(await ig3Reward.totalUnclaimed()).to.equal(ethers.parseEther("600"));
+            expect(await ig3Reward.totalEpochOutstanding()).to.equal(ethers.parseEther("500"));
+
+            const [grant] = await ig3Reward.getVestingGrants(addr1.address, "SERIAL001");
+            await setNextTimestamp(grant.start + BigInt(50 * DAY));
+            await ig3Reward.connect(addr1).withdraw(["SERIAL001"]);
+            expect(await topsToken.balanceOf(addr1.address)).to.equal(ethers.parseEther("300"));
+            expect(await ig3Reward.getClaimedAmount(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("300"));
+        });
+
+        it("Should keep existing grants when the schedule changes", async () => {
+            await ig3Reward.setVestingSchedule(100 * DAY, 0);
+            await ig3Reward.addRewards([{ wallet: addr1.address, serial: "SERIAL001", value: ethers.parseEther("1000") }]);
+            const [grant] = await ig3Reward.getVestingGrants(addr1.address, "SERIAL001");
+            await ig3Reward.setVestingSchedule(0, 0);
+
+            await setNextTimestamp(grant.start + BigInt(10 * DAY));
+            await ethers.provider.send("evm_mine", []);
+            expect(await ig3Reward.getVestedAmount(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("100"));
+        });
+    });
+
+    describe("Inactive Devices", () => {
+        const SKIP = 1;
+        const REJECT = 2;
+
+        beforeEach(async () => {
+            await setRewardWallet(rewardWallet.address);
+            await topsToken.mint(rewardWallet.address, ethers.parseEther("1000"));
+            await topsToken.connect(rewardWallet).approve(ig3Reward.target, ethers.parseEther("1000"));
+            await topsToken.mint(addr1.address, ethers.parseEther("100"));
+            await topsToken.connect(addr1).approve(stakingContract.target, ethers.parseEther("100"));
+            await stakingContract.setMinimumStake(ethers.parseEther("100"));
+            await stakingContract.connect(addr1).deposit("SERIAL001", ethers.parseEther("100"));
+        });
+
+        it("Should set inactive device policy", async () => {
+            await expect(ig3Reward.setInactiveDevicePolicy(SKIP))
+                .to.emit(ig3Reward, "InactiveDevicePolicyChanged")
+                .withArgs(SKIP);
+            expect(await ig3Reward.inactiveDevicePolicy()).to.equal(SKIP);
+            await expect(ig3Reward.connect(addr1).setInactiveDevicePolicy(REJECT)).to.be.reverted;
+        });
+
+        it("Should pay inactive devices by default", async () => {
+            await ig3Reward.addRewards([{ wallet: addr1.address, serial: "SERIAL002", value: 100 }]);
+            expect(await ig3Reward.getBalance(addr1.address, "SERIAL002")).to.equal(100);
+        });
+
+        it("Should skip rewards of inactive devices", async () => {
+            await ig3Reward.setInactiveDevicePolicy(SKIP);
+            await expect(ig3Reward.addRewards([
+                { wallet: addr1.address, serial: "SERIAL001", value: 100 },
+                { wallet: addr1.address, serial: "SERIAL002", value: 200 }
+            ]))
+                .to.emit(ig3Reward, "RewardSkipped")
+                .withArgs(addr1.address, "SERIAL002", 200);
+
+            expect(await ig3Reward.getBalance(addr1.address, "SERIAL001")).to.equal(100);
+            expect(await ig3Reward.getBalance(addr1.address, "SERIAL002")).to.equal(0);
+            expect(await ig3Reward.totalUnclaimed()).to.equal(100);
+        });
+
+        it("Should reject batches with inactive devices", async () => {
+            await ig3Reward.setInactiveDevicePolicy(REJECT);
+            await expect(ig3Reward.addRewards([
+                { wallet: addr1.address, serial: "SERIAL001", value: 100 },
+                { wallet: addr1.address, serial: "SERIAL002", value: 200 }
+            ])).to.be.revertedWith("Device not active");
+
+            await ig3Reward.addRewards([{ wallet: addr1.address, serial: "SERIAL001", value: 100 }]);
+            expect(await ig3Reward.getBalance(addr1.address, "SERIAL001")).to.equal(100);
+        });
+    });
+
+    describe("Lock Boost", () => {
+        beforeEach(async () => {
+            await setRewardWallet(rewardWallet.address);
+            await topsToken.mint(rewardWallet.address, ethers.parseEther("1000"));
+            await topsToken.connect(rewardWallet).approve(ig3Reward.target, ethers.parseEther("1000"));
+            await stakingContract.grantRole(await stakingContract.REINVEST_ROLE(), ig3Reward.target);
+            await topsToken.mint(addr1.address, ethers.parseEther("100"));
+            await topsToken.connect(addr1).approve(stakingContract.target, ethers.parseEther("100"));
+            await stakingContract.setLockTier(1, 90 * 24 * 60 * 60, 15000);
+            await stakingContract.connect(addr1).depositLocked("SERIAL001", ethers.parseEther("100"), 1);
+        });
+
+        it("Should set lock boost", async () => {
+            await expect(ig3Reward.setLockBoost(true))
+                .to.emit(ig3Reward, "LockBoostChanged")
+                .withArgs(true);
+            expect(await ig3Reward.lockBoostEnabled()).to.be.true;
+            await expect(ig3Reward.connect(addr1).setLockBoost(false)).to.be.reverted;
+        });
+
+        it("Should boost rewards of locked stake", async () => {
+            await ig3Reward.setLockBoost(true);
+            await ig3Reward.connect(addr1).setReinvestPercentage(20);
+
+            await expect(ig3Reward.addRewards([
+                { wallet: addr1.address, serial: "SERIAL001", value: ethers.parseEther("100") },
+                { wallet: addr1.address, serial: "SERIAL002", value: ethers.parseEther("100") }
+            ]))
+                .to.emit(ig3Reward, "RewardAdded")
+                .withArgs(addr1.address, "SERIAL001", ethers.parseEther("150"), ethers.parseEther("30"));
+
+            expect(await ig3Reward.getBalance(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("120"));
+            expect(await ig3Reward.getBalance(addr1.address, "SERIAL002")).to.equal(ethers.parseEther("80"));
+            expect(await stakingContract.getBalance(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("130"));
+        });
+
+        it("Should not boost rewards when disabled", async () => {
+            await ig3Reward.addRewards([{ wallet: addr1.address, serial: "SERIAL001", value: ethers.parseEther("100") }]);
+            expect(await ig3Reward.getBalance(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("100"));
+        });
+    });
+
+    describe("Meta Transactions", () => {
+        let forwarder: any;
+
+        const relay = async (signer: any, data: string) => {
+            const request = await buildForwardRequest(forwarder, signer, ig3Reward.target, data);
+            const signature = await signForwardRequest(forwarder, signer, request);
+            return forwarder.connect(addr2).execute(request, signature);
+        };
+
+        beforeEach(async () => {
+            const forwarderFactory = await ethers.getContractFactory("IG3Forwarder");
+            forwarder = await forwarderFactory.deploy();
+            await ig3Reward.proposeTrustedForwarder(forwarder.target);
+            await executeConfigChange(ConfigParameter.TrustedForwarder);
+            await setRewardWallet(rewardWallet.address);
+            await topsToken.mint(rewardWallet.address, ethers.parseEther("10000"));
+            await topsToken.connect(rewardWallet).approve(ig3Reward.target, ethers.parseEther("10000"));
+        });
+
+        it("Should set trusted forwarder", async () => {
+            await ig3Reward.proposeTrustedForwarder(addr2.address);
+            await expect(executeConfigChange(ConfigParameter.TrustedForwarder))
+                .to.emit(ig3Reward, "TrustedForwarderChanged")
+                .withArgs(addr2.address);
+            expect(await ig3Reward.trustedForwarder()).to.equal(addr2.address);
+            await expect(ig3Reward.connect(addr1).proposeTrustedForwarder(addr1.address))
+                .to.be.revertedWith(/AccessControl: account .* is missing role .*/);
+        });
+
+        it("Should set reinvest percentage through the forwarder on behalf of the signer", async () => {
+            const data = ig3Reward.interface.encodeFunctionData("setReinvestPercentage", [40]);
+            await expect(relay(addr1, data))
+                .to.emit(ig3Reward, "ReinvestPercentageChanged")
+                .withArgs(addr1.address, 40);
+
+            expect(await ig3Reward.getReinvestPercentage(addr1.address)).to.equal(40);
+            expect(await ig3Reward.getReinvestPercentage(addr2.address)).to.equal(0);
+        });
+
+        it("Should withdraw through the forwarder to the signer", async () => {
+            await ig3Reward.addRewards([{ wallet: addr1.address, serial: "SERIAL001", value: ethers.parseEther("100") }]);
+
+            const data = ig3Reward.interface.encodeFunctionData("withdraw", [["SERIAL001"]]);
+            await expect(relay(addr1, data))
+                .to.emit(ig3Reward, "Withdrawn")
+                .withArgs(addr1.address, ethers.parseEther("100"), ["SERIAL001"]);
+
+            expect(await topsToken.balanceOf(addr1.address)).to.equal(ethers.parseEther("100"));
+            expect(await topsToken.balanceOf(addr2.address)).to.equal(0);
+        });
+    });
+
+    describe("Device Ownership", () => {
+        let deviceRegistry: any;
+
+        beforeEach(async () => {
+            const registryFactory = await ethers.getContractFactory("IG3DeviceRegistry");
+            deviceRegistry = await upgrades.deployProxy(
+                registryFactory,
+                [owner.address, pauser.address, upgrader.address, owner.address],
+                { initializer: "initialize" }
+            );
+            await deviceRegistry.waitForDeployment();
+            await deviceRegistry.register("SERIAL001", addr1.address);
+
+            await setRewardWallet(rewardWallet.address);
+            await topsToken.mint(rewardWallet.address, ethers.parseEther("10000"));
+            await topsToken.connect(rewardWallet).approve(ig3Reward.target, ethers.parseEther("10000"));
+            await ig3Reward.proposeRegistryAddress(await deviceRegistry.getAddress());
+            await expect(executeConfigChange(ConfigParameter.RegistryAddress))
+                .to.emit(ig3Reward, "RegistryAddressChanged")
+                .withArgs(await deviceRegistry.getAddress());
+        });
+
+        it("Should add rewards for the device owner", async () => {
+            await ig3Reward.addRewards([{ wallet: addr1.address, serial: "SERIAL001", value: ethers.parseEther("100") }]);
+            expect(await ig3Reward.getBalance(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("100"));
+        });
+
+        it("Should reject rewards for a wallet that does not own the device", async () => {
+            await expect(ig3Reward.addRewards([
+                { wallet: addr1.address, serial: "SERIAL001", value: ethers.parseEther("100") },
+                { wallet: addr2.address, serial: "SERIAL001", value: ethers.parseEther("100") }
+            ])).to.be.revertedWith("Not device owner");
+            await expect(ig3Reward.addRewards([{ wallet: addr1.address, serial: "UNREGISTERED", value: ethers.parseEther("100") }]))
+                .to.be.revertedWith("Not device owner");
+        });
+
+        it("Should only allow admin to set registry", async () => {
+            const DEFAULT_ADMIN_ROLE = await ig3Reward.DEFAULT_ADMIN_ROLE();
+            await expect(ig3Reward.connect(addr1).proposeRegistryAddress(addr1.address))
+                .to.be.revertedWith(`AccessControl: account ${addr1.address.toLowerCase()} is missing role ${DEFAULT_ADMIN_ROLE}`);
+        });
+    });
+
+    describe("Enumeration", () => {
+        const deviceBalances = async (wallet: string) =>
+            (await ig3Reward.getDeviceBalances(wallet)).map((d: any) => [d.serial, d.balance]);
+
+        beforeEach(async () => {
+            await setRewardWallet(rewardWallet.address);
+            await topsToken.mint(rewardWallet.address, ethers.parseEther("10000"));
+            await topsToken.connect(rewardWallet).approve(ig3Reward.target, ethers.parseEther("10000"));
+            await stakingContract.grantRole(await stakingContract.REINVEST_ROLE(), ig3Reward.target);
+        });
+
+        it("Should list serials with unclaimed rewards", async () => {
+            await ig3Reward.connect(addr2).setReinvestPercentage(50);
+            await ig3Reward.addRewards([
+                { wallet: addr1.address, serial: "SERIAL001", value: ethers.parseEther("100") },
+                { wallet: addr1.address, serial: "SERIAL002", value: ethers.parseEther("200") },
+                { wallet: addr2.address, serial: "SERIAL003", value: ethers.parseEther("300") },
+                { wallet: addr1.address, serial: "SERIAL001", value: ethers.parseEther("10") }
+            ]);
+
+            expect(await deviceBalances(addr1.address)).to.deep.equal([
+                ["SERIAL001", ethers.parseEther("110")],
+                ["SERIAL002", ethers.parseEther("200")]
+            ]);
+            expect(await deviceBalances(addr2.address)).to.deep.equal([["SERIAL003", ethers.parseEther("150")]]);
+            expect(await ig3Reward.getUnclaimedAmount(addr1.address)).to.equal(ethers.parseEther("310"));
+            expect(await ig3Reward.getUnclaimedAmount(addr2.address)).to.equal(ethers.parseEther("150"));
+            expect(await ig3Reward.totalUnclaimed()).to.equal(ethers.parseEther("460"));
+            expect(await stakingContract.getDeviceBalances(addr2.address)).to.deep.equal([["SERIAL003", ethers.parseEther("150")]]);
+        });
+
+        it("Should drop withdrawn serials", async () => {
+            await ig3Reward.addRewards([
+                { wallet: addr1.address, serial: "SERIAL001", value: ethers.parseEther("100") },
+                { wallet: addr1.address, serial: "SERIAL002", value: ethers.parseEther("200") }
+            ]);
+
+            await ig3Reward.connect(addr1).withdraw(["SERIAL001"]);
+
+            expect(await deviceBalances(addr1.address)).to.deep.equal([["SERIAL002", ethers.parseEther("200")]]);
+            expect(await ig3Reward.getUnclaimedAmount(addr1.address)).to.equal(ethers.parseEther("200"));
+            expect(await ig3Reward.totalUnclaimed()).to.equal(ethers.parseEther("200"));
+        });
+    });
+
+    describe("Serial Keys", () => {
+        beforeEach(async () => {
+            await setRewardWallet(rewardWallet.address);
+            await topsToken.mint(rewardWallet.address, ethers.parseEther("10000"));
+            await topsToken.connect(rewardWallet).approve(ig3Reward.target, ethers.parseEther("10000"));
+        });
+
+        it("Should keep long serials sharing a 9-byte prefix apart", async () => {
+            await ig3Reward.addRewards([
+                { wallet: addr1.address, serial: "SERIAL0001", value: ethers.parseEther("100") },
+                { wallet: addr1.address, serial: "SERIAL0002", value: ethers.parseEther("200") }
+            ]);
+
+            expect(await ig3Reward.getBalance(addr1.address, "SERIAL0001")).to.equal(ethers.parseEther("100"));
+            expect(await ig3Reward.getBalance(addr1.address, "SERIAL0002")).to.equal(ethers.parseEther("200"));
+
+            await ig3Reward.connect(addr1).withdraw(["SERIAL0002"]);
+            expect(await topsToken.balanceOf(addr1.address)).to.equal(ethers.parseEther("200"));
+            expect(await ig3Reward.getBalance(addr1.address, "SERIAL0001")).to.equal(ethers.parseEther("100"));
+        });
+
+        it("Should preserve balances across an upgrade from bytes9 keys", async () => {
+            const legacyFactory = await ethers.getContractFactory("IG3RewardV1");
+            const legacyReward: any = await upgrades.deployProxy(
+                legacyFactory,
+                [owner.address, pauser.address, upgrader.address, await topsToken.getAddress(), await stakingContract.getAddress()],
+                { initializer: "initialize" }
+            );
+            await legacyReward.waitForDeployment();
+            await legacyReward.setRewardWallet(rewardWallet.address);
+            await topsToken.connect(rewardWallet).approve(legacyReward.target, ethers.parseEther("10000"));
+            await legacyReward.addRewards([
+                { wallet: addr1.address, serial: "SERIAL01", value: ethers.parseEther("100") }
+            ]);
+
+            const factory = await ethers.getContractFactory("IG3Reward", upgrader);
+            const upgraded: any = await upgrades.upgradeProxy(legacyReward.target, factory, { constructorArgs: await deployModules(ethers, "IG3Reward") });
+
+            expect(await upgraded.getBalance(addr1.address, "SERIAL01")).to.equal(ethers.parseEther("100"));
+            await expect(upgraded.connect(addr1).withdraw(["SERIAL01"]))
+                .to.emit(upgraded, "LegacyBalanceMigrated")
+                .withArgs(addr1.address, "SERIAL01", ethers.parseEther("100"));
+            expect(await topsToken.balanceOf(addr1.address)).to.equal(ethers.parseEther("100"));
+            expect(await upgraded.getBalance(addr1.address, "SERIAL01")).to.equal(0);
+        });
+
+        it("Should give upgraded proxies the minimum config delay", async () => {
+            const legacyFactory = await ethers.getContractFactory("IG3RewardV1");
+            const legacyReward: any = await upgrades.deployProxy(
+                legacyFactory,
+                [owner.address, pauser.address, upgrader.address, await topsToken.getAddress(), await stakingContract.getAddress()],
+                { initializer: "initialize" }
+            );
+            await legacyReward.waitForDeployment();
+
+            const factory = await ethers.getContractFactory("IG3Reward", upgrader);
+            const upgraded: any = await upgrades.upgradeProxy(legacyReward.target, factory, {
+                call: { fn: "initializeConfigDelay" },
+                constructorArgs: await deployModules(ethers, "IG3Reward"),
+            });
+
+            expect(await upgraded.configDelay()).to.equal(24 * 60 * 60);
+            await expect(upgraded.initializeConfigDelay())
+                .to.be.revertedWith("Initializable: contract is already initialized");
+        });
+    });
+
     describe("Pause/Unpause", () => {
         it("Should pause and unpause by pauser", async () => {
             await ig3Reward.connect(pauser).pause();
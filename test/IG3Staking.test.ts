@@ -1,5 +1,8 @@
 import { expect } from "chai";
 import { ethers, upgrades } from "hardhat";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { buildForwardRequest, signForwardRequest } from "../utils/forwardRequest";
+import { deployModules } from "../utils/modules";
 
 describe("IG3Staking", () => {
     let topsToken: any;
@@ -11,14 +14,21 @@ describe("IG3Staking", () => {
     let addr2: any;
     let snapshotId: string;
 
+    const ConfigParameter = { ConfigDelay: 0, RequestTime: 1, TokenAddress: 2, TrustedForwarder: 3, RegistryAddress: 4 };
+
+    // Execute a proposed configuration change once the config delay is over
+    const executeConfigChange = async (parameter: number) => {
+        await ethers.provider.send("evm_increaseTime", [Number(await ig3Staking.configDelay())]);
+        return ig3Staking.executeConfigChange(parameter);
+    };
+
     before(async () => {
         [owner, pauser, upgrader, addr1, addr2] = await ethers.getSigners();
     
         // Deploy TOPS token
         const topsTokenFactory = await ethers.getContractFactory("TOPS");
-        topsToken = await upgrades.deployProxy(topsTokenFactory, { initializer: "initialize" });
+        topsToken = await upgrades.deployProxy(topsTokenFactory, [owner.address, owner.address, upgrader.address], { initializer: "initialize" });
         await topsToken.waitForDeployment(); // <-- Ensure deployment is complete
-        await topsToken.grantRole(await topsToken.MINTER_ROLE(), owner.address);
     
         // Deploy IG3Staking
         const ig3StakingFactory = await ethers.getContractFactory("IG3Staking");
@@ -26,7 +36,7 @@ describe("IG3Staking", () => {
         ig3Staking = await upgrades.deployProxy(
             ig3StakingFactory,
             [owner.address, pauser.address, upgrader.address, topsTokenAddress],
-            { initializer: "initialize" }
+            { initializer: "initialize", constructorArgs: await deployModules(ethers, "IG3Staking") }
         );
         await ig3Staking.waitForDeployment();
     });
@@ -46,36 +56,167 @@ describe("IG3Staking", () => {
             expect(await ig3Staking.hasRole(await ig3Staking.DEFAULT_ADMIN_ROLE(), owner.address)).to.be.true;
             expect(await ig3Staking.hasRole(await ig3Staking.PAUSER_ROLE(), pauser.address)).to.be.true;
             expect(await ig3Staking.hasRole(await ig3Staking.UPGRADER_ROLE(), upgrader.address)).to.be.true;
+            expect(await ig3Staking.configDelay()).to.equal(await ig3Staking.MIN_CONFIG_DELAY());
         });
     });
 
     describe("Configuration", () => {
         it("Should set request time", async () => {
-            await expect(ig3Staking.setRequestTime(14 * 24 * 60 * 60))
+            await ig3Staking.proposeRequestTime(14 * 24 * 60 * 60);
+            await expect(executeConfigChange(ConfigParameter.RequestTime))
                 .to.emit(ig3Staking, "RequestTimeChanged")
                 .withArgs(14 * 24 * 60 * 60);
             expect(await ig3Staking.requestTime()).to.equal(14 * 24 * 60 * 60);
         });
 
+        it("Should revert if request time is out of bounds", async () => {
+            const minRequestTime = await ig3Staking.MIN_REQUEST_TIME();
+            const maxRequestTime = await ig3Staking.MAX_REQUEST_TIME();
+            await expect(ig3Staking.proposeRequestTime(0))
+                .to.be.revertedWith("Invalid request time");
+            await expect(ig3Staking.proposeRequestTime(minRequestTime - BigInt(1)))
+                .to.be.revertedWith("Invalid request time");
+            await expect(ig3Staking.proposeRequestTime(maxRequestTime + BigInt(1)))
+                .to.be.revertedWith("Invalid request time");
+            await ig3Staking.proposeRequestTime(minRequestTime);
+            await ig3Staking.proposeRequestTime(maxRequestTime);
+        });
+
         it("Should set token address", async () => {
             const newTokenAddress = addr1.address;
-            await expect(ig3Staking.setTokenAddress(newTokenAddress))
+            await ig3Staking.proposeTokenAddress(newTokenAddress);
+            await expect(executeConfigChange(ConfigParameter.TokenAddress))
                 .to.emit(ig3Staking, "TokenAddressChanged")
                 .withArgs(newTokenAddress);
             expect(await ig3Staking.tokenAddress()).to.equal(newTokenAddress);
         });
 
         it("Should revert if setting token address to zero", async () => {
-            await expect(ig3Staking.setTokenAddress(ethers.ZeroAddress))
+            await expect(ig3Staking.proposeTokenAddress(ethers.ZeroAddress))
                 .to.be.revertedWith("Token address cannot be 0");
         });
 
+        it("Should revert if initialized with token address zero", async () => {
+            const ig3StakingFactory = await ethers.getContractFactory("IG3Staking");
+            await expect(upgrades.deployProxy(
+                ig3StakingFactory,
+                [owner.address, pauser.address, upgrader.address, ethers.ZeroAddress],
+                { initializer: "initialize", constructorArgs: await deployModules(ethers, "IG3Staking") }
+            )).to.be.revertedWith("Token address cannot be 0");
+        });
+
+        it("Should reject modules without code", async () => {
+            const ig3StakingFactory = await ethers.getContractFactory("IG3Staking");
+            await expect(ig3StakingFactory.deploy(addr1.address, addr1.address, addr1.address))
+                .to.be.revertedWith("Module has no code");
+        });
+
         it("Should only allow admin to set config", async () => {
             const DEFAULT_ADMIN_ROLE = await ig3Staking.DEFAULT_ADMIN_ROLE();
-            await expect(ig3Staking.connect(addr1).setRequestTime(1))
+            await expect(ig3Staking.connect(addr1).proposeRequestTime(24 * 60 * 60))
                 .to.be.revertedWith(`AccessControl: account ${addr1.address.toLowerCase()} is missing role ${DEFAULT_ADMIN_ROLE}`);
-            await expect(ig3Staking.connect(addr1).setTokenAddress(addr2.address))
+            await expect(ig3Staking.connect(addr1).proposeTokenAddress(addr2.address))
                 .to.be.revertedWith(`AccessControl: account ${addr1.address.toLowerCase()} is missing role ${DEFAULT_ADMIN_ROLE}`);
+            await expect(ig3Staking.connect(addr1).proposeConfigDelay(0))
+                .to.be.revertedWith(`AccessControl: account ${addr1.address.toLowerCase()} is missing role ${DEFAULT_ADMIN_ROLE}`);
+            await ig3Staking.proposeRequestTime(24 * 60 * 60);
+            await expect(ig3Staking.connect(addr1).executeConfigChange(ConfigParameter.RequestTime))
+                .to.be.revertedWith(`AccessControl: account ${addr1.address.toLowerCase()} is missing role ${DEFAULT_ADMIN_ROLE}`);
+            await expect(ig3Staking.connect(addr1).cancelConfigChange(ConfigParameter.RequestTime))
+                .to.be.revertedWith(`AccessControl: account ${addr1.address.toLowerCase()} is missing role ${DEFAULT_ADMIN_ROLE}`);
+        });
+    });
+
+    describe("Timelocked Configuration", () => {
+        const delay = 3 * 24 * 60 * 60;
+
+        beforeEach(async () => {
+            await ig3Staking.proposeConfigDelay(delay);
+            await executeConfigChange(ConfigParameter.ConfigDelay);
+        });
+
+        it("Should apply a new config delay only after the current one", async () => {
+            const tx = await ig3Staking.proposeConfigDelay(24 * 60 * 60);
+            const { timestamp } = (await ethers.provider.getBlock(tx.blockNumber))!;
+            await expect(tx)
+                .to.emit(ig3Staking, "ConfigChangeProposed")
+                .withArgs(ConfigParameter.ConfigDelay, 24 * 60 * 60, timestamp + delay);
+
+            await expect(ig3Staking.executeConfigChange(ConfigParameter.ConfigDelay))
+                .to.be.revertedWith("Change not ready");
+            await ethers.provider.send("evm_setNextBlockTimestamp", [timestamp + delay]);
+            await expect(ig3Staking.executeConfigChange(ConfigParameter.ConfigDelay))
+                .to.emit(ig3Staking, "ConfigDelayChanged")
+                .withArgs(24 * 60 * 60);
+        });
+
+        it("Should revert if the config delay is out of bounds", async () => {
+            const minConfigDelay = await ig3Staking.MIN_CONFIG_DELAY();
+            const maxConfigDelay = await ig3Staking.MAX_CONFIG_DELAY();
+            await expect(ig3Staking.proposeConfigDelay(0))
+                .to.be.revertedWith("Invalid delay");
+            await expect(ig3Staking.proposeConfigDelay(minConfigDelay - BigInt(1)))
+                .to.be.revertedWith("Invalid delay");
+            await expect(ig3Staking.proposeConfigDelay(maxConfigDelay + BigInt(1)))
+                .to.be.revertedWith("Invalid delay");
+            await ig3Staking.proposeConfigDelay(minConfigDelay);
+            await ig3Staking.proposeConfigDelay(maxConfigDelay);
+        });
+
+        it("Should keep the request time until the change is executed", async () => {
+            await topsToken.mint(addr1.address, ethers.parseEther("100"));
+            await topsToken.connect(addr1).approve(ig3Staking.target, ethers.parseEther("100"));
+            await ig3Staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("100"));
+
+            const tx = await ig3Staking.proposeRequestTime(24 * 60 * 60);
+            const { timestamp } = (await ethers.provider.getBlock(tx.blockNumber))!;
+            const pending = await ig3Staking.getPendingConfigChange(ConfigParameter.RequestTime);
+            expect(pending.value).to.equal(24 * 60 * 60);
+            expect(pending.executableAt).to.equal(timestamp + delay);
+
+            // Requests made while the change is pending keep the current request time
+            await ethers.provider.send("evm_setNextBlockTimestamp", [timestamp + delay - 1]);
+            await ig3Staking.connect(addr1).requestPartial([{ serial: "SERIAL001", balance: ethers.parseEther("50") }]);
+            const [requestId] = await ig3Staking.getWithdrawRequestIds(addr1.address);
+            expect((await ig3Staking.getWithdrawRequest(addr1.address, requestId)).timestamp).to.equal(timestamp + delay - 1 + 7 * 24 * 60 * 60);
+
+            await ig3Staking.executeConfigChange(ConfigParameter.RequestTime);
+            expect(await ig3Staking.requestTime()).to.equal(24 * 60 * 60);
+        });
+
+        it("Should cancel a pending change", async () => {
+            await ig3Staking.proposeTokenAddress(addr1.address);
+            await expect(ig3Staking.cancelConfigChange(ConfigParameter.TokenAddress))
+                .to.emit(ig3Staking, "ConfigChangeCanceled")
+                .withArgs(ConfigParameter.TokenAddress, BigInt(addr1.address));
+
+            await ethers.provider.send("evm_increaseTime", [delay]);
+            await expect(ig3Staking.executeConfigChange(ConfigParameter.TokenAddress))
+                .to.be.revertedWith("No pending change");
+            expect(await ig3Staking.tokenAddress()).to.equal(topsToken.target);
+        });
+
+        it("Should delay trusted forwarder and registry changes", async () => {
+            const tx = await ig3Staking.proposeTrustedForwarder(addr2.address);
+            const { timestamp } = (await ethers.provider.getBlock(tx.blockNumber))!;
+            await expect(tx)
+                .to.emit(ig3Staking, "ConfigChangeProposed")
+                .withArgs(ConfigParameter.TrustedForwarder, BigInt(addr2.address), timestamp + delay);
+            await ig3Staking.proposeRegistryAddress(addr1.address);
+
+            expect(await ig3Staking.isTrustedForwarder(addr2.address)).to.be.false;
+            await expect(ig3Staking.executeConfigChange(ConfigParameter.TrustedForwarder))
+                .to.be.revertedWith("Change not ready");
+            await expect(ig3Staking.executeConfigChange(ConfigParameter.RegistryAddress))
+                .to.be.revertedWith("Change not ready");
+
+            await ethers.provider.send("evm_increaseTime", [delay]);
+            await ig3Staking.executeConfigChange(ConfigParameter.TrustedForwarder);
+            await expect(ig3Staking.executeConfigChange(ConfigParameter.RegistryAddress))
+                .to.emit(ig3Staking, "RegistryAddressChanged")
+                .withArgs(addr1.address);
+            expect(await ig3Staking.isTrustedForwarder(addr2.address)).to.be.true;
+            expect(await ig3Staking.registryAddress()).to.equal(addr1.address);
         });
     });
 
@@ -149,6 +290,32 @@ describe("IG3Staking", () => {
                 .to.be.revertedWith(`AccessControl: account ${addr1.address.toLowerCase()} is missing role ${REINVEST_ROLE}`);
         });
 
+        it("Should bulk reinvest and emit events", async () => {
+            const tx = ig3Staking.bulkReinvest([
+                { wallet: addr1.address, serial: "SERIAL001", amount: ethers.parseEther("100") },
+                { wallet: addr2.address, serial: "SERIAL002", amount: ethers.parseEther("50") },
+                { wallet: addr1.address, serial: "SERIAL001", amount: ethers.parseEther("25") }
+            ]);
+            await expect(tx)
+                .to.emit(ig3Staking, "Deposited")
+                .withArgs(addr2.address, "SERIAL002", ethers.parseEther("50"));
+
+            expect(await ig3Staking.getBalance(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("125"));
+            expect(await ig3Staking.getBalance(addr2.address, "SERIAL002")).to.equal(ethers.parseEther("50"));
+            expect(await ig3Staking.totalStaked()).to.equal(ethers.parseEther("175"));
+        });
+
+        it("Should revert bulk reinvest with zero amount", async () => {
+            await expect(ig3Staking.bulkReinvest([{ wallet: addr1.address, serial: "SERIAL001", amount: 0 }]))
+                .to.be.revertedWith("Amount must be greater than 0");
+        });
+
+        it("Should only allow reinvest role to bulk reinvest", async () => {
+            const REINVEST_ROLE = await ig3Staking.REINVEST_ROLE();
+            await expect(ig3Staking.connect(addr1).bulkReinvest([{ wallet: addr1.address, serial: "SERIAL001", amount: 1 }]))
+                .to.be.revertedWith(`AccessControl: account ${addr1.address.toLowerCase()} is missing role ${REINVEST_ROLE}`);
+        });
+
         it("Should accumulate reinvested amounts", async () => {
             await ig3Staking.reinvest(addr1.address, "SERIAL001", ethers.parseEther("100"));
             await ig3Staking.reinvest(addr1.address, "SERIAL001", ethers.parseEther("200"));
@@ -176,19 +343,112 @@ describe("IG3Staking", () => {
                 await expect(ig3Staking.connect(addr1).request(serials))
                     .to.emit(ig3Staking, "WithdrawRequested");
                 
-                const request = await ig3Staking.withdrawRequests(addr1.address);
+                const [requestId] = await ig3Staking.getWithdrawRequestIds(addr1.address);
+                const request = await ig3Staking.getWithdrawRequest(addr1.address, requestId);
                 expect(request.amount).to.equal(expectedAmount);
                 expect(request.id).to.not.equal(0);
+                expect(request.wallet).to.equal(addr1.address);
                 
                 // Balances should be cleared
                 expect(await ig3Staking.getBalance(addr1.address, "SERIAL001")).to.equal(0);
                 expect(await ig3Staking.getBalance(addr1.address, "SERIAL002")).to.equal(0);
             });
 
-            it("Should revert if already has a waiting request", async () => {
+            it("Should emit per-device amounts and a summary with the unlock time", async () => {
+                const latest = await ethers.provider.getBlock("latest");
+                const now = latest!.timestamp + 100;
+                const unlockTime = BigInt(now) + await ig3Staking.requestTime();
+                await ethers.provider.send("evm_setNextBlockTimestamp", [now]);
+
+                const tx = await ig3Staking.connect(addr1).request(["SERIAL001", "SERIAL002"]);
+                const [requestId] = await ig3Staking.getWithdrawRequestIds(addr1.address);
+                const logs = (await tx.wait()).logs.map((log: any) => ig3Staking.interface.parseLog(log)).filter((log: any) => log?.name.startsWith("WithdrawRequest"));
+                expect(logs.map((log: any) => [log.name, ...log.args])).to.deep.equal([
+                    ["WithdrawRequested", requestId, addr1.address, "SERIAL001", unlockTime, ethers.parseEther("300")],
+                    ["WithdrawRequested", requestId, addr1.address, "SERIAL002", unlockTime, ethers.parseEther("200")],
+                    ["WithdrawRequestCreated", requestId, addr1.address, unlockTime, ethers.parseEther("500")],
+                ]);
+                expect((await ig3Staking.getWithdrawRequest(addr1.address, requestId)).timestamp).to.equal(unlockTime);
+            });
+
+            it("Should emit per-device amounts for a partial request", async () => {
+                const latest = await ethers.provider.getBlock("latest");
+                const now = latest!.timestamp + 100;
+                const unlockTime = BigInt(now) + await ig3Staking.requestTime();
+                await ethers.provider.send("evm_setNextBlockTimestamp", [now]);
+
+                const tx = await ig3Staking.connect(addr1).requestPartial([
+                    { serial: "SERIAL001", balance: ethers.parseEther("100") },
+                    { serial: "SERIAL002", balance: ethers.parseEther("50") }
+                ]);
+                const [requestId] = await ig3Staking.getWithdrawRequestIds(addr1.address);
+                const logs = (await tx.wait()).logs.map((log: any) => ig3Staking.interface.parseLog(log)).filter((log: any) => log?.name.startsWith("WithdrawRequest"));
+                expect(logs.map((log: any) => [log.name, ...log.args])).to.deep.equal([
+                    ["WithdrawRequested", requestId, addr1.address, "SERIAL001", unlockTime, ethers.parseEther("100")],
+                    ["WithdrawRequested", requestId, addr1.address, "SERIAL002", unlockTime, ethers.parseEther("50")],
+                    ["WithdrawRequestCreated", requestId, addr1.address, unlockTime, ethers.parseEther("150")],
+                ]);
+            });
+
+            it("Should keep the unlock time of pending requests when the request time changes", async () => {
                 await ig3Staking.connect(addr1).request(["SERIAL001"]);
-                await expect(ig3Staking.connect(addr1).request(["SERIAL002"]))
-                    .to.be.revertedWith("Already have a waiting request");
+                const [requestId] = await ig3Staking.getWithdrawRequestIds(addr1.address);
+                const { timestamp } = await ig3Staking.getWithdrawRequest(addr1.address, requestId);
+
+                await ig3Staking.proposeRequestTime(30 * 24 * 60 * 60);
+                await executeConfigChange(ConfigParameter.RequestTime);
+
+                expect((await ig3Staking.getWithdrawRequest(addr1.address, requestId)).timestamp).to.equal(timestamp);
+                await ethers.provider.send("evm_setNextBlockTimestamp", [Number(timestamp)]);
+                await expect(ig3Staking.connect(addr1).withdraw(requestId))
+                    .to.emit(ig3Staking, "Withdrawn")
+                    .withArgs(requestId, addr1.address, ethers.parseEther("300"), [["SERIAL001", ethers.parseEther("300")]]);
+            });
+
+            it("Should allow multiple pending requests", async () => {
+                await ig3Staking.connect(addr1).request(["SERIAL001"]);
+                await ig3Staking.connect(addr1).request(["SERIAL002"]);
+
+                const requestIds = await ig3Staking.getWithdrawRequestIds(addr1.address);
+                expect(requestIds.length).to.equal(2);
+                expect((await ig3Staking.getWithdrawRequest(addr1.address, requestIds[0])).amount).to.equal(ethers.parseEther("300"));
+                expect((await ig3Staking.getWithdrawRequest(addr1.address, requestIds[1])).amount).to.equal(ethers.parseEther("200"));
+            });
+
+            it("Should request a partial amount of a device", async () => {
+                await expect(ig3Staking.connect(addr1).requestPartial([{ serial: "SERIAL001", balance: ethers.parseEther("100") }]))
+                    .to.emit(ig3Staking, "WithdrawRequested");
+
+                const [requestId] = await ig3Staking.getWithdrawRequestIds(addr1.address);
+                const request = await ig3Staking.getWithdrawRequest(addr1.address, requestId);
+                expect(request.amount).to.equal(ethers.parseEther("100"));
+                expect(request.serialBalances[0].serial).to.equal("SERIAL001");
+                expect(request.serialBalances[0].balance).to.equal(ethers.parseEther("100"));
+                expect(await ig3Staking.getBalance(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("200"));
+            });
+
+            it("Should queue several partial requests from the same device", async () => {
+                await ig3Staking.connect(addr1).requestPartial([{ serial: "SERIAL001", balance: ethers.parseEther("100") }]);
+                await ig3Staking.connect(addr1).requestPartial([
+                    { serial: "SERIAL001", balance: ethers.parseEther("50") },
+                    { serial: "SERIAL002", balance: ethers.parseEther("20") }
+                ]);
+
+                const requestIds = await ig3Staking.getWithdrawRequestIds(addr1.address);
+                expect(requestIds.length).to.equal(2);
+                expect((await ig3Staking.getWithdrawRequest(addr1.address, requestIds[1])).amount).to.equal(ethers.parseEther("70"));
+                expect(await ig3Staking.getBalance(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("150"));
+                expect(await ig3Staking.getBalance(addr1.address, "SERIAL002")).to.equal(ethers.parseEther("180"));
+            });
+
+            it("Should revert partial request above device balance", async () => {
+                await expect(ig3Staking.connect(addr1).requestPartial([{ serial: "SERIAL001", balance: ethers.parseEther("301") }]))
+                    .to.be.revertedWith("Insufficient balance");
+            });
+
+            it("Should revert partial request with zero amount", async () => {
+                await expect(ig3Staking.connect(addr1).requestPartial([{ serial: "SERIAL001", balance: 0 }]))
+                    .to.be.revertedWith("Amount must be greater than 0");
             });
 
             it("Should revert if insufficient balance", async () => {
@@ -201,20 +461,53 @@ describe("IG3Staking", () => {
                 await expect(ig3Staking.connect(addr1).request(["SERIAL001"]))
                     .to.be.revertedWith("Pausable: paused");
             });
+
+            it("Should cap pending requests per wallet", async () => {
+                const amounts = [{ serial: "SERIAL001", balance: ethers.parseEther("1") }];
+                for (let i = 0; i < 10; i++) {
+                    await ig3Staking.connect(addr1).requestPartial(amounts);
+                }
+                await expect(ig3Staking.connect(addr1).requestPartial(amounts))
+                    .to.be.revertedWith("Too many pending requests");
+                await expect(ig3Staking.connect(addr1).request(["SERIAL002"]))
+                    .to.be.revertedWith("Too many pending requests");
+
+                const [requestId] = await ig3Staking.getWithdrawRequestIds(addr1.address);
+                await ig3Staking.connect(addr1).cancel(requestId);
+                await ig3Staking.connect(addr1).request(["SERIAL002"]);
+                expect(await ig3Staking.getWithdrawRequestIds(addr1.address)).to.have.lengthOf(10);
+            });
+
+            it("Should cap devices per request", async () => {
+                const amounts = Array.from({ length: 51 }, () => ({ serial: "SERIAL001", balance: 1n }));
+                await expect(ig3Staking.connect(addr1).requestPartial(amounts))
+                    .to.be.revertedWith("Too many devices");
+                await ig3Staking.connect(addr1).requestPartial(amounts.slice(0, 50));
+            });
         });
 
         describe("Cancel", () => {
+            let requestId: bigint;
+
             beforeEach(async () => {
                 await ig3Staking.connect(addr1).request(["SERIAL001", "SERIAL002"]);
+                [requestId] = await ig3Staking.getWithdrawRequestIds(addr1.address);
+            });
+
+            it("Should emit the device breakdown on cancel", async () => {
+                const request = await ig3Staking.getWithdrawRequest(addr1.address, requestId);
+                await expect(ig3Staking.connect(addr1).cancel(requestId))
+                    .to.emit(ig3Staking, "WithdrawRequestCanceled")
+                    .withArgs(requestId, addr1.address, request.timestamp, ethers.parseEther("500"), [["SERIAL001", ethers.parseEther("300")], ["SERIAL002", ethers.parseEther("200")]]);
             });
 
             it("Should cancel request and restore balances", async () => {
-                await ig3Staking.connect(addr1).cancel();
+                await ig3Staking.connect(addr1).cancel(requestId);
                 
                 // Request should be cleared
-                const request = await ig3Staking.withdrawRequests(addr1.address);
-                expect(request.id).to.equal(0);
-                expect(request.amount).to.equal(0);
+                expect(await ig3Staking.getWithdrawRequestIds(addr1.address)).to.be.empty;
+                await expect(ig3Staking.getWithdrawRequest(addr1.address, requestId))
+                    .to.be.revertedWith("No request found");
                 
                 // Balances should be restored
                 expect(await ig3Staking.getBalance(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("300"));
@@ -222,52 +515,86 @@ describe("IG3Staking", () => {
             });
 
             it("Should revert if no request found", async () => {
-                await expect(ig3Staking.connect(addr2).cancel())
+                await expect(ig3Staking.connect(addr2).cancel(requestId))
+                    .to.be.revertedWith("No request found");
+                await expect(ig3Staking.connect(addr1).cancel(requestId + 1n))
                     .to.be.revertedWith("No request found");
             });
 
+            it("Should only cancel the given request", async () => {
+                await topsToken.connect(addr1).approve(await ig3Staking.getAddress(), ethers.parseEther("500"));
+                await ig3Staking.connect(addr1).deposit("SERIAL003", ethers.parseEther("100"));
+                await ig3Staking.connect(addr1).request(["SERIAL003"]);
+
+                await ig3Staking.connect(addr1).cancel(requestId);
+
+                const requestIds = await ig3Staking.getWithdrawRequestIds(addr1.address);
+                expect(requestIds).to.deep.equal([requestId + 1n]);
+                expect(await ig3Staking.getBalance(addr1.address, "SERIAL003")).to.equal(0);
+            });
+
             it("Should revert when paused", async () => {
                 await ig3Staking.connect(pauser).pause();
-                await expect(ig3Staking.connect(addr1).cancel())
+                await expect(ig3Staking.connect(addr1).cancel(requestId))
                     .to.be.revertedWith("Pausable: paused");
             });
         });
 
         describe("Withdraw", () => {
+            let requestId: bigint;
+
             beforeEach(async () => {
                 await ig3Staking.connect(addr1).request(["SERIAL001", "SERIAL002"]);
+                [requestId] = await ig3Staking.getWithdrawRequestIds(addr1.address);
             });
 
             it("Should revert if waiting time not over", async () => {
-                await expect(ig3Staking.connect(addr1).withdraw())
+                await expect(ig3Staking.connect(addr1).withdraw(requestId))
                     .to.be.revertedWith("Waiting time not over");
             });
 
             it("Should withdraw after waiting time and emit event", async () => {
-                const request = await ig3Staking.withdrawRequests(addr1.address);
+                const request = await ig3Staking.getWithdrawRequest(addr1.address, requestId);
                 
                 // Fast forward time past the request timestamp
                 await ethers.provider.send("evm_setNextBlockTimestamp", [parseInt(request.timestamp.toString())]);
                 await ethers.provider.send("evm_mine", []);
                 
-                await expect(ig3Staking.connect(addr1).withdraw())
+                await expect(ig3Staking.connect(addr1).withdraw(requestId))
                     .to.emit(ig3Staking, "Withdrawn")
-                    .withArgs(request.id, addr1.address, request.amount);
+                    .withArgs(request.id, addr1.address, request.amount, [["SERIAL001", ethers.parseEther("300")], ["SERIAL002", ethers.parseEther("200")]]);
                 
                 // Request should be cleared
-                const clearedRequest = await ig3Staking.withdrawRequests(addr1.address);
-                expect(clearedRequest.id).to.equal(0);
-                expect(clearedRequest.amount).to.equal(0);
+                expect(await ig3Staking.getWithdrawRequestIds(addr1.address)).to.be.empty;
+                await expect(ig3Staking.connect(addr1).withdraw(requestId))
+                    .to.be.revertedWith("No request found");
+            });
+
+            it("Should honor each request's own unlock time", async () => {
+                await ethers.provider.send("evm_increaseTime", [3 * 24 * 60 * 60]);
+                await topsToken.connect(addr1).approve(await ig3Staking.getAddress(), ethers.parseEther("500"));
+                await ig3Staking.connect(addr1).deposit("SERIAL003", ethers.parseEther("100"));
+                await ig3Staking.connect(addr1).request(["SERIAL003"]);
+                const laterRequestId = requestId + 1n;
+
+                const request = await ig3Staking.getWithdrawRequest(addr1.address, requestId);
+                await ethers.provider.send("evm_setNextBlockTimestamp", [parseInt(request.timestamp.toString())]);
+                await ethers.provider.send("evm_mine", []);
+
+                await expect(ig3Staking.connect(addr1).withdraw(laterRequestId))
+                    .to.be.revertedWith("Waiting time not over");
+                await ig3Staking.connect(addr1).withdraw(requestId);
+                expect(await ig3Staking.getWithdrawRequestIds(addr1.address)).to.deep.equal([laterRequestId]);
             });
 
             it("Should revert if no request found", async () => {
-                await expect(ig3Staking.connect(addr2).withdraw())
+                await expect(ig3Staking.connect(addr2).withdraw(requestId))
                     .to.be.revertedWith("No request found");
             });
 
             it("Should revert when paused", async () => {
                 await ig3Staking.connect(pauser).pause();
-                await expect(ig3Staking.connect(addr1).withdraw())
+                await expect(ig3Staking.connect(addr1).withdraw(requestId))
                     .to.be.revertedWith("Pausable: paused");
             });
         });
@@ -328,22 +655,24 @@ describe("IG3Staking", () => {
             
             // Create request
             await ig3Staking.connect(addr1).request(["SERIAL1", "SERIAL2"]);
-            let request = await ig3Staking.withdrawRequests(addr1.address);
+            let [requestId] = await ig3Staking.getWithdrawRequestIds(addr1.address);
+            let request = await ig3Staking.getWithdrawRequest(addr1.address, requestId);
             expect(request.amount).to.equal(ethers.parseEther("300"));
             
             // Cancel and try again
-            await ig3Staking.connect(addr1).cancel();
+            await ig3Staking.connect(addr1).cancel(requestId);
             expect(await ig3Staking.getBalance(addr1.address, "SERIAL1")).to.equal(ethers.parseEther("100"));
             
             // Create new request and withdraw
             await ig3Staking.connect(addr1).request(["SERIAL1"]);
-            request = await ig3Staking.withdrawRequests(addr1.address);
+            [requestId] = await ig3Staking.getWithdrawRequestIds(addr1.address);
+            request = await ig3Staking.getWithdrawRequest(addr1.address, requestId);
             
             // Fast forward time
             await ethers.provider.send("evm_setNextBlockTimestamp", [parseInt(request.timestamp.toString())]);
             await ethers.provider.send("evm_mine", []);
             
-            await ig3Staking.connect(addr1).withdraw();
+            await ig3Staking.connect(addr1).withdraw(requestId);
             
             // Check final state
             expect(await ig3Staking.getBalance(addr1.address, "SERIAL1")).to.equal(0);
@@ -354,11 +683,13 @@ describe("IG3Staking", () => {
             await ig3Staking.connect(addr1).deposit("TIMETEST", ethers.parseEther("100"));
             
             // Change request time
-            await ig3Staking.setRequestTime(1 * 24 * 60 * 60); // 1 day
+            await ig3Staking.proposeRequestTime(1 * 24 * 60 * 60); // 1 day
+            await executeConfigChange(ConfigParameter.RequestTime);
             
             // Create request with new time
             await ig3Staking.connect(addr1).request(["TIMETEST"]);
-            const request = await ig3Staking.withdrawRequests(addr1.address);
+            const [requestId] = await ig3Staking.getWithdrawRequestIds(addr1.address);
+            const request = await ig3Staking.getWithdrawRequest(addr1.address, requestId);
             
             const block = await ethers.provider.getBlock('latest');
             const expectedTimestamp = block!.timestamp + (1 * 24 * 60 * 60);
@@ -401,4 +732,1445 @@ describe("IG3Staking", () => {
             expect(balance).to.equal(ethers.parseEther("500"));
         });
     });
+
+    describe("Device Ownership", () => {
+        let deviceRegistry: any;
+
+        beforeEach(async () => {
+            const registryFactory = await ethers.getContractFactory("IG3DeviceRegistry");
+            deviceRegistry = await upgrades.deployProxy(
+                registryFactory,
+                [owner.address, pauser.address, upgrader.address, owner.address],
+                { initializer: "initialize" }
+            );
+            await deviceRegistry.waitForDeployment();
+            await deviceRegistry.register("SERIAL001", addr1.address);
+
+            await ig3Staking.proposeRegistryAddress(await deviceRegistry.getAddress());
+            await expect(executeConfigChange(ConfigParameter.RegistryAddress))
+                .to.emit(ig3Staking, "RegistryAddressChanged")
+                .withArgs(await deviceRegistry.getAddress());
+
+            await topsToken.mint(addr1.address, ethers.parseEther("1000"));
+            await topsToken.mint(addr2.address, ethers.parseEther("1000"));
+            const ig3StakingAddress = await ig3Staking.getAddress();
+            await topsToken.connect(addr1).approve(ig3StakingAddress, ethers.parseEther("1000"));
+            await topsToken.connect(addr2).approve(ig3StakingAddress, ethers.parseEther("1000"));
+        });
+
+        it("Should accept deposits from the device owner", async () => {
+            await ig3Staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("100"));
+            expect(await ig3Staking.getBalance(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("100"));
+        });
+
+        it("Should reject deposits from other wallets", async () => {
+            await expect(ig3Staking.connect(addr2).deposit("SERIAL001", ethers.parseEther("100")))
+                .to.be.revertedWith("Not device owner");
+            await expect(ig3Staking.connect(addr1).deposit("UNREGISTERED", ethers.parseEther("100")))
+                .to.be.revertedWith("Not device owner");
+        });
+
+        it("Should reject bulk deposits containing a foreign device", async () => {
+            await deviceRegistry.register("SERIAL002", addr2.address);
+            await expect(ig3Staking.connect(addr1).bulkDeposit([
+                { serial: "SERIAL001", amount: ethers.parseEther("100") },
+                { serial: "SERIAL002", amount: ethers.parseEther("100") }
+            ])).to.be.revertedWith("Not device owner");
+        });
+
+        it("Should follow device transfers", async () => {
+            await ig3Staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("100"));
+            await deviceRegistry.connect(addr1).proposeTransfer("SERIAL001", addr2.address);
+            await deviceRegistry.connect(addr2).acceptTransfer("SERIAL001");
+
+            await ig3Staking.connect(addr2).deposit("SERIAL001", ethers.parseEther("50"));
+            await expect(ig3Staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("50")))
+                .to.be.revertedWith("Not device owner");
+
+            // Existing stake stays with the previous owner who can still unstake it
+            await ig3Staking.connect(addr1).request(["SERIAL001"]);
+            expect(await ig3Staking.getRequestedAmount(addr1.address)).to.equal(ethers.parseEther("100"));
+        });
+
+        it("Should stop enforcing once the registry is unset", async () => {
+            await ig3Staking.proposeRegistryAddress(ethers.ZeroAddress);
+            await executeConfigChange(ConfigParameter.RegistryAddress);
+            await ig3Staking.connect(addr2).deposit("SERIAL001", ethers.parseEther("100"));
+            expect(await ig3Staking.getBalance(addr2.address, "SERIAL001")).to.equal(ethers.parseEther("100"));
+        });
+
+        it("Should only allow admin to set registry", async () => {
+            const DEFAULT_ADMIN_ROLE = await ig3Staking.DEFAULT_ADMIN_ROLE();
+            await expect(ig3Staking.connect(addr1).proposeRegistryAddress(addr1.address))
+                .to.be.revertedWith(`AccessControl: account ${addr1.address.toLowerCase()} is missing role ${DEFAULT_ADMIN_ROLE}`);
+        });
+    });
+
+    describe("Enumeration", () => {
+        const deviceBalances = async (wallet: string) =>
+            (await ig3Staking.getDeviceBalances(wallet)).map((d: any) => [d.serial, d.balance]);
+
+        beforeEach(async () => {
+            await topsToken.mint(addr1.address, ethers.parseEther("1000"));
+            await topsToken.mint(addr2.address, ethers.parseEther("1000"));
+            const ig3StakingAddress = await ig3Staking.getAddress();
+            await topsToken.connect(addr1).approve(ig3StakingAddress, ethers.parseEther("1000"));
+            await topsToken.connect(addr2).approve(ig3StakingAddress, ethers.parseEther("1000"));
+            await ig3Staking.grantRole(await ig3Staking.REINVEST_ROLE(), owner.address);
+        });
+
+        it("Should list deposited and reinvested serials", async () => {
+            await ig3Staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("100"));
+            await ig3Staking.connect(addr1).bulkDeposit([
+                { serial: "SERIAL002", amount: ethers.parseEther("200") },
+                { serial: "SERIAL001", amount: ethers.parseEther("50") }
+            ]);
+            await ig3Staking.reinvest(addr1.address, "SERIAL003", ethers.parseEther("30"));
+            await ig3Staking.connect(addr2).deposit("SERIAL001", ethers.parseEther("10"));
+
+            expect(await deviceBalances(addr1.address)).to.deep.equal([
+                ["SERIAL001", ethers.parseEther("150")],
+                ["SERIAL002", ethers.parseEther("200")],
+                ["SERIAL003", ethers.parseEther("30")]
+            ]);
+            expect(await ig3Staking.getStakedAmount(addr1.address)).to.equal(ethers.parseEther("380"));
+            expect(await ig3Staking.getStakedAmount(addr2.address)).to.equal(ethers.parseEther("10"));
+            expect(await ig3Staking.totalStaked()).to.equal(ethers.parseEther("390"));
+        });
+
+        it("Should move requested amounts out of the staked totals", async () => {
+            await ig3Staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("100"));
+            await ig3Staking.connect(addr1).deposit("SERIAL002", ethers.parseEther("200"));
+
+            await ig3Staking.connect(addr1).request(["SERIAL001"]);
+            await ig3Staking.connect(addr1).requestPartial([{ serial: "SERIAL002", balance: ethers.parseEther("50") }]);
+
+            expect(await deviceBalances(addr1.address)).to.deep.equal([["SERIAL002", ethers.parseEther("150")]]);
+            expect(await ig3Staking.getStakedAmount(addr1.address)).to.equal(ethers.parseEther("150"));
+            expect(await ig3Staking.getRequestedAmount(addr1.address)).to.equal(ethers.parseEther("150"));
+            expect(await ig3Staking.totalStaked()).to.equal(ethers.parseEther("150"));
+            expect(await ig3Staking.totalRequested()).to.equal(ethers.parseEther("150"));
+        });
+
+        it("Should restore totals on cancel and clear them on withdraw", async () => {
+            await ig3Staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("100"));
+            await ig3Staking.connect(addr1).deposit("SERIAL002", ethers.parseEther("200"));
+            await ig3Staking.connect(addr1).request(["SERIAL001"]);
+            await ig3Staking.connect(addr1).request(["SERIAL002"]);
+            const [firstId, secondId] = await ig3Staking.getWithdrawRequestIds(addr1.address);
+
+            await ig3Staking.connect(addr1).cancel(firstId);
+            expect(await deviceBalances(addr1.address)).to.deep.equal([["SERIAL001", ethers.parseEther("100")]]);
+            expect(await ig3Staking.getStakedAmount(addr1.address)).to.equal(ethers.parseEther("100"));
+            expect(await ig3Staking.getRequestedAmount(addr1.address)).to.equal(ethers.parseEther("200"));
+
+            const request = await ig3Staking.getWithdrawRequest(addr1.address, secondId);
+            await ethers.provider.send("evm_setNextBlockTimestamp", [parseInt(request.timestamp.toString())]);
+            await ethers.provider.send("evm_mine", []);
+            await ig3Staking.connect(addr1).withdraw(secondId);
+
+            expect(await ig3Staking.getStakedAmount(addr1.address)).to.equal(ethers.parseEther("100"));
+            expect(await ig3Staking.getRequestedAmount(addr1.address)).to.equal(0);
+            expect(await ig3Staking.totalStaked()).to.equal(ethers.parseEther("100"));
+            expect(await ig3Staking.totalRequested()).to.equal(0);
+        });
+
+        it("Should return an empty list for unknown wallets", async () => {
+            expect(await ig3Staking.getDeviceBalances(addr2.address)).to.be.empty;
+            expect(await ig3Staking.getStakedAmount(addr2.address)).to.equal(0);
+        });
+    });
+
+    describe("Serial Keys", () => {
+        beforeEach(async () => {
+            await topsToken.mint(addr1.address, ethers.parseEther("1000"));
+            const ig3StakingAddress = await ig3Staking.getAddress();
+            await topsToken.connect(addr1).approve(ig3StakingAddress, ethers.parseEther("1000"));
+        });
+
+        it("Should keep long serials sharing a 9-byte prefix apart", async () => {
+            await ig3Staking.connect(addr1).deposit("SERIAL0001", ethers.parseEther("100"));
+            await ig3Staking.connect(addr1).deposit("SERIAL0002", ethers.parseEther("200"));
+
+            expect(await ig3Staking.getBalance(addr1.address, "SERIAL0001")).to.equal(ethers.parseEther("100"));
+            expect(await ig3Staking.getBalance(addr1.address, "SERIAL0002")).to.equal(ethers.parseEther("200"));
+            expect(await ig3Staking.getBalance(addr1.address, "SERIAL000")).to.equal(0);
+        });
+
+        it("Should only request the listed long serial", async () => {
+            await ig3Staking.connect(addr1).deposit("SERIAL0001", ethers.parseEther("100"));
+            await ig3Staking.connect(addr1).deposit("SERIAL0002", ethers.parseEther("200"));
+
+            await ig3Staking.connect(addr1).request(["SERIAL0001"]);
+
+            const [requestId] = await ig3Staking.getWithdrawRequestIds(addr1.address);
+            expect((await ig3Staking.getWithdrawRequest(addr1.address, requestId)).amount).to.equal(ethers.parseEther("100"));
+            expect(await ig3Staking.getBalance(addr1.address, "SERIAL0001")).to.equal(0);
+            expect(await ig3Staking.getBalance(addr1.address, "SERIAL0002")).to.equal(ethers.parseEther("200"));
+        });
+
+        it("Should restore the full serial on cancel", async () => {
+            const serial = "VERY-LONG-DEVICE-SERIAL-NUMBER-0001";
+            await ig3Staking.connect(addr1).deposit(serial, ethers.parseEther("100"));
+            await ig3Staking.connect(addr1).request([serial]);
+            const [requestId] = await ig3Staking.getWithdrawRequestIds(addr1.address);
+
+            await expect(ig3Staking.connect(addr1).cancel(requestId))
+                .to.emit(ig3Staking, "WithdrawRequestCanceled")
+                .withArgs(requestId, addr1.address, anyValue, ethers.parseEther("100"), [[serial, ethers.parseEther("100")]]);
+            expect(await ig3Staking.getBalance(addr1.address, serial)).to.equal(ethers.parseEther("100"));
+        });
+    });
+
+    describe("Staking Yield", () => {
+        const RATE = ethers.parseEther("1"); // 1 TOPS per second
+        let start: number;
+
+        const at = async (offset: number) => {
+            await ethers.provider.send("evm_setNextBlockTimestamp", [start + offset]);
+        };
+
+        const mineAt = async (offset: number) => {
+            await at(offset);
+            await ethers.provider.send("evm_mine", []);
+        };
+
+        beforeEach(async () => {
+            await topsToken.mint(owner.address, ethers.parseEther("100000"));
+            await topsToken.mint(addr1.address, ethers.parseEther("1000"));
+            await topsToken.mint(addr2.address, ethers.parseEther("1000"));
+            await topsToken.approve(ig3Staking.target, ethers.parseEther("100000"));
+            await topsToken.connect(addr1).approve(ig3Staking.target, ethers.parseEther("1000"));
+            await topsToken.connect(addr2).approve(ig3Staking.target, ethers.parseEther("1000"));
+            await ig3Staking.fundYield(ethers.parseEther("10000"));
+            await ig3Staking.setYieldRate(RATE);
+
+            start = (await ethers.provider.getBlock("latest"))!.timestamp + 100;
+        });
+
+        it("Should set yield rate and fund the reserve", async () => {
+            await expect(ig3Staking.setYieldRate(5))
+                .to.emit(ig3Staking, "YieldRateChanged")
+                .withArgs(5);
+            await expect(ig3Staking.connect(addr1).fundYield(ethers.parseEther("10")))
+                .to.emit(ig3Staking, "YieldFunded")
+                .withArgs(addr1.address, ethers.parseEther("10"));
+
+            expect(await ig3Staking.yieldRate()).to.equal(5);
+            expect(await ig3Staking.yieldReserve()).to.equal(ethers.parseEther("10010"));
+            await expect(ig3Staking.fundYield(0)).to.be.revertedWith("Amount must be greater than 0");
+            await expect(ig3Staking.connect(addr1).setYieldRate(1)).to.be.reverted;
+        });
+
+        it("Should share yield pro rata across deposits", async () => {
+            await at(0);
+            await ig3Staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("100"));
+            await at(100);
+            await ig3Staking.connect(addr2).deposit("SERIAL002", ethers.parseEther("300"));
+            await mineAt(200);
+
+            // addr1 alone for 100s, then a quarter of the stake for 100s
+            expect(await ig3Staking.getPendingYield(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("125"));
+            expect(await ig3Staking.getPendingYield(addr2.address, "SERIAL002")).to.equal(ethers.parseEther("75"));
+            expect(await ig3Staking.yieldReserve()).to.equal(ethers.parseEther("9900"));
+        });
+
+        it("Should stop accruing on requested amounts until canceled", async () => {
+            await at(0);
+            await ig3Staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("100"));
+            await at(10);
+            await ig3Staking.connect(addr2).deposit("SERIAL002", ethers.parseEther("100"));
+            await at(20);
+            const tx = await ig3Staking.connect(addr1).requestPartial([{ serial: "SERIAL001", balance: ethers.parseEther("50") }]);
+            const requestId = (await tx.wait()).logs.map((log: any) => ig3Staking.interface.parseLog(log)).find((log: any) => log?.name === "WithdrawRequested").args.requestId;
+            await mineAt(50);
+
+            // 10 + 5 before the request, then 50 of 150 staked for 30s
+            expect(await ig3Staking.getPendingYield(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("25"));
+            expect(await ig3Staking.getPendingYield(addr2.address, "SERIAL002")).to.equal(ethers.parseEther("25"));
+
+            await at(60);
+            await ig3Staking.connect(addr1).cancel(requestId);
+            await mineAt(80);
+
+            // 10 more at 50 of 150, then 20s at half
+            expect(await ig3Staking.getPendingYield(addr1.address, "SERIAL001")).to.closeTo(ethers.parseEther("38.333333333333333333"), 100);
+            expect(await ig3Staking.getPendingYield(addr2.address, "SERIAL002")).to.closeTo(ethers.parseEther("41.666666666666666666"), 100);
+        });
+
+        it("Should keep yield accrued before a withdrawal", async () => {
+            await at(0);
+            await ig3Staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("100"));
+            await at(40);
+            await ig3Staking.connect(addr1).request(["SERIAL001"]);
+            await ethers.provider.send("evm_increaseTime", [7 * 24 * 60 * 60]);
+            await ig3Staking.connect(addr1).withdraw((await ig3Staking.getWithdrawRequestIds(addr1.address))[0]);
+
+            expect(await ig3Staking.getPendingYield(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("40"));
+            await ig3Staking.connect(addr1).claimYield(["SERIAL001"]);
+            expect(await topsToken.balanceOf(addr1.address)).to.equal(ethers.parseEther("1040"));
+        });
+
+        it("Should claim yield", async () => {
+            await at(0);
+            await ig3Staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("100"));
+            await at(30);
+            await expect(ig3Staking.connect(addr1).claimYield(["SERIAL001"]))
+                .to.emit(ig3Staking, "YieldClaimed")
+                .withArgs(addr1.address, "SERIAL001", ethers.parseEther("30"));
+
+            expect(await topsToken.balanceOf(addr1.address)).to.equal(ethers.parseEther("930"));
+            expect(await ig3Staking.getPendingYield(addr1.address, "SERIAL001")).to.equal(0);
+            expect(await ig3Staking.getBalance(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("100"));
+        });
+
+        it("Should compound yield into the same serial", async () => {
+            await at(0);
+            await ig3Staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("100"));
+            await at(30);
+            await expect(ig3Staking.connect(addr1).compoundYield(["SERIAL001"]))
+                .to.emit(ig3Staking, "YieldCompounded")
+                .withArgs(addr1.address, "SERIAL001", ethers.parseEther("30"));
+
+            expect(await ig3Staking.getBalance(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("130"));
+            expect(await ig3Staking.totalStaked()).to.equal(ethers.parseEther("130"));
+            expect(await ig3Staking.getPendingYield(addr1.address, "SERIAL001")).to.equal(0);
+        });
+
+        it("Should stop emitting when the reserve is exhausted", async () => {
+            await ig3Staking.setYieldRate(ethers.parseEther("1000"));
+            start = (await ethers.provider.getBlock("latest"))!.timestamp + 100;
+            await at(0);
+            await ig3Staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("100"));
+            await mineAt(20);
+
+            expect(await ig3Staking.getPendingYield(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("10000"));
+            await ig3Staking.connect(addr1).claimYield(["SERIAL001"]);
+            expect(await ig3Staking.yieldReserve()).to.equal(0);
+            await expect(ig3Staking.connect(addr1).claimYield(["SERIAL001"]))
+                .to.be.revertedWith("No yield to claim");
+        });
+
+        it("Should not emit while nothing is staked", async () => {
+            await mineAt(50);
+            await at(60);
+            await ig3Staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("100"));
+            await mineAt(70);
+
+            expect(await ig3Staking.getPendingYield(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("10"));
+        });
+    });
+
+    describe("Slashing", () => {
+        let slasher: any;
+        let treasury: any;
+
+        const requestIdOf = async (tx: any) => {
+            const log = (await tx.wait()).logs.map((log: any) => ig3Staking.interface.parseLog(log)).find((log: any) => log?.name === "WithdrawRequested");
+            return log.args.requestId;
+        };
+
+        beforeEach(async () => {
+            [, , , , , slasher, treasury] = await ethers.getSigners();
+            await ig3Staking.grantRole(await ig3Staking.SLASHER_ROLE(), slasher.address);
+            await topsToken.mint(addr1.address, ethers.parseEther("1000"));
+            await topsToken.connect(addr1).approve(ig3Staking.target, ethers.parseEther("1000"));
+            await ig3Staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("100"));
+            await ig3Staking.connect(addr1).deposit("SERIAL002", ethers.parseEther("100"));
+        });
+
+        it("Should set slash treasury", async () => {
+            await expect(ig3Staking.setSlashTreasury(treasury.address))
+                .to.emit(ig3Staking, "SlashTreasuryChanged")
+                .withArgs(treasury.address);
+            expect(await ig3Staking.slashTreasury()).to.equal(treasury.address);
+        });
+
+        it("Should slash a fixed amount to the treasury", async () => {
+            await ig3Staking.setSlashTreasury(treasury.address);
+            await expect(ig3Staking.connect(slasher).slash(addr1.address, "SERIAL001", ethers.parseEther("30")))
+                .to.emit(ig3Staking, "Slashed")
+                .withArgs(addr1.address, "SERIAL001", ethers.parseEther("30"), ethers.parseEther("30"), 0, treasury.address);
+
+            expect(await ig3Staking.getBalance(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("70"));
+            expect(await ig3Staking.getBalance(addr1.address, "SERIAL002")).to.equal(ethers.parseEther("100"));
+            expect(await ig3Staking.totalStaked()).to.equal(ethers.parseEther("170"));
+            expect(await topsToken.balanceOf(treasury.address)).to.equal(ethers.parseEther("30"));
+        });
+
+        it("Should burn slashed stake without a treasury", async () => {
+            const supply = await topsToken.totalSupply();
+            await expect(ig3Staking.connect(slasher).slashPercentage(addr1.address, "SERIAL001", 2500))
+                .to.emit(ig3Staking, "Slashed")
+                .withArgs(addr1.address, "SERIAL001", ethers.parseEther("25"), ethers.parseEther("25"), 0, ethers.ZeroAddress);
+
+            expect(await topsToken.totalSupply()).to.equal(supply - ethers.parseEther("25"));
+            expect(await topsToken.balanceOf(ig3Staking.target)).to.equal(ethers.parseEther("175"));
+        });
+
+        it("Should slash stake in a pending request during the time lock", async () => {
+            const requestId = await requestIdOf(await ig3Staking.connect(addr1).requestPartial([{ serial: "SERIAL001", balance: ethers.parseEther("60") }]));
+
+            await expect(ig3Staking.connect(slasher).slash(addr1.address, "SERIAL001", ethers.parseEther("50")))
+                .to.emit(ig3Staking, "WithdrawRequestSlashed")
+                .withArgs(requestId, addr1.address, "SERIAL001", ethers.parseEther("10"))
+                .and.to.emit(ig3Staking, "Slashed")
+                .withArgs(addr1.address, "SERIAL001", ethers.parseEther("50"), ethers.parseEther("40"), ethers.parseEther("10"), ethers.ZeroAddress);
+
+            const request = await ig3Staking.getWithdrawRequest(addr1.address, requestId);
+            expect(request.amount).to.equal(ethers.parseEther("50"));
+            expect(request.serialBalances[0].balance).to.equal(ethers.parseEther("50"));
+            expect(await ig3Staking.getRequestedAmount(addr1.address)).to.equal(ethers.parseEther("50"));
+            expect(await ig3Staking.totalRequested()).to.equal(ethers.parseEther("50"));
+
+            await ethers.provider.send("evm_increaseTime", [7 * 24 * 60 * 60]);
+            await ig3Staking.connect(addr1).withdraw(requestId);
+            expect(await topsToken.balanceOf(addr1.address)).to.equal(ethers.parseEther("850"));
+        });
+
+        it("Should slash a percentage of stake including pending requests", async () => {
+            const requestId = await requestIdOf(await ig3Staking.connect(addr1).request(["SERIAL001"]));
+            expect(await ig3Staking.getDeviceStake(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("100"));
+
+            await ig3Staking.connect(slasher).slashPercentage(addr1.address, "SERIAL001", 1000);
+
+            expect((await ig3Staking.getWithdrawRequest(addr1.address, requestId)).amount).to.equal(ethers.parseEther("90"));
+            await ig3Staking.connect(addr1).cancel(requestId);
+            expect(await ig3Staking.getBalance(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("90"));
+        });
+
+        it("Should delete a request slashed to zero", async () => {
+            await ig3Staking.connect(addr1).request(["SERIAL001"]);
+            await ig3Staking.connect(slasher).slashPercentage(addr1.address, "SERIAL001", 10000);
+
+            expect(await ig3Staking.getWithdrawRequestIds(addr1.address)).to.be.empty;
+            expect(await ig3Staking.getRequestedAmount(addr1.address)).to.equal(0);
+            expect(await ig3Staking.getDeviceStake(addr1.address, "SERIAL001")).to.equal(0);
+        });
+
+        it("Should not slash more than the device stake", async () => {
+            await ig3Staking.connect(addr1).requestPartial([{ serial: "SERIAL002", balance: ethers.parseEther("50") }]);
+            await expect(ig3Staking.connect(slasher).slash(addr1.address, "SERIAL001", ethers.parseEther("101")))
+                .to.be.revertedWith("Slash exceeds stake");
+            await expect(ig3Staking.connect(slasher).slash(addr1.address, "SERIAL001", 0))
+                .to.be.revertedWith("Amount must be greater than 0");
+            await expect(ig3Staking.connect(slasher).slashPercentage(addr1.address, "SERIAL001", 10001))
+                .to.be.revertedWith("Invalid percentage");
+        });
+
+        it("Should only allow slasher to slash", async () => {
+            const SLASHER_ROLE = await ig3Staking.SLASHER_ROLE();
+            await expect(ig3Staking.connect(addr1).slash(addr1.address, "SERIAL001", 1))
+                .to.be.revertedWith(`AccessControl: account ${addr1.address.toLowerCase()} is missing role ${SLASHER_ROLE}`);
+            await expect(ig3Staking.connect(addr1).setSlashTreasury(addr1.address)).to.be.reverted;
+        });
+    });
+
+    describe("Minimum Stake", () => {
+        const SENSOR = ethers.encodeBytes32String("SENSOR");
+
+        beforeEach(async () => {
+            await topsToken.mint(addr1.address, ethers.parseEther("1000"));
+            await topsToken.connect(addr1).approve(ig3Staking.target, ethers.parseEther("1000"));
+            await ig3Staking.setMinimumStake(ethers.parseEther("100"));
+        });
+
+        it("Should configure minimum stakes and device classes", async () => {
+            await expect(ig3Staking.setMinimumStake(ethers.parseEther("200")))
+                .to.emit(ig3Staking, "MinimumStakeChanged")
+                .withArgs(ethers.parseEther("200"));
+            await expect(ig3Staking.setClassMinimumStake(SENSOR, ethers.parseEther("10")))
+                .to.emit(ig3Staking, "ClassMinimumStakeChanged")
+                .withArgs(SENSOR, ethers.parseEther("10"));
+            await expect(ig3Staking.setDeviceClass("SERIAL001", SENSOR))
+                .to.emit(ig3Staking, "DeviceClassChanged")
+                .withArgs("SERIAL001", SENSOR);
+
+            expect(await ig3Staking.getDeviceClass("SERIAL001")).to.equal(SENSOR);
+            expect(await ig3Staking.getMinimumStake("SERIAL001")).to.equal(ethers.parseEther("10"));
+            expect(await ig3Staking.getMinimumStake("SERIAL002")).to.equal(ethers.parseEther("200"));
+            await expect(ig3Staking.setClassMinimumStake(ethers.ZeroHash, 1))
+                .to.be.revertedWith("Invalid device class");
+            await expect(ig3Staking.connect(addr1).setMinimumStake(0)).to.be.reverted;
+            await expect(ig3Staking.connect(addr1).setDeviceClass("SERIAL001", SENSOR)).to.be.reverted;
+        });
+
+        it("Should activate a device once its stake reaches the minimum", async () => {
+            await expect(ig3Staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("60")))
+                .to.not.emit(ig3Staking, "DeviceStatusChanged");
+            expect(await ig3Staking.isActive(addr1.address, "SERIAL001")).to.be.false;
+
+            await expect(ig3Staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("40")))
+                .to.emit(ig3Staking, "DeviceStatusChanged")
+                .withArgs(addr1.address, "SERIAL001", true);
+            expect(await ig3Staking.isActive(addr1.address, "SERIAL001")).to.be.true;
+
+            await expect(ig3Staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("10")))
+                .to.not.emit(ig3Staking, "DeviceStatusChanged");
+        });
+
+        it("Should deactivate a device when a request takes it below the minimum", async () => {
+            await ig3Staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("150"));
+            await expect(ig3Staking.connect(addr1).requestPartial([{ serial: "SERIAL001", balance: ethers.parseEther("51") }]))
+                .to.emit(ig3Staking, "DeviceStatusChanged")
+                .withArgs(addr1.address, "SERIAL001", false);
+            expect(await ig3Staking.isActive(addr1.address, "SERIAL001")).to.be.false;
+
+            const [requestId] = await ig3Staking.getWithdrawRequestIds(addr1.address);
+            await expect(ig3Staking.connect(addr1).cancel(requestId))
+                .to.emit(ig3Staking, "DeviceStatusChanged")
+                .withArgs(addr1.address, "SERIAL001", true);
+        });
+
+        it("Should deactivate a device when a slash takes it below the minimum", async () => {
+            await ig3Staking.grantRole(await ig3Staking.SLASHER_ROLE(), owner.address);
+            await ig3Staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("100"));
+
+            await expect(ig3Staking.slash(addr1.address, "SERIAL001", 1))
+                .to.emit(ig3Staking, "DeviceStatusChanged")
+                .withArgs(addr1.address, "SERIAL001", false);
+        });
+
+        it("Should use the minimum stake of the device class", async () => {
+            await ig3Staking.setClassMinimumStake(SENSOR, ethers.parseEther("10"));
+            await ig3Staking.setDeviceClass("SERIAL001", SENSOR);
+
+            await expect(ig3Staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("10")))
+                .to.emit(ig3Staking, "DeviceStatusChanged")
+                .withArgs(addr1.address, "SERIAL001", true);
+            await ig3Staking.connect(addr1).deposit("SERIAL002", ethers.parseEther("10"));
+
+            expect(await ig3Staking.isActive(addr1.address, "SERIAL001")).to.be.true;
+            expect(await ig3Staking.isActive(addr1.address, "SERIAL002")).to.be.false;
+        });
+
+        it("Should treat any stake as active without a minimum", async () => {
+            await ig3Staking.setMinimumStake(0);
+            expect(await ig3Staking.isActive(addr1.address, "SERIAL001")).to.be.false;
+
+            await ig3Staking.connect(addr1).deposit("SERIAL001", 1);
+            expect(await ig3Staking.isActive(addr1.address, "SERIAL001")).to.be.true;
+        });
+    });
+
+    describe("Emergency Withdrawal", () => {
+        let requestId: bigint;
+
+        const enableEmergency = async () => {
+            await ig3Staking.connect(pauser).pause();
+            await ig3Staking.setEmergencyMode(true);
+        };
+
+        beforeEach(async () => {
+            await topsToken.mint(addr1.address, ethers.parseEther("1000"));
+            await topsToken.connect(addr1).approve(ig3Staking.target, ethers.parseEther("1000"));
+            await ig3Staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("100"));
+            await ig3Staking.connect(addr1).deposit("SERIAL002", ethers.parseEther("200"));
+            await ig3Staking.connect(addr1).requestPartial([{ serial: "SERIAL002", balance: ethers.parseEther("50") }]);
+            [requestId] = await ig3Staking.getWithdrawRequestIds(addr1.address);
+        });
+
+        it("Should only enable emergency mode while paused", async () => {
+            await expect(ig3Staking.setEmergencyMode(true)).to.be.revertedWith("Not paused");
+            await ig3Staking.connect(pauser).pause();
+            await expect(ig3Staking.setEmergencyMode(true))
+                .to.emit(ig3Staking, "EmergencyModeChanged")
+                .withArgs(true);
+            expect(await ig3Staking.emergencyMode()).to.be.true;
+            await expect(ig3Staking.connect(addr1).setEmergencyMode(false)).to.be.reverted;
+        });
+
+        it("Should withdraw staked balances and pending requests without waiting", async () => {
+            await enableEmergency();
+            await expect(ig3Staking.connect(addr1).emergencyWithdraw(["SERIAL001", "SERIAL002"], [requestId]))
+                .to.emit(ig3Staking, "EmergencyWithdrawn")
+                .withArgs(addr1.address, ["SERIAL001", "SERIAL002"], [requestId], ethers.parseEther("300"));
+
+            expect(await topsToken.balanceOf(addr1.address)).to.equal(ethers.parseEther("1000"));
+            expect(await ig3Staking.getDeviceBalances(addr1.address)).to.be.empty;
+            expect(await ig3Staking.getWithdrawRequestIds(addr1.address)).to.be.empty;
+            expect(await ig3Staking.totalStaked()).to.equal(0);
+            expect(await ig3Staking.totalRequested()).to.equal(0);
+        });
+
+        it("Should not withdraw twice through the emergency path", async () => {
+            await enableEmergency();
+            await ig3Staking.connect(addr1).emergencyWithdraw(["SERIAL001", "SERIAL002"], [requestId]);
+            await expect(ig3Staking.connect(addr1).emergencyWithdraw(["SERIAL001", "SERIAL002"], []))
+                .to.be.revertedWith("Insufficient balance");
+            await expect(ig3Staking.connect(addr1).emergencyWithdraw([], [requestId]))
+                .to.be.revertedWith("No request found");
+        });
+
+        it("Should withdraw devices and requests over several calls", async () => {
+            await enableEmergency();
+            await expect(ig3Staking.connect(addr1).emergencyWithdraw(["SERIAL002"], []))
+                .to.emit(ig3Staking, "EmergencyWithdrawn")
+                .withArgs(addr1.address, ["SERIAL002"], [], ethers.parseEther("150"));
+            expect(await ig3Staking.getBalance(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("100"));
+            expect(await ig3Staking.getWithdrawRequestIds(addr1.address)).to.deep.equal([requestId]);
+
+            await expect(ig3Staking.connect(addr1).emergencyWithdraw(["SERIAL001"], [requestId]))
+                .to.emit(ig3Staking, "EmergencyWithdrawn")
+                .withArgs(addr1.address, ["SERIAL001"], [requestId], ethers.parseEther("150"));
+            expect(await topsToken.balanceOf(addr1.address)).to.equal(ethers.parseEther("1000"));
+            expect(await ig3Staking.totalStaked()).to.equal(0);
+            expect(await ig3Staking.totalRequested()).to.equal(0);
+        });
+
+        it("Should not withdraw requests of other wallets", async () => {
+            await enableEmergency();
+            await expect(ig3Staking.connect(addr2).emergencyWithdraw(["SERIAL001"], [requestId]))
+                .to.be.revertedWith("No request found");
+        });
+
+        it("Should not withdraw a request again after an emergency withdrawal", async () => {
+            await enableEmergency();
+            await ig3Staking.connect(addr1).emergencyWithdraw(["SERIAL001", "SERIAL002"], [requestId]);
+            await ig3Staking.setEmergencyMode(false);
+            await ig3Staking.connect(pauser).unpause();
+
+            await ethers.provider.send("evm_increaseTime", [7 * 24 * 60 * 60]);
+            await expect(ig3Staking.connect(addr1).withdraw(requestId))
+                .to.be.revertedWith("No request found");
+            await expect(ig3Staking.connect(addr1).request(["SERIAL001"]))
+                .to.be.revertedWith("Insufficient balance");
+        });
+
+        it("Should not pay a request withdrawn before emergency mode", async () => {
+            await ethers.provider.send("evm_increaseTime", [7 * 24 * 60 * 60]);
+            await ig3Staking.connect(addr1).withdraw(requestId);
+            await enableEmergency();
+
+            await ig3Staking.connect(addr1).emergencyWithdraw(["SERIAL001", "SERIAL002"], []);
+            expect(await topsToken.balanceOf(addr1.address)).to.equal(ethers.parseEther("1000"));
+            expect(await topsToken.balanceOf(ig3Staking.target)).to.equal(0);
+        });
+
+        it("Should block deposits and reinvests in emergency mode", async () => {
+            await ig3Staking.grantRole(await ig3Staking.REINVEST_ROLE(), owner.address);
+            await enableEmergency();
+
+            await expect(ig3Staking.connect(addr1).deposit("SERIAL001", 1)).to.be.revertedWith("Pausable: paused");
+            await expect(ig3Staking.reinvest(addr1.address, "SERIAL001", 1))
+                .to.be.revertedWith("Emergency mode enabled");
+            await expect(ig3Staking.bulkReinvest([{ wallet: addr1.address, serial: "SERIAL001", amount: 1 }]))
+                .to.be.revertedWith("Emergency mode enabled");
+        });
+
+        it("Should revert emergency withdrawal outside emergency mode", async () => {
+            await ig3Staking.connect(pauser).pause();
+            await expect(ig3Staking.connect(addr1).emergencyWithdraw(["SERIAL001"], []))
+                .to.be.revertedWith("Emergency mode not enabled");
+        });
+
+        it("Should turn emergency mode off when unpausing", async () => {
+            await ig3Staking.setLockTier(1, 180 * 24 * 60 * 60, 20000);
+            await enableEmergency();
+            await expect(ig3Staking.connect(pauser).unpause())
+                .to.emit(ig3Staking, "EmergencyModeChanged")
+                .withArgs(false);
+            expect(await ig3Staking.emergencyMode()).to.be.false;
+
+            // Locked stake deposited once unpaused can only leave through the request time
+            await ig3Staking.connect(addr1).depositLocked("SERIAL003", ethers.parseEther("100"), 1);
+            await expect(ig3Staking.connect(addr1).emergencyWithdraw(["SERIAL003"], []))
+                .to.be.revertedWith("Pausable: not paused");
+            await ig3Staking.connect(pauser).pause();
+            await expect(ig3Staking.connect(addr1).emergencyWithdraw(["SERIAL003"], []))
+                .to.be.revertedWith("Emergency mode not enabled");
+            expect(await ig3Staking.getLockedStake(addr1.address, "SERIAL003")).to.equal(ethers.parseEther("100"));
+        });
+
+        it("Should keep emergency mode off when unpausing outside emergency mode", async () => {
+            await ig3Staking.connect(pauser).pause();
+            await expect(ig3Staking.connect(pauser).unpause())
+                .not.to.emit(ig3Staking, "EmergencyModeChanged");
+        });
+    });
+
+    describe("Lock Tiers", () => {
+        const DAY = 24 * 60 * 60;
+
+        beforeEach(async () => {
+            await topsToken.mint(addr1.address, ethers.parseEther("1000"));
+            await topsToken.connect(addr1).approve(ig3Staking.target, ethers.parseEther("1000"));
+            await ig3Staking.setLockTier(1, 30 * DAY, 11000);
+            await ig3Staking.setLockTier(2, 90 * DAY, 12500);
+            await ig3Staking.setLockTier(3, 180 * DAY, 15000);
+        });
+
+        it("Should configure lock tiers", async () => {
+            await expect(ig3Staking.setLockTier(1, 60 * DAY, 12000))
+                .to.emit(ig3Staking, "LockTierChanged")
+                .withArgs(1, 60 * DAY, 12000);
+            const tier = await ig3Staking.lockTiers(1);
+            expect(tier.duration).to.equal(60 * DAY);
+            expect(tier.multiplier).to.equal(12000);
+
+            await expect(ig3Staking.setLockTier(0, DAY, 10000)).to.be.revertedWith("Invalid lock tier");
+            await expect(ig3Staking.setLockTier(4, DAY, 9999)).to.be.revertedWith("Invalid multiplier");
+            await expect(ig3Staking.connect(addr1).setLockTier(4, DAY, 10000)).to.be.reverted;
+        });
+
+        it("Should lock a deposit for the tier duration", async () => {
+            const tx = await ig3Staking.connect(addr1).depositLocked("SERIAL001", ethers.parseEther("100"), 2);
+            const timestamp = (await ethers.provider.getBlock(tx.blockNumber))!.timestamp;
+
+            await expect(tx)
+                .to.emit(ig3Staking, "StakeLocked")
+                .withArgs(addr1.address, "SERIAL001", ethers.parseEther("100"), 2, timestamp + 90 * DAY);
+            await expect(tx)
+                .to.emit(ig3Staking, "Deposited")
+                .withArgs(addr1.address, "SERIAL001", ethers.parseEther("100"));
+
+            const locks = await ig3Staking.getStakeLocks(addr1.address, "SERIAL001");
+            expect(locks).to.have.lengthOf(1);
+            expect(locks[0].unlockTime).to.equal(timestamp + 90 * DAY);
+            expect(await ig3Staking.getLockedStake(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("100"));
+            expect(await ig3Staking.getUnlockedStake(addr1.address, "SERIAL001")).to.equal(0);
+        });
+
+        it("Should reject deposits in an unknown tier", async () => {
+            await expect(ig3Staking.connect(addr1).depositLocked("SERIAL001", ethers.parseEther("100"), 4))
+                .to.be.revertedWith("Lock tier not found");
+        });
+
+        it("Should reject requests for the locked portion", async () => {
+            await ig3Staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("40"));
+            await ig3Staking.connect(addr1).depositLocked("SERIAL001", ethers.parseEther("60"), 1);
+
+            await expect(ig3Staking.connect(addr1).requestPartial([{ serial: "SERIAL001", balance: ethers.parseEther("41") }]))
+                .to.be.revertedWith("Stake is locked");
+
+            await ig3Staking.connect(addr1).request(["SERIAL001"]);
+            const [requestId] = await ig3Staking.getWithdrawRequestIds(addr1.address);
+            expect((await ig3Staking.getWithdrawRequest(addr1.address, requestId)).amount).to.equal(ethers.parseEther("40"));
+            expect(await ig3Staking.getBalance(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("60"));
+            await expect(ig3Staking.connect(addr1).request(["SERIAL001"]))
+                .to.be.revertedWith("Insufficient balance");
+        });
+
+        it("Should leave fully locked devices out of a request", async () => {
+            await ig3Staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("40"));
+            await ig3Staking.connect(addr1).depositLocked("SERIAL002", ethers.parseEther("60"), 1);
+
+            const tx = await ig3Staking.connect(addr1).request(["SERIAL001", "SERIAL002"]);
+            const [requestId] = await ig3Staking.getWithdrawRequestIds(addr1.address);
+            const { timestamp } = await ig3Staking.getWithdrawRequest(addr1.address, requestId);
+            const logs = (await tx.wait()).logs.map((log: any) => ig3Staking.interface.parseLog(log)).filter((log: any) => log?.name === "WithdrawRequested");
+            expect(logs.map((log: any) => [...log.args])).to.deep.equal([
+                [requestId, addr1.address, "SERIAL001", timestamp, ethers.parseEther("40")],
+            ]);
+            expect((await ig3Staking.getWithdrawRequest(addr1.address, requestId)).serialBalances).to.have.lengthOf(1);
+
+            await expect(ig3Staking.connect(addr1).request(["SERIAL002"]))
+                .to.be.revertedWith("Insufficient balance");
+            expect(await ig3Staking.getWithdrawRequestIds(addr1.address)).to.have.lengthOf(1);
+        });
+
+        it("Should unlock stake once the lock expires", async () => {
+            await ig3Staking.connect(addr1).depositLocked("SERIAL001", ethers.parseEther("60"), 1);
+            await ig3Staking.connect(addr1).depositLocked("SERIAL001", ethers.parseEther("40"), 3);
+
+            await ethers.provider.send("evm_increaseTime", [30 * DAY]);
+            await ethers.provider.send("evm_mine", []);
+
+            expect(await ig3Staking.getLockedStake(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("40"));
+            expect(await ig3Staking.getUnlockedStake(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("60"));
+            expect(await ig3Staking.getStakeLocks(addr1.address, "SERIAL001")).to.have.lengthOf(1);
+            await ig3Staking.connect(addr1).requestPartial([{ serial: "SERIAL001", balance: ethers.parseEther("60") }]);
+        });
+
+        it("Should weight the reward multiplier by locked stake", async () => {
+            expect(await ig3Staking.getRewardMultiplier(addr1.address, "SERIAL001")).to.equal(10000);
+
+            await ig3Staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("50"));
+            await ig3Staking.connect(addr1).depositLocked("SERIAL001", ethers.parseEther("50"), 3);
+            expect(await ig3Staking.getRewardMultiplier(addr1.address, "SERIAL001")).to.equal(12500);
+
+            await ethers.provider.send("evm_increaseTime", [180 * DAY]);
+            await ethers.provider.send("evm_mine", []);
+            expect(await ig3Staking.getRewardMultiplier(addr1.address, "SERIAL001")).to.equal(10000);
+        });
+
+        it("Should weight the reward multiplier against the minimum stake", async () => {
+            await ig3Staking.setMinimumStake(ethers.parseEther("100"));
+
+            // A dust lock does not boost the device
+            await ig3Staking.connect(addr1).depositLocked("SERIAL001", 1, 3);
+            expect(await ig3Staking.getRewardMultiplier(addr1.address, "SERIAL001")).to.equal(10000);
+
+            // Locks covering half of the minimum stake get half of the boost
+            await ig3Staking.connect(addr1).depositLocked("SERIAL002", ethers.parseEther("50"), 3);
+            expect(await ig3Staking.getRewardMultiplier(addr1.address, "SERIAL002")).to.equal(12500);
+
+            // Above the minimum stake, the multiplier is weighted by the balance
+            await ig3Staking.connect(addr1).depositLocked("SERIAL002", ethers.parseEther("150"), 3);
+            expect(await ig3Staking.getRewardMultiplier(addr1.address, "SERIAL002")).to.equal(15000);
+        });
+
+        it("Should drop locks on emergency withdrawal", async () => {
+            await ig3Staking.setLockTier(4, 180 * DAY, 20000);
+            await ig3Staking.connect(addr1).depositLocked("SERIAL001", ethers.parseEther("100"), 4);
+            await ig3Staking.connect(pauser).pause();
+            await ig3Staking.setEmergencyMode(true);
+            await ig3Staking.connect(addr1).emergencyWithdraw(["SERIAL001"], []);
+            await ig3Staking.connect(pauser).unpause();
+
+            await ig3Staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("50"));
+            expect(await ig3Staking.getStakeLocks(addr1.address, "SERIAL001")).to.be.empty;
+            expect(await ig3Staking.getLockedStake(addr1.address, "SERIAL001")).to.equal(0);
+            expect(await ig3Staking.getRewardMultiplier(addr1.address, "SERIAL001")).to.equal(10000);
+        });
+
+        it("Should shrink locks a slash leaves uncovered, latest lock first", async () => {
+            const [, , , , , slasher] = await ethers.getSigners();
+            await ig3Staking.grantRole(await ig3Staking.SLASHER_ROLE(), slasher.address);
+            await ig3Staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("20"));
+            await ig3Staking.connect(addr1).depositLocked("SERIAL001", ethers.parseEther("50"), 1);
+            await ig3Staking.connect(addr1).depositLocked("SERIAL001", ethers.parseEther("30"), 3);
+
+            // 20 unlocked and 10 of the latest lock are left uncovered
+            await ig3Staking.connect(slasher).slash(addr1.address, "SERIAL001", ethers.parseEther("30"));
+            let locks = await ig3Staking.getStakeLocks(addr1.address, "SERIAL001");
+            expect(locks.map((lock: any) => lock.amount)).to.deep.equal([ethers.parseEther("50"), ethers.parseEther("20")]);
+            expect(await ig3Staking.getLockedStake(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("70"));
+
+            await ig3Staking.connect(slasher).slash(addr1.address, "SERIAL001", ethers.parseEther("70"));
+            expect(await ig3Staking.getStakeLocks(addr1.address, "SERIAL001")).to.be.empty;
+
+            // New stake is not locked by the slashed locks
+            await ig3Staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("50"));
+            expect(await ig3Staking.getLockedStake(addr1.address, "SERIAL001")).to.equal(0);
+            expect(await ig3Staking.getRewardMultiplier(addr1.address, "SERIAL001")).to.equal(10000);
+        });
+    });
+
+    describe("Stake Transfers", () => {
+        beforeEach(async () => {
+            await topsToken.mint(addr1.address, ethers.parseEther("1000"));
+            await topsToken.connect(addr1).approve(ig3Staking.target, ethers.parseEther("1000"));
+            await ig3Staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("100"));
+        });
+
+        it("Should move stake between devices of the caller", async () => {
+            await expect(ig3Staking.connect(addr1).moveStake("SERIAL001", "SERIAL002", ethers.parseEther("40")))
+                .to.emit(ig3Staking, "StakeMoved")
+                .withArgs(addr1.address, "SERIAL001", "SERIAL002", ethers.parseEther("40"));
+
+            expect(await ig3Staking.getBalance(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("60"));
+            expect(await ig3Staking.getBalance(addr1.address, "SERIAL002")).to.equal(ethers.parseEther("40"));
+            expect(await ig3Staking.getStakedAmount(addr1.address)).to.equal(ethers.parseEther("100"));
+            expect(await ig3Staking.totalStaked()).to.equal(ethers.parseEther("100"));
+            expect(await topsToken.balanceOf(ig3Staking.target)).to.equal(ethers.parseEther("100"));
+        });
+
+        it("Should not move requested or locked stake", async () => {
+            await ig3Staking.setLockTier(1, 30 * 24 * 60 * 60, 10000);
+            await ig3Staking.connect(addr1).depositLocked("SERIAL001", ethers.parseEther("50"), 1);
+            await ig3Staking.connect(addr1).requestPartial([{ serial: "SERIAL001", balance: ethers.parseEther("70") }]);
+
+            await expect(ig3Staking.connect(addr1).moveStake("SERIAL001", "SERIAL002", ethers.parseEther("81")))
+                .to.be.revertedWith("Insufficient balance");
+            await expect(ig3Staking.connect(addr1).moveStake("SERIAL001", "SERIAL002", ethers.parseEther("31")))
+                .to.be.revertedWith("Stake is locked");
+            await ig3Staking.connect(addr1).moveStake("SERIAL001", "SERIAL002", ethers.parseEther("30"));
+            expect(await ig3Staking.getRequestedAmount(addr1.address)).to.equal(ethers.parseEther("70"));
+        });
+
+        it("Should reject invalid moves", async () => {
+            await expect(ig3Staking.connect(addr1).moveStake("SERIAL001", "SERIAL001", 1))
+                .to.be.revertedWith("Same device");
+            await expect(ig3Staking.connect(addr1).moveStake("SERIAL001", "SERIAL002", 0))
+                .to.be.revertedWith("Amount must be greater than 0");
+        });
+
+        it("Should transfer the stake of a device to another wallet", async () => {
+            await expect(ig3Staking.connect(addr1).transferStake("SERIAL001", addr2.address))
+                .to.emit(ig3Staking, "StakeTransferred")
+                .withArgs(addr1.address, addr2.address, "SERIAL001", ethers.parseEther("100"));
+
+            expect(await ig3Staking.getBalance(addr1.address, "SERIAL001")).to.equal(0);
+            expect(await ig3Staking.getBalance(addr2.address, "SERIAL001")).to.equal(ethers.parseEther("100"));
+            expect(await ig3Staking.getStakedAmount(addr2.address)).to.equal(ethers.parseEther("100"));
+            expect(await ig3Staking.totalStaked()).to.equal(ethers.parseEther("100"));
+        });
+
+        it("Should keep pending requests with the sender", async () => {
+            await ig3Staking.connect(addr1).requestPartial([{ serial: "SERIAL001", balance: ethers.parseEther("30") }]);
+            await ig3Staking.connect(addr1).transferStake("SERIAL001", addr2.address);
+
+            expect(await ig3Staking.getBalance(addr2.address, "SERIAL001")).to.equal(ethers.parseEther("70"));
+            await ethers.provider.send("evm_increaseTime", [7 * 24 * 60 * 60]);
+            const [requestId] = await ig3Staking.getWithdrawRequestIds(addr1.address);
+            await expect(ig3Staking.connect(addr1).withdraw(requestId))
+                .to.emit(ig3Staking, "Withdrawn")
+                .withArgs(requestId, addr1.address, ethers.parseEther("30"), [["SERIAL001", ethers.parseEther("30")]]);
+        });
+
+        it("Should transfer locks with the stake", async () => {
+            await ig3Staking.setLockTier(1, 30 * 24 * 60 * 60, 12000);
+            await ig3Staking.connect(addr1).depositLocked("SERIAL001", ethers.parseEther("100"), 1);
+            await ig3Staking.connect(addr1).transferStake("SERIAL001", addr2.address);
+
+            expect(await ig3Staking.getStakeLocks(addr1.address, "SERIAL001")).to.be.empty;
+            expect(await ig3Staking.getLockedStake(addr2.address, "SERIAL001")).to.equal(ethers.parseEther("100"));
+            expect(await ig3Staking.getRewardMultiplier(addr2.address, "SERIAL001")).to.equal(11000);
+        });
+
+        it("Should require the receiver to own the device when a registry is set", async () => {
+            const registryFactory = await ethers.getContractFactory("IG3DeviceRegistry");
+            const deviceRegistry: any = await upgrades.deployProxy(
+                registryFactory,
+                [owner.address, pauser.address, upgrader.address, owner.address],
+                { initializer: "initialize" }
+            );
+            await deviceRegistry.register("SERIAL001", addr1.address);
+            await ig3Staking.proposeRegistryAddress(await deviceRegistry.getAddress());
+            await executeConfigChange(ConfigParameter.RegistryAddress);
+
+            await expect(ig3Staking.connect(addr1).transferStake("SERIAL001", addr2.address))
+                .to.be.revertedWith("Not device owner");
+            await deviceRegistry.adminTransfer("SERIAL001", addr2.address);
+            await ig3Staking.connect(addr1).transferStake("SERIAL001", addr2.address);
+            await expect(ig3Staking.connect(addr2).moveStake("SERIAL001", "SERIAL002", 1))
+                .to.be.revertedWith("Not device owner");
+        });
+
+        it("Should reject invalid transfers", async () => {
+            await expect(ig3Staking.connect(addr1).transferStake("SERIAL001", addr1.address))
+                .to.be.revertedWith("Invalid receiver");
+            await expect(ig3Staking.connect(addr1).transferStake("SERIAL001", ethers.ZeroAddress))
+                .to.be.revertedWith("Invalid receiver");
+            await expect(ig3Staking.connect(addr2).transferStake("SERIAL001", addr1.address))
+                .to.be.revertedWith("Insufficient balance");
+        });
+
+        it("Should not move or transfer stake while paused", async () => {
+            await ig3Staking.connect(pauser).pause();
+            await expect(ig3Staking.connect(addr1).moveStake("SERIAL001", "SERIAL002", 1))
+                .to.be.revertedWith("Pausable: paused");
+            await expect(ig3Staking.connect(addr1).transferStake("SERIAL001", addr2.address))
+                .to.be.revertedWith("Pausable: paused");
+        });
+    });
+
+    describe("Sponsored Deposits", () => {
+        let sponsor: any;
+
+        const requestIdOf = async (tx: any) => {
+            const log = (await tx.wait()).logs.map((log: any) => ig3Staking.interface.parseLog(log)).find((log: any) => log?.name === "WithdrawRequested");
+            return log.args.requestId;
+        };
+
+        const fundSponsors = async (count: number) => {
+            const sponsors: any[] = [];
+            for (let i = 0; i < count; i++) {
+                const wallet = ethers.Wallet.createRandom().connect(ethers.provider);
+                await owner.sendTransaction({ to: wallet.address, value: ethers.parseEther("1") });
+                await topsToken.mint(wallet.address, ethers.parseEther("1"));
+                await topsToken.connect(wallet).approve(ig3Staking.target, ethers.parseEther("1"));
+                sponsors.push(wallet);
+            }
+            return sponsors;
+        };
+
+        beforeEach(async () => {
+            [, , , , , sponsor] = await ethers.getSigners();
+            await topsToken.mint(sponsor.address, ethers.parseEther("1000"));
+            await topsToken.connect(sponsor).approve(ig3Staking.target, ethers.parseEther("1000"));
+            await topsToken.mint(addr1.address, ethers.parseEther("1000"));
+            await topsToken.connect(addr1).approve(ig3Staking.target, ethers.parseEther("1000"));
+        });
+
+        it("Should credit stake deposited for another wallet", async () => {
+            await expect(ig3Staking.connect(sponsor).depositFor(addr1.address, "SERIAL001", ethers.parseEther("100"), false))
+                .to.emit(ig3Staking, "DepositedFor")
+                .withArgs(sponsor.address, addr1.address, "SERIAL001", ethers.parseEther("100"), false)
+                .and.to.emit(ig3Staking, "Deposited")
+                .withArgs(addr1.address, "SERIAL001", ethers.parseEther("100"));
+
+            expect(await ig3Staking.getBalance(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("100"));
+            expect(await ig3Staking.getSponsoredStake(addr1.address, "SERIAL001")).to.equal(0);
+            const account = await ig3Staking.getSponsorAccount(sponsor.address);
+            expect(account.deposited).to.equal(ethers.parseEther("100"));
+            expect(account.outstanding).to.equal(0);
+            expect(await topsToken.balanceOf(sponsor.address)).to.equal(ethers.parseEther("900"));
+        });
+
+        it("Should deposit for multiple wallets", async () => {
+            await ig3Staking.connect(sponsor).bulkDepositFor([
+                { wallet: addr1.address, serial: "SERIAL001", amount: ethers.parseEther("100") },
+                { wallet: addr2.address, serial: "SERIAL002", amount: ethers.parseEther("200") }
+            ], true);
+
+            expect(await ig3Staking.getBalance(addr2.address, "SERIAL002")).to.equal(ethers.parseEther("200"));
+            expect(await ig3Staking.getSponsorships(addr2.address, "SERIAL002")).to.deep.equal([[sponsor.address, ethers.parseEther("200")]]);
+            expect((await ig3Staking.getSponsorAccount(sponsor.address)).outstanding).to.equal(ethers.parseEther("300"));
+        });
+
+        it("Should reject invalid deposits for another wallet", async () => {
+            await expect(ig3Staking.connect(sponsor).depositFor(ethers.ZeroAddress, "SERIAL001", 1, true))
+                .to.be.revertedWith("Wallet cannot be 0");
+            await expect(ig3Staking.connect(sponsor).depositFor(addr1.address, "SERIAL001", 0, true))
+                .to.be.revertedWith("Amount must be greater than 0");
+        });
+
+        it("Should pay sponsored stake back to the sponsor on withdraw", async () => {
+            await ig3Staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("50"));
+            await ig3Staking.connect(sponsor).depositFor(addr1.address, "SERIAL001", ethers.parseEther("100"), true);
+
+            // Own stake is requested first
+            const ownRequestId = await requestIdOf(await ig3Staking.connect(addr1).requestPartial([{ serial: "SERIAL001", balance: ethers.parseEther("30") }]));
+            expect(await ig3Staking.getRequestSponsorships(ownRequestId)).to.be.empty;
+
+            const requestId = await requestIdOf(await ig3Staking.connect(addr1).request(["SERIAL001"]));
+            expect(await ig3Staking.getRequestSponsorships(requestId)).to.deep.equal([[sponsor.address, "SERIAL001", ethers.parseEther("100")]]);
+            expect(await ig3Staking.getSponsoredStake(addr1.address, "SERIAL001")).to.equal(0);
+
+            await ethers.provider.send("evm_increaseTime", [7 * 24 * 60 * 60]);
+            await expect(ig3Staking.connect(addr1).withdraw(requestId))
+                .to.emit(ig3Staking, "SponsoredStakeReturned")
+                .withArgs(sponsor.address, addr1.address, "SERIAL001", ethers.parseEther("100"));
+
+            expect(await topsToken.balanceOf(sponsor.address)).to.equal(ethers.parseEther("1000"));
+            expect(await topsToken.balanceOf(addr1.address)).to.equal(ethers.parseEther("970"));
+            const account = await ig3Staking.getSponsorAccount(sponsor.address);
+            expect(account.outstanding).to.equal(0);
+            expect(account.returned).to.equal(ethers.parseEther("100"));
+        });
+
+        it("Should restore sponsorships when a request is canceled", async () => {
+            await ig3Staking.connect(sponsor).depositFor(addr1.address, "SERIAL001", ethers.parseEther("100"), true);
+            const requestId = await requestIdOf(await ig3Staking.connect(addr1).request(["SERIAL001"]));
+            await ig3Staking.connect(addr1).cancel(requestId);
+
+            expect(await ig3Staking.getSponsoredStake(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("100"));
+            expect(await ig3Staking.getRequestSponsorships(requestId)).to.be.empty;
+        });
+
+        it("Should not move sponsored stake to another device", async () => {
+            await ig3Staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("50"));
+            await ig3Staking.connect(sponsor).depositFor(addr1.address, "SERIAL001", ethers.parseEther("100"), true);
+
+            await expect(ig3Staking.connect(addr1).moveStake("SERIAL001", "SERIAL002", ethers.parseEther("51")))
+                .to.be.revertedWith("Stake is sponsored");
+            await ig3Staking.connect(addr1).moveStake("SERIAL001", "SERIAL002", ethers.parseEther("50"));
+        });
+
+        it("Should keep sponsorships when the device stake is transferred", async () => {
+            await ig3Staking.connect(sponsor).depositFor(addr1.address, "SERIAL001", ethers.parseEther("100"), true);
+            await ig3Staking.connect(addr1).transferStake("SERIAL001", addr2.address);
+
+            expect(await ig3Staking.getSponsoredStake(addr1.address, "SERIAL001")).to.equal(0);
+            expect(await ig3Staking.getSponsoredStake(addr2.address, "SERIAL001")).to.equal(ethers.parseEther("100"));
+        });
+
+        it("Should slash own stake before sponsored stake", async () => {
+            await ig3Staking.grantRole(await ig3Staking.SLASHER_ROLE(), owner.address);
+            await ig3Staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("50"));
+            await ig3Staking.connect(sponsor).depositFor(addr1.address, "SERIAL001", ethers.parseEther("100"), true);
+
+            await ig3Staking.slash(addr1.address, "SERIAL001", ethers.parseEther("50"));
+            expect(await ig3Staking.getSponsoredStake(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("100"));
+
+            await expect(ig3Staking.slash(addr1.address, "SERIAL001", ethers.parseEther("40")))
+                .to.emit(ig3Staking, "SponsoredStakeSlashed")
+                .withArgs(sponsor.address, addr1.address, "SERIAL001", ethers.parseEther("40"));
+            expect(await ig3Staking.getSponsoredStake(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("60"));
+            expect((await ig3Staking.getSponsorAccount(sponsor.address)).outstanding).to.equal(ethers.parseEther("60"));
+        });
+
+        it("Should pay back only what is left of a slashed request", async () => {
+            await ig3Staking.grantRole(await ig3Staking.SLASHER_ROLE(), owner.address);
+            await ig3Staking.connect(sponsor).depositFor(addr1.address, "SERIAL001", ethers.parseEther("100"), true);
+            const requestId = await requestIdOf(await ig3Staking.connect(addr1).request(["SERIAL001"]));
+            await ig3Staking.slash(addr1.address, "SERIAL001", ethers.parseEther("30"));
+
+            await ethers.provider.send("evm_increaseTime", [7 * 24 * 60 * 60]);
+            await expect(ig3Staking.connect(addr1).withdraw(requestId))
+                .to.emit(ig3Staking, "SponsoredStakeSlashed")
+                .withArgs(sponsor.address, addr1.address, "SERIAL001", ethers.parseEther("30"));
+
+            expect(await topsToken.balanceOf(sponsor.address)).to.equal(ethers.parseEther("970"));
+            expect(await topsToken.balanceOf(addr1.address)).to.equal(ethers.parseEther("1000"));
+            expect((await ig3Staking.getSponsorAccount(sponsor.address)).outstanding).to.equal(0);
+        });
+
+        it("Should pay sponsors back on emergency withdrawal", async () => {
+            await ig3Staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("50"));
+            await ig3Staking.connect(sponsor).depositFor(addr1.address, "SERIAL001", ethers.parseEther("100"), true);
+            await ig3Staking.connect(sponsor).depositFor(addr1.address, "SERIAL002", ethers.parseEther("100"), true);
+            await ig3Staking.connect(addr1).request(["SERIAL002"]);
+
+            await ig3Staking.connect(pauser).pause();
+            await ig3Staking.setEmergencyMode(true);
+            await ig3Staking.connect(addr1).emergencyWithdraw(["SERIAL001"], [...await ig3Staking.getWithdrawRequestIds(addr1.address)]);
+
+            expect(await topsToken.balanceOf(sponsor.address)).to.equal(ethers.parseEther("1000"));
+            expect(await topsToken.balanceOf(addr1.address)).to.equal(ethers.parseEther("1000"));
+            expect(await topsToken.balanceOf(ig3Staking.target)).to.equal(0);
+        });
+
+        it("Should add repeated deposits of a sponsor to its sponsorship", async () => {
+            const [other] = await fundSponsors(1);
+            for (let i = 0; i < 3; i++) {
+                await ig3Staking.connect(sponsor).depositFor(addr1.address, "SERIAL001", 1, true);
+                await ig3Staking.connect(other).depositFor(addr1.address, "SERIAL001", 1, true);
+            }
+
+            expect(await ig3Staking.getSponsorships(addr1.address, "SERIAL001")).to.deep.equal([[sponsor.address, 3n], [other.address, 3n]]);
+            expect(await ig3Staking.getSponsoredStake(addr1.address, "SERIAL001")).to.equal(6);
+        });
+
+        it("Should cap sponsors per device", async () => {
+            const maxSponsors = Number(await ig3Staking.MAX_DEVICE_SPONSORS());
+            const sponsors = await fundSponsors(maxSponsors);
+            for (const wallet of sponsors) {
+                await ig3Staking.connect(wallet).depositFor(addr1.address, "SERIAL001", 1, true);
+            }
+
+            await expect(ig3Staking.connect(sponsor).depositFor(addr1.address, "SERIAL001", 1, true))
+                .to.be.revertedWith("Too many sponsors");
+            // Existing sponsors and stake not returned to the sponsor are still accepted
+            await ig3Staking.connect(sponsors[0]).depositFor(addr1.address, "SERIAL001", 1, true);
+            await ig3Staking.connect(sponsor).depositFor(addr1.address, "SERIAL001", 1, false);
+            await ig3Staking.connect(sponsor).depositFor(addr1.address, "SERIAL002", 1, true);
+            expect(await ig3Staking.getSponsorships(addr1.address, "SERIAL001")).to.have.lengthOf(maxSponsors);
+        });
+
+        it("Should request, transfer and withdraw a device with the most sponsors within the block gas limit", async () => {
+            const maxSponsors = Number(await ig3Staking.MAX_DEVICE_SPONSORS());
+            for (const wallet of await fundSponsors(maxSponsors)) {
+                await ig3Staking.connect(wallet).depositFor(addr1.address, "SERIAL001", 1, true);
+            }
+            const { gasLimit } = (await ethers.provider.getBlock("latest"))!;
+
+            const transfer = await (await ig3Staking.connect(addr1).transferStake("SERIAL001", addr2.address)).wait();
+            expect(transfer.gasUsed).to.be.lessThan(gasLimit / 2n);
+
+            const requestTx = await ig3Staking.connect(addr2).request(["SERIAL001"]);
+            expect((await requestTx.wait()).gasUsed).to.be.lessThan(gasLimit / 2n);
+            const requestId = await requestIdOf(requestTx);
+            expect(await ig3Staking.getRequestSponsorships(requestId)).to.have.lengthOf(maxSponsors);
+
+            await ethers.provider.send("evm_increaseTime", [7 * 24 * 60 * 60]);
+            const withdrawal = await (await ig3Staking.connect(addr2).withdraw(requestId)).wait();
+            expect(withdrawal.gasUsed).to.be.lessThan(gasLimit / 2n);
+            expect(await topsToken.balanceOf(ig3Staking.target)).to.equal(0);
+        });
+    });
+
+    describe("Permit and Meta Transactions", () => {
+        let forwarder: any;
+
+        const signPermit = async (signer: any, value: bigint, deadline: number) => {
+            const { chainId } = await ethers.provider.getNetwork();
+            const domain = { name: "TOPS", version: "1", chainId, verifyingContract: topsToken.target };
+            const types = {
+                Permit: [
+                    { name: "owner", type: "address" },
+                    { name: "spender", type: "address" },
+                    { name: "value", type: "uint256" },
+                    { name: "nonce", type: "uint256" },
+                    { name: "deadline", type: "uint256" },
+                ],
+            };
+            const message = { owner: signer.address, spender: ig3Staking.target, value, nonce: await topsToken.nonces(signer.address), deadline };
+            return ethers.Signature.from(await signer.signTypedData(domain, types, message));
+        };
+
+        const relay = async (signer: any, data: string) => {
+            const request = await buildForwardRequest(forwarder, signer, ig3Staking.target, data);
+            const signature = await signForwardRequest(forwarder, signer, request);
+            return forwarder.connect(addr2).execute(request, signature);
+        };
+
+        beforeEach(async () => {
+            const forwarderFactory = await ethers.getContractFactory("IG3Forwarder");
+            forwarder = await forwarderFactory.deploy();
+            await ig3Staking.proposeTrustedForwarder(forwarder.target);
+            await executeConfigChange(ConfigParameter.TrustedForwarder);
+            await topsToken.mint(addr1.address, ethers.parseEther("1000"));
+        });
+
+        it("Should set trusted forwarder", async () => {
+            await ig3Staking.proposeTrustedForwarder(addr2.address);
+            await expect(executeConfigChange(ConfigParameter.TrustedForwarder))
+                .to.emit(ig3Staking, "TrustedForwarderChanged")
+                .withArgs(addr2.address);
+            expect(await ig3Staking.trustedForwarder()).to.equal(addr2.address);
+            expect(await ig3Staking.isTrustedForwarder(addr2.address)).to.be.true;
+            expect(await ig3Staking.isTrustedForwarder(forwarder.target)).to.be.false;
+        });
+
+        it("Should only allow admin to set trusted forwarder", async () => {
+            await expect(ig3Staking.connect(addr1).proposeTrustedForwarder(addr1.address))
+                .to.be.revertedWith(/AccessControl: account .* is missing role .*/);
+        });
+
+        it("Should deposit with permit without prior approval", async () => {
+            const deadline = (await ethers.provider.getBlock("latest"))!.timestamp + 3600;
+            const sig = await signPermit(addr1, ethers.parseEther("100"), deadline);
+
+            await expect(ig3Staking.connect(addr1).depositWithPermit("SERIAL001", ethers.parseEther("100"), deadline, sig.v, sig.r, sig.s))
+                .to.emit(ig3Staking, "Deposited")
+                .withArgs(addr1.address, "SERIAL001", ethers.parseEther("100"));
+
+            expect(await ig3Staking.getBalance(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("100"));
+            expect(await topsToken.allowance(addr1.address, ig3Staking.target)).to.equal(0);
+        });
+
+        it("Should deposit with an already used permit when allowance is set", async () => {
+            const deadline = (await ethers.provider.getBlock("latest"))!.timestamp + 3600;
+            const sig = await signPermit(addr1, ethers.parseEther("100"), deadline);
+            // Permit front-run by someone else
+            await topsToken.connect(addr2).permit(addr1.address, ig3Staking.target, ethers.parseEther("100"), deadline, sig.v, sig.r, sig.s);
+
+            await ig3Staking.connect(addr1).depositWithPermit("SERIAL001", ethers.parseEther("100"), deadline, sig.v, sig.r, sig.s);
+            expect(await ig3Staking.getBalance(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("100"));
+        });
+
+        it("Should revert deposit with an invalid permit and no allowance", async () => {
+            const deadline = (await ethers.provider.getBlock("latest"))!.timestamp + 3600;
+            const sig = await signPermit(addr2, ethers.parseEther("100"), deadline);
+
+            await expect(ig3Staking.connect(addr1).depositWithPermit("SERIAL001", ethers.parseEther("100"), deadline, sig.v, sig.r, sig.s))
+                .to.be.revertedWith("ERC20: insufficient allowance");
+        });
+
+        it("Should deposit, request and withdraw through the forwarder on behalf of the signer", async () => {
+            await topsToken.connect(addr1).approve(ig3Staking.target, ethers.parseEther("100"));
+
+            const depositData = ig3Staking.interface.encodeFunctionData("deposit", ["SERIAL001", ethers.parseEther("100")]);
+            await expect(relay(addr1, depositData))
+                .to.emit(ig3Staking, "Deposited")
+                .withArgs(addr1.address, "SERIAL001", ethers.parseEther("100"));
+            expect(await ig3Staking.getBalance(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("100"));
+            expect(await ig3Staking.getBalance(addr2.address, "SERIAL001")).to.equal(0);
+
+            await relay(addr1, ig3Staking.interface.encodeFunctionData("request", [["SERIAL001"]]));
+            const [requestId] = await ig3Staking.getWithdrawRequestIds(addr1.address);
+            const request = await ig3Staking.getWithdrawRequest(addr1.address, requestId);
+            expect(request.amount).to.equal(ethers.parseEther("100"));
+
+            await ethers.provider.send("evm_setNextBlockTimestamp", [Number(request.timestamp)]);
+            await ethers.provider.send("evm_mine", []);
+
+            await expect(relay(addr1, ig3Staking.interface.encodeFunctionData("withdraw", [requestId])))
+                .to.emit(ig3Staking, "Withdrawn")
+                .withArgs(requestId, addr1.address, ethers.parseEther("100"), [["SERIAL001", ethers.parseEther("100")]]);
+            expect(await topsToken.balanceOf(addr1.address)).to.equal(ethers.parseEther("1000"));
+        });
+
+        it("Should bubble up the revert reason of a relayed call", async () => {
+            const data = ig3Staking.interface.encodeFunctionData("deposit", ["SERIAL001", 0]);
+            await expect(relay(addr1, data)).to.be.revertedWith("Amount must be greater than 0");
+        });
+
+        it("Should ignore appended sender when forwarder is not trusted", async () => {
+            await topsToken.connect(addr1).approve(ig3Staking.target, ethers.parseEther("100"));
+            await ig3Staking.proposeTrustedForwarder(ethers.ZeroAddress);
+            await executeConfigChange(ConfigParameter.TrustedForwarder);
+
+            const data = ig3Staking.interface.encodeFunctionData("deposit", ["SERIAL001", ethers.parseEther("100")]);
+            // The forwarder itself is the sender and holds no tokens
+            await expect(relay(addr1, data)).to.be.revertedWith("ERC20: insufficient allowance");
+        });
+    });
+
+    describe("Stake Checkpoints", () => {
+        const blockOf = async (tx: any) => (await tx.wait()).blockNumber;
+
+        beforeEach(async () => {
+            await topsToken.mint(addr1.address, ethers.parseEther("1000"));
+            await topsToken.connect(addr1).approve(ig3Staking.target, ethers.parseEther("1000"));
+        });
+
+        it("Should checkpoint stake on deposit, request and cancel", async () => {
+            const depositBlock = await blockOf(await ig3Staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("400")));
+            const requestTx = await ig3Staking.connect(addr1).request(["SERIAL001"]);
+            const requestBlock = await blockOf(requestTx);
+            const [requestId] = await ig3Staking.getWithdrawRequestIds(addr1.address);
+            const cancelBlock = await blockOf(await ig3Staking.connect(addr1).cancel(requestId));
+            await ethers.provider.send("evm_mine", []);
+
+            expect(await ig3Staking.getPastStake(addr1.address, depositBlock - 1)).to.equal(0);
+            expect(await ig3Staking.getPastStake(addr1.address, depositBlock)).to.equal(ethers.parseEther("400"));
+            expect(await ig3Staking.getPastStake(addr1.address, requestBlock)).to.equal(0);
+            expect(await ig3Staking.getPastStake(addr1.address, cancelBlock)).to.equal(ethers.parseEther("400"));
+            expect(await ig3Staking.getPastTotalStake(requestBlock)).to.equal(0);
+            expect(await ig3Staking.getPastTotalStake(cancelBlock)).to.equal(ethers.parseEther("400"));
+        });
+
+        it("Should count liquid and staked TOPS as voting power", async () => {
+            await topsToken.connect(addr1).delegate(addr1.address);
+            const depositBlock = await blockOf(await ig3Staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("300")));
+            const requestBlock = await blockOf(await ig3Staking.connect(addr1).requestPartial([
+                { serial: "SERIAL001", balance: ethers.parseEther("100") },
+            ]));
+            await ethers.provider.send("evm_mine", []);
+
+            const votingPower = async (blockNumber: number) =>
+                await topsToken.getPastVotes(addr1.address, blockNumber) + await ig3Staking.getPastStake(addr1.address, blockNumber);
+
+            expect(await topsToken.getPastVotes(addr1.address, depositBlock)).to.equal(ethers.parseEther("700"));
+            expect(await votingPower(depositBlock)).to.equal(ethers.parseEther("1000"));
+            // Stake in a pending withdrawal request carries no voting power
+            expect(await votingPower(requestBlock)).to.equal(ethers.parseEther("900"));
+        });
+
+        it("Should move checkpointed stake with transferred stake", async () => {
+            await ig3Staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("250"));
+            const transferBlock = await blockOf(await ig3Staking.connect(addr1).transferStake("SERIAL001", addr2.address));
+            await ethers.provider.send("evm_mine", []);
+
+            expect(await ig3Staking.getPastStake(addr1.address, transferBlock)).to.equal(0);
+            expect(await ig3Staking.getPastStake(addr2.address, transferBlock)).to.equal(ethers.parseEther("250"));
+            expect(await ig3Staking.getPastTotalStake(transferBlock)).to.equal(ethers.parseEther("250"));
+        });
+
+        it("Should only seed checkpoints of wallets without any", async () => {
+            const depositBlock = await blockOf(await ig3Staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("250")));
+            await ig3Staking.checkpointStake([addr1.address, addr2.address]);
+            await ethers.provider.send("evm_mine", []);
+
+            expect(await ig3Staking.getPastStake(addr1.address, depositBlock)).to.equal(ethers.parseEther("250"));
+            expect(await ig3Staking.getPastStake(addr1.address, depositBlock + 1)).to.equal(ethers.parseEther("250"));
+            expect(await ig3Staking.getPastStake(addr2.address, depositBlock + 1)).to.equal(0);
+        });
+
+        it("Should revert lookups of the current block", async () => {
+            const blockNumber = await ethers.provider.getBlockNumber();
+            await expect(ig3Staking.getPastStake(addr1.address, blockNumber + 1))
+                .to.be.revertedWith("Future lookup");
+            await expect(ig3Staking.getPastTotalStake(blockNumber + 1))
+                .to.be.revertedWith("Future lookup");
+        });
+    });
+
+    describe("Upgrade from bytes9 keys", () => {
+        let legacyStaking: any;
+
+        beforeEach(async () => {
+            const legacyFactory = await ethers.getContractFactory("IG3StakingV1");
+            legacyStaking = await upgrades.deployProxy(
+                legacyFactory,
+                [owner.address, pauser.address, upgrader.address, await topsToken.getAddress()],
+                { initializer: "initialize" }
+            );
+            await legacyStaking.waitForDeployment();
+
+            await topsToken.mint(addr1.address, ethers.parseEther("1000"));
+            await topsToken.connect(addr1).approve(await legacyStaking.getAddress(), ethers.parseEther("1000"));
+        });
+
+        const upgrade = async (): Promise<any> => {
+            const factory = await ethers.getContractFactory("IG3Staking", upgrader);
+            return upgrades.upgradeProxy(await legacyStaking.getAddress(), factory, { constructorArgs: await deployModules(ethers, "IG3Staking") });
+        };
+
+        it("Should preserve short serial balances", async () => {
+            await legacyStaking.connect(addr1).deposit("SERIAL01", ethers.parseEther("100"));
+
+            const upgraded = await upgrade();
+
+            expect(await upgraded.getBalance(addr1.address, "SERIAL01")).to.equal(ethers.parseEther("100"));
+            await expect(upgraded.connect(addr1).deposit("SERIAL01", ethers.parseEther("50")))
+                .to.emit(upgraded, "LegacyBalanceMigrated")
+                .withArgs(addr1.address, "SERIAL01", ethers.parseEther("100"));
+            expect(await upgraded.getBalance(addr1.address, "SERIAL01")).to.equal(ethers.parseEther("150"));
+            expect(await upgraded.getStakedAmount(addr1.address)).to.equal(ethers.parseEther("150"));
+            expect(await upgraded.totalStaked()).to.equal(ethers.parseEther("150"));
+        });
+
+        it("Should hand a collided legacy balance to the first serial touched", async () => {
+            // Both serials were credited to the same truncated key before the upgrade
+            await legacyStaking.connect(addr1).deposit("SERIAL0001", ethers.parseEther("100"));
+            await legacyStaking.connect(addr1).deposit("SERIAL0002", ethers.parseEther("200"));
+
+            const upgraded = await upgrade();
+            await upgraded.connect(addr1).deposit("SERIAL0001", ethers.parseEther("10"));
+            await upgraded.connect(addr1).deposit("SERIAL0002", ethers.parseEther("20"));
+
+            expect(await upgraded.getBalance(addr1.address, "SERIAL0001")).to.equal(ethers.parseEther("310"));
+            expect(await upgraded.getBalance(addr1.address, "SERIAL0002")).to.equal(ethers.parseEther("20"));
+        });
+
+        it("Should withdraw a request created before the upgrade", async () => {
+            await legacyStaking.connect(addr1).deposit("SERIAL01", ethers.parseEther("100"));
+            await legacyStaking.connect(addr1).request(["SERIAL01"]);
+            const request = await legacyStaking.withdrawRequests(addr1.address);
+
+            const upgraded = await upgrade();
+            expect(await upgraded.getWithdrawRequestIds(addr1.address)).to.deep.equal([request.id]);
+            await ethers.provider.send("evm_setNextBlockTimestamp", [parseInt(request.timestamp.toString())]);
+            await ethers.provider.send("evm_mine", []);
+
+            await expect(upgraded.connect(addr1).withdraw(request.id))
+                .to.emit(upgraded, "Withdrawn")
+                .withArgs(request.id, addr1.address, ethers.parseEther("100"), [["SERIAL01\0", ethers.parseEther("100")]]);
+            expect(await topsToken.balanceOf(addr1.address)).to.equal(ethers.parseEther("1000"));
+        });
+
+        it("Should slash a request created before the upgrade", async () => {
+            await legacyStaking.connect(addr1).deposit("SERIAL01", ethers.parseEther("100"));
+            await legacyStaking.connect(addr1).request(["SERIAL01"]);
+            const legacyRequest = await legacyStaking.withdrawRequests(addr1.address);
+
+            const upgraded = await upgrade();
+            await upgraded.connect(owner).grantRole(await upgraded.SLASHER_ROLE(), owner.address);
+            await upgraded.connect(owner).setSlashTreasury(owner.address);
+            await upgraded.connect(owner).slash(addr1.address, "SERIAL01", ethers.parseEther("40"));
+
+            expect((await upgraded.getWithdrawRequest(addr1.address, legacyRequest.id)).amount).to.equal(ethers.parseEther("60"));
+            expect(await upgraded.getDeviceStake(addr1.address, "SERIAL01")).to.equal(ethers.parseEther("60"));
+            expect(await topsToken.balanceOf(owner.address)).to.equal(ethers.parseEther("40"));
+        });
+
+        it("Should emergency withdraw legacy balances and requests", async () => {
+            await legacyStaking.connect(addr1).deposit("SERIAL01", ethers.parseEther("100"));
+            await legacyStaking.connect(addr1).deposit("SERIAL02", ethers.parseEther("50"));
+            await legacyStaking.connect(addr1).request(["SERIAL02"]);
+
+            const upgraded = await upgrade();
+            await upgraded.connect(pauser).pause();
+            await upgraded.connect(owner).setEmergencyMode(true);
+            await upgraded.connect(addr1).emergencyWithdraw(["SERIAL01"], [...await upgraded.getWithdrawRequestIds(addr1.address)]);
+
+            expect(await topsToken.balanceOf(addr1.address)).to.equal(ethers.parseEther("1000"));
+            expect(await upgraded.getBalance(addr1.address, "SERIAL01")).to.equal(0);
+            expect(await upgraded.getWithdrawRequestIds(addr1.address)).to.be.empty;
+        });
+
+        it("Should cancel a request created before the upgrade", async () => {
+            await legacyStaking.connect(addr1).deposit("SERIAL01", ethers.parseEther("100"));
+            await legacyStaking.connect(addr1).request(["SERIAL01"]);
+            const legacyRequest = await legacyStaking.withdrawRequests(addr1.address);
+
+            const upgraded = await upgrade();
+            await upgraded.connect(addr1).cancel(legacyRequest.id);
+
+            expect(await upgraded.getWithdrawRequestIds(addr1.address)).to.be.empty;
+            expect(await upgraded.getBalance(addr1.address, "SERIAL01")).to.equal(ethers.parseEther("100"));
+            await upgraded.connect(addr1).request(["SERIAL01"]);
+            const [requestId] = await upgraded.getWithdrawRequestIds(addr1.address);
+            expect(requestId).to.equal(legacyRequest.id + 1n);
+            expect((await upgraded.getWithdrawRequest(addr1.address, requestId)).amount).to.equal(ethers.parseEther("100"));
+            expect(await upgraded.getBalance(addr1.address, "SERIAL01")).to.equal(0);
+        });
+
+        it("Should give upgraded proxies the minimum config delay", async () => {
+            const factory = await ethers.getContractFactory("IG3Staking", upgrader);
+            const upgraded: any = await upgrades.upgradeProxy(await legacyStaking.getAddress(), factory, {
+                call: { fn: "initializeConfigDelay" },
+                constructorArgs: await deployModules(ethers, "IG3Staking"),
+            });
+
+            expect(await upgraded.configDelay()).to.equal(24 * 60 * 60);
+            await expect(upgraded.initializeConfigDelay())
+                .to.be.revertedWith("Initializable: contract is already initialized");
+        });
+    });
 }); 
\ No newline at end of file
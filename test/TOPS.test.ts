@@ -6,12 +6,14 @@ describe("TOPS Token", () => {
     let owner: any;
     let addr1: any;
     let addr2: any;
+    let upgrader: any;
+    let snapshotId: string;
 
     before(async () => {
-        [owner, addr1, addr2] = await ethers.getSigners();
+        [owner, addr1, addr2, upgrader] = await ethers.getSigners();
 
         const topsTokenFactory = await ethers.getContractFactory("TOPS");
-        topsToken = await upgrades.deployProxy(topsTokenFactory, { initializer: "initialize" });
+        topsToken = await upgrades.deployProxy(topsTokenFactory, [owner.address, ethers.ZeroAddress, upgrader.address], { initializer: "initialize" });
     });
 
     describe("Basic Token Properties", () => {
@@ -44,6 +46,24 @@ describe("TOPS Token", () => {
             expect(await topsToken.hasRole(defaultAdminRole, owner.address)).to.be.true;
         });
 
+        it("Should grant initial roles to the given accounts only", async () => {
+            const [, , , , deployer, admin, minter] = await ethers.getSigners();
+            const topsTokenFactory = await ethers.getContractFactory("TOPS", deployer);
+            const token: any = await upgrades.deployProxy(topsTokenFactory, [admin.address, minter.address, upgrader.address], { initializer: "initialize" });
+
+            expect(await token.hasRole(await token.DEFAULT_ADMIN_ROLE(), admin.address)).to.be.true;
+            expect(await token.hasRole(await token.PAUSER_ROLE(), admin.address)).to.be.true;
+            expect(await token.hasRole(await token.MINTER_ROLE(), minter.address)).to.be.true;
+            expect(await token.hasRole(await token.UPGRADER_ROLE(), upgrader.address)).to.be.true;
+            expect(await token.getRoleMemberCount(await token.DEFAULT_ADMIN_ROLE())).to.equal(1);
+            expect(await token.hasRole(await token.DEFAULT_ADMIN_ROLE(), deployer.address)).to.be.false;
+        });
+
+        it("Should not initialize twice", async () => {
+            await expect(topsToken.initialize(addr1.address, addr1.address, addr1.address))
+                .to.be.revertedWith("Initializable: contract is already initialized");
+        });
+
         it("Should grant minter role", async () => {
             const minterRole = await topsToken.MINTER_ROLE();
             await topsToken.grantRole(minterRole, addr1.address);
@@ -241,6 +261,290 @@ describe("TOPS Token", () => {
         });
     });
 
+    describe("Permit", () => {
+        const signPermit = async (token: any, signer: any, spender: string, value: bigint, deadline: number) => {
+            const { chainId } = await ethers.provider.getNetwork();
+            const domain = {
+                name: await token.name(),
+                version: "1",
+                chainId,
+                verifyingContract: await token.getAddress(),
+            };
+            const types = {
+                Permit: [
+                    { name: "owner", type: "address" },
+                    { name: "spender", type: "address" },
+                    { name: "value", type: "uint256" },
+                    { name: "nonce", type: "uint256" },
+                    { name: "deadline", type: "uint256" },
+                ],
+            };
+            const message = {
+                owner: signer.address,
+                spender,
+                value,
+                nonce: await token.nonces(signer.address),
+                deadline,
+            };
+            return ethers.Signature.from(await signer.signTypedData(domain, types, message));
+        };
+
+        const latestTimestamp = async () => (await ethers.provider.getBlock("latest"))!.timestamp;
+
+        it("Should approve spending with a signed permit", async () => {
+            const deadline = await latestTimestamp() + 3600;
+            const sig = await signPermit(topsToken, addr1, addr2.address, 400n, deadline);
+
+            await expect(topsToken.connect(addr2).permit(addr1.address, addr2.address, 400, deadline, sig.v, sig.r, sig.s))
+                .to.emit(topsToken, "Approval")
+                .withArgs(addr1.address, addr2.address, 400);
+            expect(await topsToken.allowance(addr1.address, addr2.address)).to.equal(400);
+            expect(await topsToken.nonces(addr1.address)).to.equal(1);
+        });
+
+        it("Should fail to reuse a permit signature", async () => {
+            const deadline = await latestTimestamp() + 3600;
+            const sig = await signPermit(topsToken, addr1, addr2.address, 100n, deadline);
+            await topsToken.permit(addr1.address, addr2.address, 100, deadline, sig.v, sig.r, sig.s);
+
+            await expect(topsToken.permit(addr1.address, addr2.address, 100, deadline, sig.v, sig.r, sig.s))
+                .to.be.revertedWith("ERC20Permit: invalid signature");
+        });
+
+        it("Should fail with an expired permit", async () => {
+            const deadline = await latestTimestamp() - 1;
+            const sig = await signPermit(topsToken, addr1, addr2.address, 100n, deadline);
+
+            await expect(topsToken.permit(addr1.address, addr2.address, 100, deadline, sig.v, sig.r, sig.s))
+                .to.be.revertedWith("ERC20Permit: expired deadline");
+        });
+
+        it("Should enable permit when upgrading an existing token", async () => {
+            const topsV1Factory = await ethers.getContractFactory("TOPSV1");
+            const tokenV1: any = await upgrades.deployProxy(topsV1Factory, { initializer: "initialize" });
+            await tokenV1.grantRole(await tokenV1.MINTER_ROLE(), owner.address);
+            await tokenV1.mint(addr1.address, 1000);
+
+            const topsFactory = await ethers.getContractFactory("TOPS");
+            const token: any = await upgrades.upgradeProxy(await tokenV1.getAddress(), topsFactory, {
+                call: { fn: "initializePermit" },
+                kind: "transparent",
+            });
+            expect(await token.balanceOf(addr1.address)).to.equal(1000);
+
+            const deadline = await latestTimestamp() + 3600;
+            const sig = await signPermit(token, addr1, addr2.address, 250n, deadline);
+            await token.permit(addr1.address, addr2.address, 250, deadline, sig.v, sig.r, sig.s);
+            await token.connect(addr2).transferFrom(addr1.address, addr2.address, 250);
+            expect(await token.balanceOf(addr2.address)).to.equal(250);
+
+            await expect(token.initializePermit())
+                .to.be.revertedWith("Initializable: contract is already initialized");
+        });
+    });
+
+    describe("Pausing", () => {
+        beforeEach(async () => {
+            snapshotId = await ethers.provider.send("evm_snapshot", []);
+            await topsToken.grantRole(await topsToken.MINTER_ROLE(), owner.address);
+            await topsToken.mint(addr1.address, 1000);
+        });
+
+        afterEach(async () => {
+            await ethers.provider.send("evm_revert", [snapshotId]);
+        });
+
+        it("Should block transfers, minting and burning while paused", async () => {
+            await expect(topsToken.pause())
+                .to.emit(topsToken, "Paused")
+                .withArgs(owner.address);
+
+            await expect(topsToken.connect(addr1).transfer(addr2.address, 100))
+                .to.be.revertedWith("ERC20Pausable: token transfer while paused");
+            await expect(topsToken.mint(addr1.address, 100))
+                .to.be.revertedWith("ERC20Pausable: token transfer while paused");
+            await expect(topsToken.connect(addr1).burn(100))
+                .to.be.revertedWith("ERC20Pausable: token transfer while paused");
+        });
+
+        it("Should keep approvals working while paused", async () => {
+            await topsToken.pause();
+            await topsToken.connect(addr1).approve(addr2.address, 100);
+            expect(await topsToken.allowance(addr1.address, addr2.address)).to.equal(100);
+        });
+
+        it("Should resume transfers after unpause", async () => {
+            await topsToken.pause();
+            await topsToken.unpause();
+
+            const initialBalance = await topsToken.balanceOf(addr2.address);
+            await topsToken.connect(addr1).transfer(addr2.address, 100);
+            expect(await topsToken.balanceOf(addr2.address)).to.equal(initialBalance + BigInt(100));
+        });
+
+        it("Should only allow pauser to pause", async () => {
+            await expect(topsToken.connect(addr1).pause())
+                .to.be.revertedWith(/AccessControl: account .* is missing role .*/);
+        });
+    });
+
+    describe("Votes", () => {
+        const blockOf = async (tx: any) => (await tx.wait()).blockNumber;
+
+        beforeEach(async () => {
+            snapshotId = await ethers.provider.send("evm_snapshot", []);
+            await topsToken.grantRole(await topsToken.MINTER_ROLE(), owner.address);
+            await topsToken.mint(addr1.address, 1000);
+        });
+
+        afterEach(async () => {
+            await ethers.provider.send("evm_revert", [snapshotId]);
+        });
+
+        it("Should have no voting power before delegating", async () => {
+            expect(await topsToken.getVotes(addr1.address)).to.equal(0);
+            expect(await topsToken.delegates(addr1.address)).to.equal(ethers.ZeroAddress);
+        });
+
+        it("Should delegate voting power of the whole balance", async () => {
+            const balance = await topsToken.balanceOf(addr1.address);
+            await expect(topsToken.connect(addr1).delegate(addr2.address))
+                .to.emit(topsToken, "DelegateChanged")
+                .withArgs(addr1.address, ethers.ZeroAddress, addr2.address);
+
+            expect(await topsToken.delegates(addr1.address)).to.equal(addr2.address);
+            expect(await topsToken.getVotes(addr2.address)).to.equal(balance);
+        });
+
+        it("Should checkpoint voting power on transfers", async () => {
+            const balance = await topsToken.balanceOf(addr1.address);
+            const delegateBlock = await blockOf(await topsToken.connect(addr1).delegate(addr1.address));
+            const transferBlock = await blockOf(await topsToken.connect(addr1).transfer(addr2.address, 400));
+            await ethers.provider.send("evm_mine", []);
+
+            expect(await topsToken.getPastVotes(addr1.address, delegateBlock - 1)).to.equal(0);
+            expect(await topsToken.getPastVotes(addr1.address, delegateBlock)).to.equal(balance);
+            expect(await topsToken.getPastVotes(addr1.address, transferBlock)).to.equal(balance - BigInt(400));
+            // addr2 has not delegated, so received tokens carry no votes
+            expect(await topsToken.getPastVotes(addr2.address, transferBlock)).to.equal(0);
+        });
+
+        it("Should checkpoint total supply on mint and burn", async () => {
+            const supply = await topsToken.totalSupply();
+            const mintBlock = await blockOf(await topsToken.mint(addr2.address, 500));
+            const burnBlock = await blockOf(await topsToken.connect(addr2).burn(200));
+            await ethers.provider.send("evm_mine", []);
+
+            expect(await topsToken.getPastTotalSupply(mintBlock)).to.equal(supply + BigInt(500));
+            expect(await topsToken.getPastTotalSupply(burnBlock)).to.equal(supply + BigInt(300));
+        });
+
+        it("Should delegate with a signature", async () => {
+            const balance = await topsToken.balanceOf(addr1.address);
+            const { chainId } = await ethers.provider.getNetwork();
+            const domain = { name: "TOPS", version: "1", chainId, verifyingContract: topsToken.target };
+            const types = {
+                Delegation: [
+                    { name: "delegatee", type: "address" },
+                    { name: "nonce", type: "uint256" },
+                    { name: "expiry", type: "uint256" },
+                ],
+            };
+            const expiry = (await ethers.provider.getBlock("latest"))!.timestamp + 3600;
+            const nonce = await topsToken.nonces(addr1.address);
+            const sig = ethers.Signature.from(await addr1.signTypedData(domain, types, { delegatee: addr2.address, nonce, expiry }));
+
+            await topsToken.delegateBySig(addr2.address, nonce, expiry, sig.v, sig.r, sig.s);
+            expect(await topsToken.getVotes(addr2.address)).to.equal(balance);
+        });
+
+        it("Should checkpoint the existing supply when upgrading a token without votes", async () => {
+            const topsV1Factory = await ethers.getContractFactory("TOPSV1");
+            const tokenV1: any = await upgrades.deployProxy(topsV1Factory, { initializer: "initialize" });
+            await tokenV1.grantRole(await tokenV1.MINTER_ROLE(), owner.address);
+            await tokenV1.mint(addr1.address, 1000);
+
+            const topsFactory = await ethers.getContractFactory("TOPS");
+            const token: any = await upgrades.upgradeProxy(await tokenV1.getAddress(), topsFactory, {
+                call: { fn: "initializeVotes" },
+                kind: "transparent",
+            });
+            const upgradeBlock = await ethers.provider.getBlockNumber();
+            const burnBlock = await blockOf(await token.connect(addr1).burn(10));
+            await ethers.provider.send("evm_mine", []);
+
+            expect(await token.getPastTotalSupply(upgradeBlock - 1)).to.equal(0);
+            expect(await token.getPastTotalSupply(upgradeBlock)).to.equal(1000);
+            expect(await token.getPastTotalSupply(burnBlock)).to.equal(990);
+            expect(await token.totalSupply()).to.equal(990);
+
+            // Delegated votes start from the balances held after the upgrade
+            await token.connect(addr1).delegate(addr1.address);
+            expect(await token.getVotes(addr1.address)).to.equal(990);
+
+            await expect(token.initializeVotes())
+                .to.be.revertedWith("Initializable: contract is already initialized");
+        });
+
+        it("Should leave checkpoints of tokens deployed with votes unchanged", async () => {
+            const supply = await topsToken.totalSupply();
+            await topsToken.initializeVotes();
+            const blockNumber = await ethers.provider.getBlockNumber();
+            await ethers.provider.send("evm_mine", []);
+
+            expect(await topsToken.getPastTotalSupply(blockNumber)).to.equal(supply);
+            await topsToken.connect(addr1).burn(100);
+            expect(await topsToken.totalSupply()).to.equal(supply - BigInt(100));
+        });
+
+        it("Should revert lookups of the current block", async () => {
+            const blockNumber = await ethers.provider.getBlockNumber();
+            await expect(topsToken.getPastVotes(addr1.address, blockNumber + 1))
+                .to.be.revertedWith("ERC20Votes: future lookup");
+        });
+    });
+
+    describe("Upgrades", () => {
+        beforeEach(async () => {
+            snapshotId = await ethers.provider.send("evm_snapshot", []);
+        });
+
+        afterEach(async () => {
+            await ethers.provider.send("evm_revert", [snapshotId]);
+        });
+
+        it("Should upgrade with the upgrader role and keep state", async () => {
+            await topsToken.grantRole(await topsToken.MINTER_ROLE(), owner.address);
+            await topsToken.mint(addr1.address, 1000);
+            await topsToken.connect(addr1).approve(addr2.address, 400);
+            const balance = await topsToken.balanceOf(addr1.address);
+
+            const factory = await ethers.getContractFactory("TOPSUpgradeMock", upgrader);
+            const upgraded: any = await upgrades.upgradeProxy(topsToken.target, factory, { call: { fn: "initializeUpgrade" } });
+
+            expect(await upgraded.upgradeVersion()).to.equal(4);
+            expect(await upgraded.balanceOf(addr1.address)).to.equal(balance);
+            expect(await upgraded.allowance(addr1.address, addr2.address)).to.equal(400);
+            expect(await upgraded.hasRole(await upgraded.DEFAULT_ADMIN_ROLE(), owner.address)).to.be.true;
+            expect(await upgraded.cap()).to.equal(ethers.parseUnits("10000000000", 18));
+        });
+
+        it("Should not upgrade without the upgrader role", async () => {
+            const factory = await ethers.getContractFactory("TOPSUpgradeMock", addr1);
+            await expect(upgrades.upgradeProxy(topsToken.target, factory, { call: { fn: "initializeUpgrade" } }))
+                .to.be.revertedWith(/AccessControl: account .* is missing role .*/);
+        });
+
+        it("Should keep the paused state across an upgrade", async () => {
+            await topsToken.pause();
+
+            const factory = await ethers.getContractFactory("TOPSUpgradeMock", upgrader);
+            const upgraded: any = await upgrades.upgradeProxy(topsToken.target, factory, { call: { fn: "initializeUpgrade" } });
+
+            expect(await upgraded.paused()).to.be.true;
+        });
+    });
+
     describe("Max Supply Tests", () => {
         beforeEach(async () => {
             await topsToken.grantRole(await topsToken.MINTER_ROLE(), owner.address);
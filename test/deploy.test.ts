@@ -0,0 +1,167 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+describe("Deploy Task", () => {
+    let owner: any;
+    let rewardWallet: any;
+    let manifestPath: string;
+    let snapshotId: string;
+
+    // Timelocked wiring is left pending by the first run and executed by a re-run after the config delay
+    const deployAndWire = async (args: any) => {
+        await hre.run("deploy", args);
+        await ethers.provider.send("evm_increaseTime", [24 * 60 * 60]);
+        await ethers.provider.send("evm_mine", []);
+        return hre.run("deploy", args);
+    };
+
+    before(async () => {
+        [owner, , , rewardWallet] = await ethers.getSigners();
+    });
+
+    beforeEach(async () => {
+        snapshotId = await ethers.provider.send("evm_snapshot", []);
+        manifestPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "tops-deploy-")), "hardhat.json");
+    });
+
+    afterEach(async () => {
+        await ethers.provider.send("evm_revert", [snapshotId]);
+    });
+
+    it("Should deploy and wire the full stack", async () => {
+        const manifest = await deployAndWire({ rewardWallet: rewardWallet.address, manifest: manifestPath, quiet: true });
+
+        const { TOPS, IG3DeviceRegistry, IG3Staking, IG3Reward } = manifest.contracts;
+        const topsToken = await ethers.getContractAt("TOPS", TOPS.proxy);
+        const ig3Staking = await ethers.getContractAt("IG3Staking", IG3Staking.proxy);
+        const ig3Reward = await ethers.getContractAt("IG3Reward", IG3Reward.proxy);
+
+        expect(await topsToken.hasRole(await topsToken.DEFAULT_ADMIN_ROLE(), owner.address)).to.be.true;
+        expect(await topsToken.hasRole(await topsToken.UPGRADER_ROLE(), owner.address)).to.be.true;
+        expect(await ig3Staking.tokenAddress()).to.equal(TOPS.proxy);
+        expect(await ig3Reward.tokenAddress()).to.equal(TOPS.proxy);
+        expect(await ig3Reward.stakingAddress()).to.equal(IG3Staking.proxy);
+        expect(await ig3Staking.registryAddress()).to.equal(IG3DeviceRegistry.proxy);
+        expect(await ig3Reward.registryAddress()).to.equal(IG3DeviceRegistry.proxy);
+        expect(await ig3Staking.hasRole(await ig3Staking.REINVEST_ROLE(), IG3Reward.proxy)).to.be.true;
+        expect(await ig3Reward.getRewardWallet()).to.equal(rewardWallet.address);
+
+        expect(JSON.parse(fs.readFileSync(manifestPath, "utf8"))).to.deep.equal(manifest);
+    });
+
+    it("Should reuse recorded deployments on re-run", async () => {
+        const first = await hre.run("deploy", { rewardWallet: rewardWallet.address, manifest: manifestPath, quiet: true });
+        const blockNumber = await ethers.provider.getBlockNumber();
+
+        const second = await hre.run("deploy", { rewardWallet: rewardWallet.address, manifest: manifestPath, quiet: true });
+
+        expect(second.contracts).to.deep.equal(first.contracts);
+        expect(await ethers.provider.getBlockNumber()).to.equal(blockNumber);
+    });
+
+    it("Should only send the missing wiring on re-run", async () => {
+        const first = await hre.run("deploy", { rewardWallet: rewardWallet.address, manifest: manifestPath, quiet: true });
+        const ig3Staking = await ethers.getContractAt("IG3Staking", first.contracts.IG3Staking.proxy);
+        await ig3Staking.revokeRole(await ig3Staking.REINVEST_ROLE(), first.contracts.IG3Reward.proxy);
+
+        const second = await hre.run("deploy", { rewardWallet: rewardWallet.address, manifest: manifestPath, quiet: true });
+
+        expect(second.contracts).to.deep.equal(first.contracts);
+        expect(await ig3Staking.hasRole(await ig3Staking.REINVEST_ROLE(), first.contracts.IG3Reward.proxy)).to.be.true;
+    });
+
+    it("Should leave timelocked changes pending until their delay is over", async () => {
+        const first = await hre.run("deploy", { rewardWallet: rewardWallet.address, manifest: manifestPath, quiet: true });
+        const ig3Staking = await ethers.getContractAt("IG3Staking", first.contracts.IG3Staking.proxy);
+        const ig3Reward = await ethers.getContractAt("IG3Reward", first.contracts.IG3Reward.proxy);
+        expect(await ig3Reward.getRewardWallet()).to.equal(ethers.ZeroAddress);
+        expect(await ig3Staking.registryAddress()).to.equal(ethers.ZeroAddress);
+        expect((await ig3Reward.getPendingConfigChange(3)).value).to.equal(BigInt(rewardWallet.address)); // ConfigParameter.RewardWallet
+
+        await ethers.provider.send("evm_increaseTime", [24 * 60 * 60 - 60]);
+        await ethers.provider.send("evm_mine", []);
+        await hre.run("deploy", { rewardWallet: owner.address, manifest: manifestPath, quiet: true });
+        expect(await ig3Reward.getRewardWallet()).to.equal(ethers.ZeroAddress);
+        expect((await ig3Reward.getPendingConfigChange(3)).value).to.equal(BigInt(owner.address));
+
+        await ethers.provider.send("evm_increaseTime", [24 * 60 * 60]);
+        await ethers.provider.send("evm_mine", []);
+        await hre.run("deploy", { rewardWallet: owner.address, manifest: manifestPath, quiet: true });
+        expect(await ig3Reward.getRewardWallet()).to.equal(owner.address);
+        expect(await ig3Staking.registryAddress()).to.equal(first.contracts.IG3DeviceRegistry.proxy);
+    });
+
+    it("Should hand admin roles over to the given admin once wired", async () => {
+        const [, admin] = await ethers.getSigners();
+        const first = await hre.run("deploy", { admin: admin.address, manifest: manifestPath, quiet: true });
+        const ig3Staking = await ethers.getContractAt("IG3Staking", first.contracts.IG3Staking.proxy);
+        expect(await ig3Staking.hasRole(await ig3Staking.DEFAULT_ADMIN_ROLE(), owner.address)).to.be.true;
+        expect(await ig3Staking.hasRole(await ig3Staking.DEFAULT_ADMIN_ROLE(), admin.address)).to.be.false;
+
+        await ethers.provider.send("evm_increaseTime", [24 * 60 * 60]);
+        await ethers.provider.send("evm_mine", []);
+        const manifest = await hre.run("deploy", { admin: admin.address, manifest: manifestPath, quiet: true });
+        const { TOPS, IG3DeviceRegistry, IG3Staking, IG3Reward } = manifest.contracts;
+        const topsToken = await ethers.getContractAt("TOPS", TOPS.proxy);
+        const ig3Reward = await ethers.getContractAt("IG3Reward", IG3Reward.proxy);
+
+        for (const [name, address] of [["TOPS", TOPS.proxy], ["IG3DeviceRegistry", IG3DeviceRegistry.proxy],
+            ["IG3Staking", IG3Staking.proxy], ["IG3Reward", IG3Reward.proxy]]) {
+            const contract: any = await ethers.getContractAt(name, address);
+            const adminRole = await contract.DEFAULT_ADMIN_ROLE();
+            expect(await contract.hasRole(adminRole, admin.address)).to.be.true;
+            expect(await contract.hasRole(adminRole, owner.address)).to.be.false;
+            expect(await contract.hasRole(await contract.UPGRADER_ROLE(), admin.address)).to.be.true;
+        }
+        expect(await topsToken.hasRole(await topsToken.PAUSER_ROLE(), admin.address)).to.be.true;
+        expect(await topsToken.hasRole(await topsToken.PAUSER_ROLE(), owner.address)).to.be.false;
+        expect(await ig3Reward.stakingAddress()).to.equal(IG3Staking.proxy);
+        expect(await ig3Reward.registryAddress()).to.equal(IG3DeviceRegistry.proxy);
+        expect(await ig3Reward.connect(admin).getRewardWallet()).to.equal(admin.address);
+
+        // Nothing is left for the deployer to send on re-run
+        const blockNumber = await ethers.provider.getBlockNumber();
+        await hre.run("deploy", { admin: admin.address, manifest: manifestPath, quiet: true });
+        expect(await ethers.provider.getBlockNumber()).to.equal(blockNumber);
+    });
+
+    it("Should grant TOPS roles to the given accounts", async () => {
+        const [, upgrader, minter] = await ethers.getSigners();
+        const manifest = await hre.run("deploy", { upgrader: upgrader.address, minter: minter.address, manifest: manifestPath, quiet: true });
+        const topsToken = await ethers.getContractAt("TOPS", manifest.contracts.TOPS.proxy);
+
+        expect(await topsToken.hasRole(await topsToken.UPGRADER_ROLE(), upgrader.address)).to.be.true;
+        expect(await topsToken.hasRole(await topsToken.UPGRADER_ROLE(), owner.address)).to.be.false;
+        expect(await topsToken.hasRole(await topsToken.MINTER_ROLE(), minter.address)).to.be.true;
+    });
+
+    it("Should set the trusted forwarder when given", async () => {
+        const forwarderFactory = await ethers.getContractFactory("IG3Forwarder");
+        const forwarder = await forwarderFactory.deploy();
+        const forwarderAddress = await forwarder.getAddress();
+
+        const manifest = await deployAndWire({ forwarder: forwarderAddress, manifest: manifestPath, quiet: true });
+        const ig3Staking = await ethers.getContractAt("IG3Staking", manifest.contracts.IG3Staking.proxy);
+        const ig3Reward = await ethers.getContractAt("IG3Reward", manifest.contracts.IG3Reward.proxy);
+
+        expect(await ig3Staking.trustedForwarder()).to.equal(forwarderAddress);
+        expect(await ig3Reward.trustedForwarder()).to.equal(forwarderAddress);
+    });
+
+    it("Should redeploy when recorded contracts no longer exist", async () => {
+        fs.writeFileSync(manifestPath, JSON.stringify({
+            network: "hardhat",
+            chainId: 1,
+            contracts: { TOPS: { proxy: ethers.Wallet.createRandom().address, implementation: ethers.ZeroAddress } },
+        }));
+
+        const manifest = await hre.run("deploy", { manifest: manifestPath, quiet: true });
+        const topsToken = await ethers.getContractAt("TOPS", manifest.contracts.TOPS.proxy);
+
+        expect(await topsToken.symbol()).to.equal("TOPS");
+        expect(manifest.rewardWallet).to.equal(owner.address);
+    });
+});
@@ -0,0 +1,307 @@
+import { expect } from "chai";
+import hre, { ethers, upgrades } from "hardhat";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { EventIndexer, IndexerSnapshot, IndexerStore, JsonFileStore } from "../utils/eventIndexer";
+import { buildRewardMerkleTree, epochRewardClaims } from "../utils/rewardMerkleTree";
+import { deployModules } from "../utils/modules";
+
+class MemoryStore implements IndexerStore {
+    snapshot?: IndexerSnapshot;
+
+    async load() {
+        return this.snapshot && structuredClone(this.snapshot);
+    }
+
+    async save(snapshot: IndexerSnapshot) {
+        this.snapshot = structuredClone(snapshot);
+    }
+}
+
+describe("Event Indexer", () => {
+    let topsToken: any;
+    let ig3Staking: any;
+    let ig3Reward: any;
+    let owner: any;
+    let rewardWallet: any;
+    let slasher: any;
+    let addr1: any;
+    let addr2: any;
+    let startBlock: number;
+    let snapshotId: string;
+
+    const SERIALS = ["SERIAL001", "SERIAL002", "SERIAL003"];
+
+    const newIndexer = (options: { store?: IndexerStore; confirmations?: number; provider?: any } = {}) => new EventIndexer({
+        provider: options.provider ?? ethers.provider,
+        stakingAddress: ig3Staking.target,
+        rewardAddress: ig3Reward.target,
+        store: options.store ?? new MemoryStore(),
+        startBlock,
+        confirmations: options.confirmations ?? 0,
+    });
+
+    const expectMatchesContracts = async (indexer: EventIndexer) => {
+        for (const wallet of [addr1.address, addr2.address]) {
+            for (const serial of SERIALS) {
+                expect(indexer.getStake(wallet, serial)).to.equal(await ig3Staking.getBalance(wallet, serial), `stake of ${serial}`);
+                expect(indexer.getReward(wallet, serial)).to.equal(await ig3Reward.getBalance(wallet, serial), `reward of ${serial}`);
+            }
+
+            const requestIds = await ig3Staking.getWithdrawRequestIds(wallet);
+            const requests = indexer.getWithdrawRequests(wallet);
+            expect(requests.map(request => request.id)).to.deep.equal([...requestIds].sort((a, b) => (a < b ? -1 : 1)));
+            for (const request of requests) {
+                const onChain = await ig3Staking.getWithdrawRequest(wallet, request.id);
+                expect(request.amount).to.equal(onChain.amount);
+                expect(request.timestamp).to.equal(onChain.timestamp);
+                expect(request.serialBalances).to.deep.equal(onChain.serialBalances.map((entry: any) => ({ serial: entry.serial, balance: entry.balance })));
+            }
+        }
+    };
+
+    before(async () => {
+        [owner, rewardWallet, slasher, addr1, addr2] = await ethers.getSigners();
+
+        const topsTokenFactory = await ethers.getContractFactory("TOPS");
+        topsToken = await upgrades.deployProxy(topsTokenFactory, [owner.address, owner.address, owner.address], { initializer: "initialize" });
+        await topsToken.waitForDeployment();
+        startBlock = await ethers.provider.getBlockNumber();
+
+        const stakingFactory = await ethers.getContractFactory("IG3Staking");
+        ig3Staking = await upgrades.deployProxy(stakingFactory, [owner.address, owner.address, owner.address, topsToken.target], { initializer: "initialize", constructorArgs: await deployModules(ethers, "IG3Staking") });
+        await ig3Staking.waitForDeployment();
+
+        const rewardFactory = await ethers.getContractFactory("IG3Reward");
+        ig3Reward = await upgrades.deployProxy(rewardFactory, [owner.address, owner.address, owner.address, topsToken.target, ig3Staking.target], { initializer: "initialize", constructorArgs: await deployModules(ethers, "IG3Reward") });
+        await ig3Reward.waitForDeployment();
+
+        await ig3Staking.grantRole(await ig3Staking.REINVEST_ROLE(), ig3Reward.target);
+        await ig3Staking.grantRole(await ig3Staking.SLASHER_ROLE(), slasher.address);
+        await ig3Reward.proposeRewardWallet(rewardWallet.address);
+        await ethers.provider.send("evm_increaseTime", [Number(await ig3Reward.configDelay())]);
+        await ig3Reward.executeConfigChange(3);
+
+        await topsToken.mint(rewardWallet.address, ethers.parseEther("10000"));
+        await topsToken.connect(rewardWallet).approve(ig3Reward.target, ethers.parseEther("10000"));
+        for (const wallet of [addr1, addr2]) {
+            await topsToken.mint(wallet.address, ethers.parseEther("1000"));
+            await topsToken.connect(wallet).approve(ig3Staking.target, ethers.parseEther("1000"));
+        }
+    });
+
+    beforeEach(async () => {
+        snapshotId = await ethers.provider.send("evm_snapshot", []);
+    });
+
+    afterEach(async () => {
+        await ethers.provider.send("evm_revert", [snapshotId]);
+    });
+
+    it("Should rebuild stakes and pending requests", async () => {
+        await ig3Staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("300"));
+        await ig3Staking.connect(addr1).bulkDeposit([
+            { serial: "SERIAL002", amount: ethers.parseEther("200") },
+            { serial: "SERIAL003", amount: ethers.parseEther("100") }
+        ]);
+        await ig3Staking.connect(addr2).depositFor(addr1.address, "SERIAL001", ethers.parseEther("50"), true);
+
+        // Withdrawn, canceled, slashed and still pending requests
+        await ig3Staking.connect(addr1).requestPartial([{ serial: "SERIAL001", balance: ethers.parseEther("80") }]);
+        const [withdrawnId] = await ig3Staking.getWithdrawRequestIds(addr1.address);
+        await ig3Staking.connect(addr1).request(["SERIAL003"]);
+        const [, canceledId] = await ig3Staking.getWithdrawRequestIds(addr1.address);
+        await ig3Staking.connect(addr1).requestPartial([
+            { serial: "SERIAL001", balance: ethers.parseEther("20") },
+            { serial: "SERIAL002", balance: ethers.parseEther("50") }
+        ]);
+        await ig3Staking.connect(addr1).cancel(canceledId);
+        await ig3Staking.connect(slasher).slash(addr1.address, "SERIAL002", ethers.parseEther("170"));
+
+        await ig3Staking.connect(addr1).moveStake("SERIAL003", "SERIAL002", ethers.parseEther("40"));
+        await ig3Staking.connect(addr1).transferStake("SERIAL003", addr2.address);
+        await ig3Staking.connect(addr2).request(["SERIAL003"]);
+
+        const { timestamp } = await ig3Staking.getWithdrawRequest(addr1.address, withdrawnId);
+        await ethers.provider.send("evm_setNextBlockTimestamp", [Number(timestamp)]);
+        await ig3Staking.connect(addr1).withdraw(withdrawnId);
+
+        const indexer = newIndexer();
+        expect(await indexer.sync()).to.equal(await ethers.provider.getBlockNumber());
+        await expectMatchesContracts(indexer);
+        expect(indexer.getWithdrawRequests(addr1.address)).to.have.length(1);
+        expect(indexer.getWithdrawRequests(addr2.address)).to.have.length(1);
+    });
+
+    it("Should rebuild vesting reward balances and reinvested stake", async () => {
+        await ig3Reward.setVestingSchedule(1000, 100);
+        await ig3Reward.connect(addr1).setReinvestPercentage(20);
+        await ig3Reward.connect(addr1).setDeviceReinvestPercentage("SERIAL002", 50);
+
+        await ig3Reward.addRewards([
+            { wallet: addr1.address, serial: "SERIAL001", value: ethers.parseEther("100") },
+            { wallet: addr1.address, serial: "SERIAL002", value: ethers.parseEther("200") },
+            { wallet: addr2.address, serial: "SERIAL003", value: ethers.parseEther("33") }
+        ]);
+        await ethers.provider.send("evm_increaseTime", [400]);
+        await ig3Reward.addRewards([{ wallet: addr1.address, serial: "SERIAL001", value: ethers.parseEther("7") }]);
+        const tree = buildRewardMerkleTree([{ wallet: addr1.address, serial: "SERIAL001", value: ethers.parseEther("11") }]);
+        await ig3Reward.postRewardEpoch(tree.root, tree.total);
+        await ig3Reward.connect(addr1).claimEpochRewards(1, epochRewardClaims(tree, addr1.address));
+        await ethers.provider.send("evm_increaseTime", [333]);
+        await ig3Reward.connect(addr1).withdraw(["SERIAL001", "SERIAL002"]);
+        await ig3Reward.connect(addr1).clearDeviceReinvestPercentage("SERIAL002");
+
+        const indexer = newIndexer();
+        await indexer.sync();
+        await expectMatchesContracts(indexer);
+        expect(indexer.getReinvestPercentage(addr1.address)).to.equal(20);
+        expect(indexer.getReinvestPercentage(addr1.address, "SERIAL002")).to.equal(20);
+        expect(indexer.getReward(addr1.address, "SERIAL001")).to.be.greaterThan(0n);
+
+        // Once fully vested the rest can be withdrawn
+        await ethers.provider.send("evm_increaseTime", [1000]);
+        await ig3Reward.connect(addr1).withdraw(["SERIAL001"]);
+        await indexer.sync();
+        await expectMatchesContracts(indexer);
+        expect(indexer.getReward(addr1.address, "SERIAL001")).to.equal(0);
+    });
+
+    it("Should record the history of a device", async () => {
+        const deposit = await ig3Staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("100"));
+        await ig3Staking.connect(addr1).requestPartial([{ serial: "SERIAL001", balance: ethers.parseEther("40") }]);
+        await ig3Reward.addRewards([{ wallet: addr1.address, serial: "SERIAL001", value: ethers.parseEther("5") }]);
+
+        const indexer = newIndexer();
+        await indexer.sync();
+
+        const history = indexer.getHistory(addr1.address, "SERIAL001");
+        expect(history.map(entry => [entry.source, entry.event, entry.delta])).to.deep.equal([
+            ["staking", "Deposited", ethers.parseEther("100")],
+            ["staking", "WithdrawRequested", -ethers.parseEther("40")],
+            ["reward", "RewardAdded", ethers.parseEther("5")],
+        ]);
+        expect(history[0].transactionHash).to.equal(deposit.hash);
+        expect(indexer.getHistory(addr1.address, "SERIAL002")).to.be.empty;
+    });
+
+    it("Should resume from the last processed block", async () => {
+        const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "tops-indexer-")), "index.json");
+        await ig3Staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("100"));
+        await ig3Reward.addRewards([{ wallet: addr1.address, serial: "SERIAL001", value: ethers.parseEther("5") }]);
+
+        const lastBlock = await newIndexer({ store: new JsonFileStore(file) }).sync();
+
+        await ig3Staking.connect(addr1).deposit("SERIAL002", ethers.parseEther("50"));
+        await ig3Staking.connect(addr1).request(["SERIAL001"]);
+
+        const fromBlocks: number[] = [];
+        const provider = new Proxy(ethers.provider, {
+            get(target: any, property) {
+                if (property === "getLogs") {
+                    return (filter: any) => {
+                        fromBlocks.push(filter.fromBlock);
+                        return target.getLogs(filter);
+                    };
+                }
+                const value = target[property];
+                return typeof value === "function" ? value.bind(target) : value;
+            },
+        });
+        const resumed = newIndexer({ store: new JsonFileStore(file), provider });
+        await resumed.sync();
+
+        expect(fromBlocks).to.deep.equal([lastBlock + 1]);
+        expect(resumed.lastBlock).to.equal(await ethers.provider.getBlockNumber());
+        await expectMatchesContracts(resumed);
+        expect(resumed.getReward(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("5"));
+    });
+
+    it("Should scan in batches", async () => {
+        await ig3Staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("100"));
+        await ig3Staking.connect(addr1).deposit("SERIAL002", ethers.parseEther("50"));
+
+        const indexer = new EventIndexer({
+            provider: ethers.provider,
+            stakingAddress: ig3Staking.target,
+            rewardAddress: ig3Reward.target,
+            store: new MemoryStore(),
+            startBlock,
+            confirmations: 0,
+            batchSize: 3,
+        });
+        await indexer.sync();
+
+        await expectMatchesContracts(indexer);
+    });
+
+    it("Should roll back blocks dropped by a reorg", async () => {
+        const store = new MemoryStore();
+        const indexer = newIndexer({ store, confirmations: 5 });
+        await ig3Staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("100"));
+        await indexer.sync();
+
+        const forkId = await ethers.provider.send("evm_snapshot", []);
+        await ig3Staking.connect(addr1).deposit("SERIAL002", ethers.parseEther("50"));
+        await ig3Staking.connect(addr1).request(["SERIAL001"]);
+        await indexer.sync();
+        expect(indexer.getStake(addr1.address, "SERIAL002")).to.equal(ethers.parseEther("50"));
+
+        // Replace the last two blocks with a different branch
+        await ethers.provider.send("evm_revert", [forkId]);
+        await ig3Staking.connect(addr1).deposit("SERIAL003", ethers.parseEther("70"));
+        await indexer.sync();
+
+        await expectMatchesContracts(indexer);
+        expect(indexer.getStake(addr1.address, "SERIAL002")).to.equal(0);
+        expect(indexer.getHistory(addr1.address, "SERIAL002")).to.be.empty;
+        expect(indexer.getWithdrawRequests(addr1.address)).to.be.empty;
+
+        // A new instance recovers the same state from the store
+        const resumed = newIndexer({ store, confirmations: 5 });
+        await resumed.sync();
+        await expectMatchesContracts(resumed);
+    });
+
+    it("Should reject a reorg of finalized blocks", async () => {
+        const indexer = newIndexer({ confirmations: 0 });
+        const forkId = await ethers.provider.send("evm_snapshot", []);
+        await ig3Staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("100"));
+        await indexer.sync();
+
+        await ethers.provider.send("evm_revert", [forkId]);
+        await ig3Staking.connect(addr1).deposit("SERIAL002", ethers.parseEther("100"));
+
+        const error = await indexer.sync().catch((error: any) => error);
+        expect(error.message).to.contain("Reorg deeper than 0 confirmations");
+    });
+
+    it("Should index the deployment recorded in the manifest", async () => {
+        const directory = fs.mkdtempSync(path.join(os.tmpdir(), "tops-indexer-"));
+        const manifestPath = path.join(directory, "hardhat.json");
+        const storePath = path.join(directory, "hardhat.index.json");
+        const manifest = await hre.run("deploy", { minter: owner.address, manifest: manifestPath, quiet: true });
+        const token = await ethers.getContractAt("TOPS", manifest.contracts.TOPS.proxy);
+        const registry = await ethers.getContractAt("IG3DeviceRegistry", manifest.contracts.IG3DeviceRegistry.proxy);
+        const staking = await ethers.getContractAt("IG3Staking", manifest.contracts.IG3Staking.proxy);
+        await registry.register("SERIAL001", addr1.address);
+        await token.mint(addr1.address, ethers.parseEther("100"));
+        await token.connect(addr1).approve(staking.target, ethers.parseEther("100"));
+        await staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("100"));
+
+        const indexer = await hre.run("index", { manifest: manifestPath, store: storePath, confirmations: 0, quiet: true });
+
+        expect(indexer.getStake(addr1.address, "SERIAL001")).to.equal(await staking.getBalance(addr1.address, "SERIAL001"));
+        expect(JSON.parse(fs.readFileSync(storePath, "utf8")).tip.number).to.equal(await ethers.provider.getBlockNumber());
+    });
+
+    it("Should reject a store built for other contracts", async () => {
+        const store = new MemoryStore();
+        await newIndexer({ store }).sync();
+
+        const other = new EventIndexer({ provider: ethers.provider, stakingAddress: ig3Reward.target, rewardAddress: ig3Staking.target, store });
+        const error = await other.sync().catch((error: any) => error);
+        expect(error.message).to.equal("Store was built for other contracts");
+    });
+});
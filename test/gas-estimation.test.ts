@@ -1,9 +1,11 @@
 import { expect } from "chai";
 import { ethers, upgrades } from "hardhat";
+import { deployModules } from "../utils/modules";
 
 describe("Gas Estimation for addRewards", () => {
     let topsToken: any;
     let ig3Reward: any;
+    let stakingContract: any;
     let owner: any;
     let addr1: any;
     let addr2: any;
@@ -13,15 +15,15 @@ describe("Gas Estimation for addRewards", () => {
 
         // Deploy TOPS token
         const topsTokenFactory = await ethers.getContractFactory("TOPS");
-        topsToken = await upgrades.deployProxy(topsTokenFactory, { initializer: "initialize" });
+        topsToken = await upgrades.deployProxy(topsTokenFactory, [owner.address, owner.address, owner.address], { initializer: "initialize" });
         await topsToken.waitForDeployment();
 
         // Deploy IG3Staking contract for testing
         const stakingFactory = await ethers.getContractFactory("IG3Staking");
-        const stakingContract = await upgrades.deployProxy(
+        stakingContract = await upgrades.deployProxy(
             stakingFactory,
             [owner.address, owner.address, owner.address, await topsToken.getAddress()],
-            { initializer: "initialize" }
+            { initializer: "initialize", constructorArgs: await deployModules(ethers, "IG3Staking") }
         );
         await stakingContract.waitForDeployment();
 
@@ -32,7 +34,7 @@ describe("Gas Estimation for addRewards", () => {
         ig3Reward = await upgrades.deployProxy(
             ig3RewardFactory,
             [owner.address, owner.address, owner.address, topsTokenAddress, stakingAddress],
-            { initializer: "initialize" }
+            { initializer: "initialize", constructorArgs: await deployModules(ethers, "IG3Reward") }
         );
         await ig3Reward.waitForDeployment();
     });
@@ -166,4 +168,58 @@ describe("Gas Estimation for addRewards", () => {
         const difference = newReceipt.gasUsed - updateReceipt.gasUsed;
         console.log(`Difference (new vs update): ${difference.toString()} gas`);
     });
+
+    it("Should compare per-entry and aggregated reinvestment for mixed batches", async () => {
+        console.log("\n=== Mixed Reinvest Batches ===");
+
+        // The original implementation transfers and calls staking once per reinvesting entry
+        const legacyFactory = await ethers.getContractFactory("IG3RewardV1");
+        const legacyReward: any = await upgrades.deployProxy(
+            legacyFactory,
+            [owner.address, owner.address, owner.address, await topsToken.getAddress(), await stakingContract.getAddress()],
+            { initializer: "initialize" }
+        );
+        await legacyReward.waitForDeployment();
+
+        await topsToken.grantRole(await topsToken.MINTER_ROLE(), owner.address);
+        await topsToken.mint(owner.address, ethers.parseEther("1000000"));
+        await legacyReward.setRewardWallet(owner.address);
+        await ig3Reward.proposeRewardWallet(owner.address);
+        await ethers.provider.send("evm_increaseTime", [Number(await ig3Reward.configDelay())]);
+        await ig3Reward.executeConfigChange(3); // ConfigParameter.RewardWallet
+        for (const reward of [legacyReward, ig3Reward]) {
+            await topsToken.approve(reward.target, ethers.parseEther("1000000"));
+            await stakingContract.grantRole(await stakingContract.REINVEST_ROLE(), reward.target);
+        }
+
+        // Half of the entries belong to a wallet reinvesting 50%, so the reinvest overhead is
+        // measured against the same batch shape with reinvestment off
+        const measure = async (reward: any, size: number, prefix: string) => {
+            const rewards = [];
+            for (let i = 0; i < size; i++) {
+                rewards.push({
+                    wallet: i % 2 === 0 ? addr1.address : addr2.address,
+                    serial: `${prefix}${i.toString().padStart(3, '0')}`,
+                    value: ethers.parseEther("1")
+                });
+            }
+            const receipt = await (await reward.addRewards(rewards)).wait();
+            return Number(receipt.gasUsed) / size;
+        };
+
+        const sizes = [10, 25, 50];
+        for (const size of sizes) {
+            const overheads = [];
+            for (const [name, reward] of [["V1", legacyReward], ["CUR", ig3Reward]]) {
+                await reward.connect(addr1).setReinvestPercentage(0);
+                const plain = await measure(reward, size, `${name}P${size}-`);
+                await reward.connect(addr1).setReinvestPercentage(50);
+                const mixed = await measure(reward, size, `${name}M${size}-`);
+                overheads.push(mixed - plain);
+            }
+            const [before, after] = overheads;
+            console.log(`Size: ${size.toString().padStart(3)} | Reinvest gas per reward before: ${before.toFixed(0).padStart(6)} | after: ${after.toFixed(0).padStart(6)} | saved: ${(100 * (1 - after / before)).toFixed(1)}%`);
+            expect(after).to.be.lessThan(before);
+        }
+    });
 }); 
\ No newline at end of file
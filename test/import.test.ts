@@ -0,0 +1,318 @@
+import { expect } from "chai";
+import hre, { ethers, upgrades } from "hardhat";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { readResults, writeResults } from "../tasks/import";
+import { deployModules } from "../utils/modules";
+
+describe("Import Tasks", () => {
+    let topsToken: any;
+    let ig3Staking: any;
+    let ig3Reward: any;
+    let owner: any;
+    let rewardWallet: any;
+    let addr1: any;
+    let addr2: any;
+    let directory: string;
+    let snapshotId: string;
+
+    const writeCsv = (name: string, lines: string[]) => {
+        const file = path.join(directory, name);
+        fs.writeFileSync(file, lines.join("\n") + "\n");
+        return file;
+    };
+
+    const importRewards = (args: any) => hre.run("import-rewards", { contract: ig3Reward.target, quiet: true, ...args });
+    const importDeposits = (args: any) => hre.run("import-deposits", { contract: ig3Staking.target, quiet: true, ...args });
+
+    const errorOf = (promise: Promise<any>) => promise.then(() => undefined, (error: any) => error);
+
+    before(async () => {
+        [owner, rewardWallet, addr1, addr2] = await ethers.getSigners();
+
+        const topsTokenFactory = await ethers.getContractFactory("TOPS");
+        topsToken = await upgrades.deployProxy(topsTokenFactory, [owner.address, owner.address, owner.address], { initializer: "initialize" });
+        await topsToken.waitForDeployment();
+
+        const stakingFactory = await ethers.getContractFactory("IG3Staking");
+        ig3Staking = await upgrades.deployProxy(stakingFactory, [owner.address, owner.address, owner.address, topsToken.target], { initializer: "initialize", constructorArgs: await deployModules(ethers, "IG3Staking") });
+        await ig3Staking.waitForDeployment();
+
+        const rewardFactory = await ethers.getContractFactory("IG3Reward");
+        ig3Reward = await upgrades.deployProxy(rewardFactory, [owner.address, owner.address, owner.address, topsToken.target, ig3Staking.target], { initializer: "initialize", constructorArgs: await deployModules(ethers, "IG3Reward") });
+        await ig3Reward.waitForDeployment();
+
+        await ig3Staking.grantRole(await ig3Staking.REINVEST_ROLE(), ig3Reward.target);
+        await ig3Reward.proposeRewardWallet(rewardWallet.address);
+        await ethers.provider.send("evm_increaseTime", [Number(await ig3Reward.configDelay())]);
+        await ig3Reward.executeConfigChange(3); // ConfigParameter.RewardWallet
+        await topsToken.mint(rewardWallet.address, ethers.parseEther("10000"));
+        await topsToken.connect(rewardWallet).approve(ig3Reward.target, ethers.parseEther("10000"));
+    });
+
+    beforeEach(async () => {
+        snapshotId = await ethers.provider.send("evm_snapshot", []);
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), "tops-import-"));
+    });
+
+    afterEach(async () => {
+        await ethers.provider.send("evm_revert", [snapshotId]);
+    });
+
+    describe("Rewards", () => {
+        const rewardLines = () => [
+            "wallet,serial,value",
+            `${addr1.address},SERIAL001,10`,
+            `${addr1.address},SERIAL002,2.5`,
+            `${addr2.address.toLowerCase()},SERIAL003,1`,
+            `${addr2.address},SERIAL004,0.000000000000000001`,
+            `${addr1.address},SERIAL005,100`,
+        ];
+
+        it("Should add rewards in batches sized by gas estimate", async () => {
+            const file = writeCsv("rewards.csv", rewardLines());
+            const result = path.join(directory, "rewards.result.csv");
+
+            const summary = await importRewards({ file, result, maxGas: 400000, total: "113.500000000000000001" });
+
+            expect(summary.batches.length).to.be.greaterThan(1);
+            expect(summary.batches.flatMap((batch: any) => batch.rows)).to.deep.equal([2, 3, 4, 5, 6]);
+            for (const batch of summary.batches) {
+                expect(batch.gas <= 400000n).to.be.true;
+                expect((await ethers.provider.getTransactionReceipt(batch.txHash))!.status).to.equal(1);
+            }
+            expect(await ig3Reward.getBalance(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("10"));
+            expect(await ig3Reward.getBalance(addr1.address, "SERIAL002")).to.equal(ethers.parseEther("2.5"));
+            expect(await ig3Reward.getBalance(addr2.address, "SERIAL003")).to.equal(ethers.parseEther("1"));
+            expect(await ig3Reward.getBalance(addr2.address, "SERIAL004")).to.equal(1);
+
+            const results = await readResults(result);
+            expect(results.map(row => row.status)).to.deep.equal(["confirmed", "confirmed", "confirmed", "confirmed", "confirmed"]);
+            expect(results[2].wallet).to.equal(addr2.address);
+            expect(results[2].value).to.equal(ethers.parseEther("1").toString());
+            for (const row of results) {
+                const batch = summary.batches.find((batch: any) => batch.rows.includes(row.row));
+                expect(row.txHash).to.equal(batch.txHash);
+            }
+        });
+
+        it("Should fit batches in the block gas limit at the default settings", async () => {
+            const wallets = Array.from({ length: 201 }, () => ethers.Wallet.createRandom().address);
+            const file = writeCsv("rewards.csv", ["wallet,serial,value", ...wallets.map(wallet => `${wallet},SERIAL001,1`)]);
+            const result = path.join(directory, "rewards.result.csv");
+            const { gasLimit } = (await ethers.provider.getBlock("latest"))!;
+
+            const summary = await importRewards({ file, result });
+
+            expect(summary.batches.length).to.be.greaterThan(1);
+            expect(summary.batches.flatMap((batch: any) => batch.rows)).to.have.lengthOf(201);
+            for (const batch of summary.batches) {
+                const tx = (await ethers.provider.getTransaction(batch.txHash))!;
+                expect(tx.gasLimit <= gasLimit).to.be.true;
+            }
+            expect((await readResults(result)).every(row => row.status === "confirmed")).to.be.true;
+            expect(await ig3Reward.getBalance(wallets[200], "SERIAL001")).to.equal(ethers.parseEther("1"));
+        });
+
+        it("Should summarize a dry run without sending transactions", async () => {
+            const file = writeCsv("rewards.csv", [...rewardLines(), `${addr1.address},SERIAL001,1`]);
+            const result = path.join(directory, "rewards.result.csv");
+            const blockNumber = await ethers.provider.getBlockNumber();
+
+            const summary = await importRewards({ file, result, dryRun: true });
+
+            expect(await ethers.provider.getBlockNumber()).to.equal(blockNumber);
+            expect(fs.existsSync(result)).to.be.false;
+            expect(summary.rows).to.equal(6);
+            expect(summary.total).to.equal(ethers.parseEther("114.500000000000000001"));
+            expect(summary.batches).to.have.length(1);
+            expect(summary.batches[0].rows).to.deep.equal([2, 3, 4, 5, 6, 7]);
+            expect(summary.batches[0].txHash).to.be.undefined;
+            expect(summary.warnings).to.deep.equal([`Row 7: ${addr1.address} / SERIAL001 is listed more than once`]);
+        });
+
+        it("Should report reverting rows on a dry run", async () => {
+            await ig3Reward.setInactiveDevicePolicy(2); // InactiveDevicePolicy.Reject
+            const file = writeCsv("rewards.csv", rewardLines());
+
+            const summary = await importRewards({ file, result: path.join(directory, "result.csv"), dryRun: true });
+
+            expect(summary.batches).to.be.empty;
+            expect(summary.errors).to.have.length(5);
+            expect(summary.errors[0]).to.equal("Row 2: Device not active");
+        });
+
+        it("Should warn when the reward funding is below the total", async () => {
+            await topsToken.connect(rewardWallet).approve(ig3Reward.target, ethers.parseEther("100"));
+            const file = writeCsv("rewards.csv", rewardLines());
+
+            const summary = await importRewards({ file, result: path.join(directory, "result.csv"), dryRun: true });
+
+            expect(summary.warnings).to.deep.equal(["Reward funding of 100.0 TOPS is below the 113.500000000000000001 TOPS to add"]);
+        });
+
+        it("Should reject invalid rows", async () => {
+            const file = writeCsv("rewards.csv", [
+                "wallet,serial,value",
+                `0x1234,SERIAL001,1`,
+                `${ethers.ZeroAddress},SERIAL002,1`,
+                `${addr1.address},,1`,
+                `${addr1.address},${"S".repeat(65)},1`,
+                `${addr1.address},SERIAL005,0`,
+                `${addr1.address},SERIAL006,abc`,
+                `${addr1.address},SERIAL007,1`,
+            ]);
+
+            const error = await errorOf(importRewards({ file, dryRun: true }));
+
+            expect(error.message).to.equal([
+                `Invalid rows in ${file}:`,
+                `Row 2: invalid wallet "0x1234"`,
+                `Row 3: invalid wallet "${ethers.ZeroAddress}"`,
+                `Row 4: serial "" must be 1 to 64 bytes`,
+                `Row 5: serial "${"S".repeat(65)}" must be 1 to 64 bytes`,
+                `Row 6: value "0" must be a number greater than 0`,
+                `Row 7: value "abc" must be a number greater than 0`,
+            ].join("\n"));
+        });
+
+        it("Should reject missing columns and a total mismatch", async () => {
+            const missing = writeCsv("missing.csv", ["wallet,serial", `${addr1.address},SERIAL001`]);
+            expect((await errorOf(importRewards({ file: missing }))).message).to.equal(`${missing} is missing columns: value`);
+
+            const file = writeCsv("rewards.csv", rewardLines());
+            const error = await errorOf(importRewards({ file, total: "113.5" }));
+            expect(error.message).to.equal("Total of 113.500000000000000001 TOPS does not match the expected 113.5 TOPS");
+        });
+
+        it("Should read values in wei", async () => {
+            const file = writeCsv("rewards.csv", ["wallet,serial,value", `${addr1.address},SERIAL001,1500`]);
+
+            await importRewards({ file, result: path.join(directory, "result.csv"), wei: true, total: "1500" });
+
+            expect(await ig3Reward.getBalance(addr1.address, "SERIAL001")).to.equal(1500);
+        });
+
+        it("Should resume a partially failed run", async () => {
+            await ig3Reward.setInactiveDevicePolicy(2); // InactiveDevicePolicy.Reject
+            await topsToken.mint(addr1.address, ethers.parseEther("10"));
+            await topsToken.connect(addr1).approve(ig3Staking.target, ethers.parseEther("10"));
+            await ig3Staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("5"));
+            await ig3Staking.connect(addr1).deposit("SERIAL002", ethers.parseEther("5"));
+            const file = writeCsv("rewards.csv", rewardLines());
+            const result = path.join(directory, "rewards.result.csv");
+
+            const error = await errorOf(importRewards({ file, result }));
+            expect(error.message).to.equal("Row 4: Device not active. Fix the row and re-run to resume");
+            const partial = await readResults(result);
+            expect(partial.map(row => row.status)).to.deep.equal(["confirmed", "confirmed", "pending", "pending", "pending"]);
+
+            await ig3Reward.setInactiveDevicePolicy(0); // InactiveDevicePolicy.Pay
+            const summary = await importRewards({ file, result });
+
+            expect(summary.completed).to.equal(2);
+            expect(summary.batches.flatMap((batch: any) => batch.rows)).to.deep.equal([4, 5, 6]);
+            expect(await ig3Reward.getBalance(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("10"));
+            expect(await ig3Reward.getBalance(addr2.address, "SERIAL003")).to.equal(ethers.parseEther("1"));
+            const results = await readResults(result);
+            expect(results.map(row => row.status)).to.deep.equal(["confirmed", "confirmed", "confirmed", "confirmed", "confirmed"]);
+            expect(results[0].txHash).to.equal(partial[0].txHash);
+        });
+
+        it("Should settle rows sent by an interrupted run from the chain", async () => {
+            const file = writeCsv("rewards.csv", rewardLines());
+            const result = path.join(directory, "rewards.result.csv");
+            await importRewards({ file, result });
+            const results = await readResults(result);
+            writeResults(result, results.map(row => ({ ...row, status: "sent" })));
+            const blockNumber = await ethers.provider.getBlockNumber();
+
+            const summary = await importRewards({ file, result });
+
+            expect(await ethers.provider.getBlockNumber()).to.equal(blockNumber);
+            expect(summary.completed).to.equal(5);
+            expect(await readResults(result)).to.deep.equal(results);
+            expect(await ig3Reward.getBalance(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("10"));
+        });
+
+        it("Should reject a result file written for another input", async () => {
+            const file = writeCsv("rewards.csv", rewardLines());
+            const result = path.join(directory, "rewards.result.csv");
+            await importRewards({ file, result });
+
+            const changed = writeCsv("changed.csv", rewardLines().map(line => line.replace("SERIAL002,2.5", "SERIAL002,3")));
+            const error = await errorOf(importRewards({ file: changed, result }));
+            expect(error.message).to.equal(`Row 3 differs from the result file ${result}, which was written for another input`);
+        });
+
+        it("Should mark rows skipped for inactive devices", async () => {
+            await ig3Reward.setInactiveDevicePolicy(1); // InactiveDevicePolicy.Skip
+            await topsToken.mint(addr1.address, ethers.parseEther("5"));
+            await topsToken.connect(addr1).approve(ig3Staking.target, ethers.parseEther("5"));
+            await ig3Staking.connect(addr1).deposit("SERIAL001", ethers.parseEther("5"));
+            const file = writeCsv("rewards.csv", rewardLines().slice(0, 3));
+            const result = path.join(directory, "rewards.result.csv");
+
+            await importRewards({ file, result });
+
+            expect((await readResults(result)).map(row => row.status)).to.deep.equal(["confirmed", "skipped"]);
+            expect(await ig3Reward.getBalance(addr1.address, "SERIAL002")).to.equal(0);
+        });
+
+        it("Should read the contract from the deployment manifest", async () => {
+            const manifest = path.join(directory, "hardhat.json");
+            fs.writeFileSync(manifest, JSON.stringify({ network: "hardhat", chainId: 1, contracts: { IG3Reward: { proxy: ig3Reward.target, implementation: ethers.ZeroAddress } } }));
+            const file = writeCsv("rewards.csv", rewardLines().slice(0, 2));
+
+            await hre.run("import-rewards", { file, manifest, result: path.join(directory, "result.csv"), quiet: true });
+
+            expect(await ig3Reward.getBalance(addr1.address, "SERIAL001")).to.equal(ethers.parseEther("10"));
+        });
+    });
+
+    describe("Deposits", () => {
+        const depositLines = ["serial,amount", "SERIAL001,100", "SERIAL002,50.5", "SERIAL003,25"];
+
+        beforeEach(async () => {
+            await topsToken.mint(owner.address, ethers.parseEther("1000"));
+        });
+
+        it("Should approve the total and bulk deposit in batches", async () => {
+            const file = writeCsv("deposits.csv", depositLines);
+            const result = path.join(directory, "deposits.result.csv");
+
+            const summary = await importDeposits({ file, result, maxGas: 450000 });
+
+            expect(summary.batches.length).to.be.greaterThan(1);
+            expect(await ig3Staking.getBalance(owner.address, "SERIAL001")).to.equal(ethers.parseEther("100"));
+            expect(await ig3Staking.getBalance(owner.address, "SERIAL002")).to.equal(ethers.parseEther("50.5"));
+            expect(await ig3Staking.getBalance(owner.address, "SERIAL003")).to.equal(ethers.parseEther("25"));
+            expect(await topsToken.allowance(owner.address, ig3Staking.target)).to.equal(0);
+            const results = await readResults(result);
+            expect(results.map(row => [row.row, row.wallet, row.serial, row.status])).to.deep.equal([
+                [2, "", "SERIAL001", "confirmed"],
+                [3, "", "SERIAL002", "confirmed"],
+                [4, "", "SERIAL003", "confirmed"],
+            ]);
+        });
+
+        it("Should report the missing approval on a dry run", async () => {
+            const file = writeCsv("deposits.csv", depositLines);
+
+            const summary = await importDeposits({ file, result: path.join(directory, "result.csv"), dryRun: true });
+
+            expect(summary.batches).to.be.empty;
+            expect(summary.warnings).to.deep.equal(["Allowance of 0.0 TOPS is below the 175.5 TOPS to deposit, the run approves it first and batches are not estimated"]);
+            expect(await topsToken.allowance(owner.address, ig3Staking.target)).to.equal(0);
+        });
+
+        it("Should reject deposits above the signer balance", async () => {
+            const file = writeCsv("deposits.csv", ["serial,amount", "SERIAL001,100000"]);
+
+            const error = await errorOf(importDeposits({ file, result: path.join(directory, "result.csv") }));
+
+            expect(error.message).to.equal("Balance of 1000.0 TOPS is below the 100000.0 TOPS to deposit");
+        });
+    });
+});
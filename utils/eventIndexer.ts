@@ -0,0 +1,575 @@
+import { getAddress, Interface, Log, LogDescription, Provider } from "ethers";
+import * as fs from "fs";
+import * as path from "path";
+
+export interface SerialBalance {
+    serial: string;
+    balance: bigint;
+}
+
+export interface IndexedWithdrawRequest {
+    id: bigint;
+    wallet: string;
+    timestamp: bigint; // unlock time
+    amount: bigint;
+    serialBalances: SerialBalance[];
+}
+
+export interface IndexedVestingGrant {
+    start: bigint;
+    cliff: bigint;
+    duration: bigint;
+    amount: bigint;
+}
+
+/**
+ * @dev Change of a device balance caused by one log, `delta` is negative when the balance went down
+ */
+export interface DeviceHistoryEntry {
+    blockNumber: number;
+    transactionHash: string;
+    logIndex: number;
+    source: "staking" | "reward";
+    event: string;
+    wallet: string;
+    serial: string;
+    delta: bigint;
+}
+
+export interface IndexerState {
+    stakes: { [wallet: string]: { [serial: string]: bigint } };
+    requests: { [requestId: string]: IndexedWithdrawRequest };
+    rewards: { [wallet: string]: { [serial: string]: bigint } };
+    vestingGrants: { [wallet: string]: { [serial: string]: IndexedVestingGrant[] } };
+    vestingSchedule: { duration: bigint; cliff: bigint };
+    reinvestPercentages: { [wallet: string]: number };
+    deviceReinvestPercentages: { [wallet: string]: { [serial: string]: number } };
+    history: DeviceHistoryEntry[];
+}
+
+export interface RawLog {
+    address: string;
+    topics: string[];
+    data: string;
+    transactionHash: string;
+    index: number;
+}
+
+/**
+ * @dev Block whose logs are indexed but could still be reorganized away
+ */
+export interface PendingBlock {
+    number: number;
+    hash: string;
+    timestamp: number;
+    logs: RawLog[];
+}
+
+export interface BlockRef {
+    number: number;
+    hash?: string; // unknown for blocks without indexed logs
+}
+
+/**
+ * @notice Everything the indexer persists: the state of finalized blocks, the logs of recent blocks
+ * and the last scanned block to resume from
+ */
+export interface IndexerSnapshot {
+    stakingAddress: string;
+    rewardAddress: string;
+    finalized: BlockRef;
+    state: IndexerState;
+    pending: PendingBlock[];
+    tip: BlockRef;
+}
+
+export interface IndexerStore {
+    load(): Promise<IndexerSnapshot | undefined>;
+    save(snapshot: IndexerSnapshot): Promise<void>;
+}
+
+export interface EventIndexerOptions {
+    provider: Provider;
+    stakingAddress: string;
+    rewardAddress: string;
+    store: IndexerStore;
+    startBlock?: number; // deployment block of the contracts
+    confirmations?: number; // blocks after which a block is no longer expected to be reorganized
+    batchSize?: number; // blocks per eth_getLogs call
+}
+
+export const stakingEvents = new Interface([
+    "event Deposited(address wallet, string serial, uint256 amount)",
+    "event WithdrawRequested(uint256 requestId, address wallet, string serial, uint256 timestamp, uint256 amount)",
+    "event WithdrawRequestCreated(uint256 requestId, address wallet, uint256 timestamp, uint256 amount)",
+    "event WithdrawRequestCanceled(uint256 requestId, address wallet, uint256 timestamp, uint256 amount, tuple(string serial, uint256 balance)[] serialBalances)",
+    "event Withdrawn(uint256 requestId, address wallet, uint256 amount, tuple(string serial, uint256 balance)[] serialBalances)",
+    "event WithdrawRequestSlashed(uint256 requestId, address wallet, string serial, uint256 amount)",
+    "event Slashed(address wallet, string serial, uint256 amount, uint256 stakedAmount, uint256 requestedAmount, address treasury)",
+    "event YieldCompounded(address wallet, string serial, uint256 amount)",
+    "event StakeMoved(address wallet, string fromSerial, string toSerial, uint256 amount)",
+    "event StakeTransferred(address from, address to, string serial, uint256 amount)",
+    "event EmergencyWithdrawn(address wallet, string[] serials, uint256[] requestIds, uint256 amount)",
+]);
+
+export const rewardEvents = new Interface([
+    "event RewardAdded(address wallet, string serial, uint256 value, uint256 reinvestAmount)",
+    "event EpochRewardClaimed(uint256 epoch, address wallet, string serial, uint256 value, uint256 reinvestAmount)",
+    "event Withdrawn(address wallet, uint256 amount, string[] serials)",
+    "event ReinvestPercentageChanged(address wallet, uint8 percentage)",
+    "event DeviceReinvestPercentageChanged(address wallet, string serial, uint8 percentage)",
+    "event DeviceReinvestPercentageCleared(address wallet, string serial)",
+    "event VestingScheduleChanged(uint64 duration, uint64 cliff)",
+]);
+
+export function emptyIndexerState(): IndexerState {
+    return {
+        stakes: {},
+        requests: {},
+        rewards: {},
+        vestingGrants: {},
+        vestingSchedule: { duration: 0n, cliff: 0n },
+        reinvestPercentages: {},
+        deviceReinvestPercentages: {},
+        history: [],
+    };
+}
+
+/**
+ * @notice Store keeping the snapshot in a JSON file, amounts are written as `{ "$bigint": "<decimal>" }`
+ */
+export class JsonFileStore implements IndexerStore {
+    constructor(readonly file: string) {}
+
+    async load(): Promise<IndexerSnapshot | undefined> {
+        if (!fs.existsSync(this.file)) {
+            return undefined;
+        }
+        return JSON.parse(fs.readFileSync(this.file, "utf8"), (_key, value) =>
+            value !== null && typeof value === "object" && typeof value.$bigint === "string" ? BigInt(value.$bigint) : value
+        );
+    }
+
+    async save(snapshot: IndexerSnapshot): Promise<void> {
+        const json = JSON.stringify(snapshot, (_key, value) =>
+            typeof value === "bigint" ? { $bigint: value.toString() } : value, 2);
+        // Write next to the store and rename, so an interrupted run never leaves a truncated file
+        fs.mkdirSync(path.dirname(this.file), { recursive: true });
+        fs.writeFileSync(`${this.file}.tmp`, json + "\n");
+        fs.renameSync(`${this.file}.tmp`, this.file);
+    }
+}
+
+/**
+ * @notice Rebuild device stakes, pending withdraw requests and reward balances of IG3Staking and IG3Reward from their logs.
+ * Blocks younger than `confirmations` are kept as raw logs so a reorg only drops and rescans them.
+ * @dev Balances held under legacy bytes9 keys by contracts upgraded from V1 are not indexed
+ */
+export class EventIndexer {
+    readonly provider: Provider;
+    readonly stakingAddress: string;
+    readonly rewardAddress: string;
+    readonly store: IndexerStore;
+    readonly startBlock: number;
+    readonly confirmations: number;
+    readonly batchSize: number;
+
+    private snapshot?: IndexerSnapshot;
+    private current?: IndexerState;
+
+    constructor(options: EventIndexerOptions) {
+        this.provider = options.provider;
+        this.stakingAddress = getAddress(options.stakingAddress);
+        this.rewardAddress = getAddress(options.rewardAddress);
+        this.store = options.store;
+        this.startBlock = options.startBlock ?? 0;
+        this.confirmations = options.confirmations ?? 12;
+        this.batchSize = options.batchSize ?? 2000;
+    }
+
+    /**
+     * @notice Last block scanned, the block before `startBlock` until the first sync
+     */
+    get lastBlock(): number {
+        return this.snapshot ? this.snapshot.tip.number : this.startBlock - 1;
+    }
+
+    /**
+     * @notice Index logs up to `toBlock` (defaults to the latest block), resuming after the last scanned block
+     * @return last scanned block
+     */
+    async sync(toBlock?: number): Promise<number> {
+        const snapshot = await this.load();
+        const head = toBlock ?? await this.provider.getBlockNumber();
+        await this.rollbackReorg(snapshot);
+
+        for (let from = snapshot.tip.number + 1; from <= head; from = snapshot.tip.number + 1) {
+            const to = Math.min(from + this.batchSize - 1, head);
+            const logs = await this.provider.getLogs({ address: [this.stakingAddress, this.rewardAddress], fromBlock: from, toBlock: to });
+            logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+            for (const log of logs) {
+                let block = snapshot.pending[snapshot.pending.length - 1];
+                if (!block || block.number !== log.blockNumber) {
+                    const { hash, timestamp } = await this.getBlock(log.blockHash);
+                    block = { number: log.blockNumber, hash, timestamp, logs: [] };
+                    snapshot.pending.push(block);
+                }
+                if (block.hash !== log.blockHash) {
+                    throw new Error(`Block ${log.blockNumber} changed while indexing, sync again`);
+                }
+                block.logs.push(rawLog(log));
+            }
+            snapshot.tip = { number: to, hash: (await this.getBlock(to)).hash };
+
+            this.finalize(snapshot, head - this.confirmations);
+            this.current = undefined;
+            await this.store.save(snapshot);
+        }
+        return snapshot.tip.number;
+    }
+
+    /**
+     * @notice Staked balance of a device, as returned by IG3Staking's getBalance
+     */
+    getStake(wallet: string, serial: string): bigint {
+        return this.state.stakes[getAddress(wallet)]?.[serial] ?? 0n;
+    }
+
+    /**
+     * @notice Devices of a wallet with their staked balance, including emptied devices
+     */
+    getStakes(wallet: string): SerialBalance[] {
+        return Object.entries(this.state.stakes[getAddress(wallet)] ?? {}).map(([serial, balance]) => ({ serial, balance }));
+    }
+
+    /**
+     * @notice Pending withdraw requests of a wallet, ordered by id
+     */
+    getWithdrawRequests(wallet: string): IndexedWithdrawRequest[] {
+        const address = getAddress(wallet);
+        return Object.values(this.state.requests)
+            .filter(request => request.wallet === address)
+            .sort((a, b) => (a.id < b.id ? -1 : 1));
+    }
+
+    /**
+     * @notice Unclaimed reward balance of a device, as returned by IG3Reward's getBalance
+     */
+    getReward(wallet: string, serial: string): bigint {
+        return this.state.rewards[getAddress(wallet)]?.[serial] ?? 0n;
+    }
+
+    /**
+     * @notice Reinvest percentage of a device, falling back to the wallet percentage
+     */
+    getReinvestPercentage(wallet: string, serial?: string): number {
+        const address = getAddress(wallet);
+        const devicePercentage = serial === undefined ? undefined : this.state.deviceReinvestPercentages[address]?.[serial];
+        return devicePercentage ?? this.state.reinvestPercentages[address] ?? 0;
+    }
+
+    /**
+     * @notice Stake and reward changes of a device in chain order
+     */
+    getHistory(wallet: string, serial: string): DeviceHistoryEntry[] {
+        const address = getAddress(wallet);
+        return this.state.history.filter(entry => entry.wallet === address && entry.serial === serial);
+    }
+
+    /**
+     * @notice State of all scanned blocks, finalized or not
+     */
+    get state(): IndexerState {
+        if (!this.snapshot) {
+            throw new Error("Indexer not synced");
+        }
+        if (!this.current) {
+            const state = structuredClone(this.snapshot.state);
+            for (const block of this.snapshot.pending) {
+                this.applyBlock(state, block);
+            }
+            this.current = state;
+        }
+        return this.current;
+    }
+
+    private async load(): Promise<IndexerSnapshot> {
+        if (this.snapshot) {
+            return this.snapshot;
+        }
+        const stored = await this.store.load();
+        if (stored && (stored.stakingAddress !== this.stakingAddress || stored.rewardAddress !== this.rewardAddress)) {
+            throw new Error("Store was built for other contracts");
+        }
+        const start = { number: this.startBlock - 1 };
+        this.snapshot = stored ?? {
+            stakingAddress: this.stakingAddress,
+            rewardAddress: this.rewardAddress,
+            finalized: start,
+            state: emptyIndexerState(),
+            pending: [],
+            tip: start,
+        };
+        return this.snapshot;
+    }
+
+    private async getBlock(blockHashOrNumber: string | number): Promise<{ hash: string; timestamp: number }> {
+        const block = await this.provider.getBlock(blockHashOrNumber);
+        if (!block || !block.hash) {
+            throw new Error(`Block ${blockHashOrNumber} not found, sync again`);
+        }
+        return { hash: block.hash, timestamp: block.timestamp };
+    }
+
+    private async isCanonical(ref: BlockRef): Promise<boolean> {
+        if (ref.hash === undefined) {
+            return true;
+        }
+        const block = await this.provider.getBlock(ref.number);
+        return block?.hash === ref.hash;
+    }
+
+    /**
+     * @dev Drop pending blocks that left the canonical chain. A block still on the chain vouches for all its ancestors,
+     * so scanning resumes after the newest pending block that is still canonical
+     */
+    private async rollbackReorg(snapshot: IndexerSnapshot) {
+        if (await this.isCanonical(snapshot.tip)) {
+            return;
+        }
+        while (snapshot.pending.length > 0) {
+            const block = snapshot.pending[snapshot.pending.length - 1];
+            if (await this.isCanonical(block)) {
+                snapshot.tip = { number: block.number, hash: block.hash };
+                break;
+            }
+            snapshot.pending.pop();
+        }
+        if (snapshot.pending.length === 0) {
+            if (!(await this.isCanonical(snapshot.finalized))) {
+                throw new Error(`Reorg deeper than ${this.confirmations} confirmations reached finalized block ${snapshot.finalized.number}, reindex from scratch`);
+            }
+            snapshot.tip = { ...snapshot.finalized };
+        }
+        this.current = undefined;
+        await this.store.save(snapshot);
+    }
+
+    /**
+     * @dev Apply the logs of pending blocks up to `blockNumber` to the finalized state
+     */
+    private finalize(snapshot: IndexerSnapshot, blockNumber: number) {
+        while (snapshot.pending.length > 0 && snapshot.pending[0].number <= blockNumber) {
+            const block = snapshot.pending.shift()!;
+            this.applyBlock(snapshot.state, block);
+            snapshot.finalized = { number: block.number, hash: block.hash };
+        }
+    }
+
+    private applyBlock(state: IndexerState, block: PendingBlock) {
+        for (const log of block.logs) {
+            const isStaking = getAddress(log.address) === this.stakingAddress;
+            const event = (isStaking ? stakingEvents : rewardEvents).parseLog(log);
+            if (!event) {
+                continue;
+            }
+            const record = (wallet: string, serial: string, delta: bigint) => state.history.push({
+                blockNumber: block.number,
+                transactionHash: log.transactionHash,
+                logIndex: log.index,
+                source: isStaking ? "staking" : "reward",
+                event: event.name,
+                wallet,
+                serial,
+                delta,
+            });
+            if (isStaking) {
+                applyStakingEvent(state, event, record);
+            } else {
+                applyRewardEvent(state, event, BigInt(block.timestamp), record);
+            }
+        }
+    }
+}
+
+type HistoryRecorder = (wallet: string, serial: string, delta: bigint) => void;
+
+function rawLog(log: Log): RawLog {
+    return { address: log.address, topics: [...log.topics], data: log.data, transactionHash: log.transactionHash, index: log.index };
+}
+
+function addBalance(balances: IndexerState["stakes"], wallet: string, serial: string, delta: bigint) {
+    balances[wallet] ??= {};
+    balances[wallet][serial] = (balances[wallet][serial] ?? 0n) + delta;
+}
+
+function applyStakingEvent(state: IndexerState, event: LogDescription, record: HistoryRecorder) {
+    const args = event.args;
+    const changeStake = (wallet: string, serial: string, delta: bigint) => {
+        addBalance(state.stakes, wallet, serial, delta);
+        record(wallet, serial, delta);
+    };
+
+    switch (event.name) {
+        case "Deposited":
+        case "YieldCompounded":
+            changeStake(args.wallet, args.serial, args.amount);
+            break;
+        case "WithdrawRequested": {
+            const id = args.requestId.toString();
+            state.requests[id] ??= { id: args.requestId, wallet: args.wallet, timestamp: args.timestamp, amount: 0n, serialBalances: [] };
+            state.requests[id].serialBalances.push({ serial: args.serial, balance: args.amount });
+            changeStake(args.wallet, args.serial, -(args.amount as bigint));
+            break;
+        }
+        case "WithdrawRequestCreated":
+            state.requests[args.requestId.toString()].amount = args.amount;
+            break;
+        case "WithdrawRequestCanceled":
+            for (const { serial, balance } of args.serialBalances) {
+                changeStake(args.wallet, serial, balance);
+            }
+            delete state.requests[args.requestId.toString()];
+            break;
+        case "Withdrawn":
+            delete state.requests[args.requestId.toString()];
+            break;
+        case "Slashed":
+            if (args.stakedAmount > 0n) {
+                changeStake(args.wallet, args.serial, -(args.stakedAmount as bigint));
+            }
+            break;
+        case "WithdrawRequestSlashed": {
+            // Mirrors IG3Staking._slashWithdrawRequest, which takes from the device entries in request order
+            const id = args.requestId.toString();
+            const request = state.requests[id];
+            if (!request) {
+                break; // created before the start block
+            }
+            let remaining: bigint = args.amount;
+            for (const serialBalance of request.serialBalances) {
+                if (serialBalance.serial === args.serial && remaining > 0n) {
+                    const take = serialBalance.balance < remaining ? serialBalance.balance : remaining;
+                    serialBalance.balance -= take;
+                    remaining -= take;
+                }
+            }
+            request.amount -= args.amount;
+            if (request.amount === 0n) {
+                delete state.requests[id];
+            }
+            break;
+        }
+        case "StakeMoved":
+            changeStake(args.wallet, args.fromSerial, -(args.amount as bigint));
+            changeStake(args.wallet, args.toSerial, args.amount);
+            break;
+        case "StakeTransferred":
+            changeStake(args.from, args.serial, -(args.amount as bigint));
+            changeStake(args.to, args.serial, args.amount);
+            break;
+        case "EmergencyWithdrawn":
+            for (const serial of args.serials) {
+                const balance = state.stakes[args.wallet]?.[serial] ?? 0n;
+                if (balance > 0n) {
+                    changeStake(args.wallet, serial, -balance);
+                }
+            }
+            for (const requestId of args.requestIds) {
+                delete state.requests[requestId.toString()];
+            }
+            break;
+    }
+}
+
+/**
+ * @dev Unvested part of a grant, matching IG3Reward's `_vestedAmount`
+ */
+function unvestedAmount(grant: IndexedVestingGrant, timestamp: bigint): bigint {
+    const elapsed = timestamp - grant.start;
+    if (elapsed >= grant.duration) {
+        return 0n;
+    }
+    if (elapsed < grant.cliff) {
+        return grant.amount;
+    }
+    return grant.amount - grant.amount * elapsed / grant.duration;
+}
+
+// Mirrors IG3Reward._addVestingGrant, which merges grants added in the same block
+function addVestingGrant(state: IndexerState, wallet: string, serial: string, amount: bigint, timestamp: bigint) {
+    const { duration, cliff } = state.vestingSchedule;
+    if (duration === 0n || amount === 0n) {
+        return;
+    }
+    state.vestingGrants[wallet] ??= {};
+    const grants = (state.vestingGrants[wallet][serial] ??= []);
+    const last = grants[grants.length - 1];
+    if (last && last.start === timestamp && last.cliff === cliff && last.duration === duration) {
+        last.amount += amount;
+    } else {
+        grants.push({ start: timestamp, cliff, duration, amount });
+    }
+}
+
+function applyRewardEvent(state: IndexerState, event: LogDescription, timestamp: bigint, record: HistoryRecorder) {
+    const args = event.args;
+
+    switch (event.name) {
+        case "RewardAdded": {
+            const amount = (args.value as bigint) - args.reinvestAmount;
+            addBalance(state.rewards, args.wallet, args.serial, amount);
+            record(args.wallet, args.serial, amount);
+            addVestingGrant(state, args.wallet, args.serial, amount, timestamp);
+            break;
+        }
+        case "EpochRewardClaimed": {
+            // Epoch claims are paid out right away unless vesting is enabled
+            if (state.vestingSchedule.duration === 0n) {
+                break;
+            }
+            const amount = (args.value as bigint) - args.reinvestAmount;
+            addBalance(state.rewards, args.wallet, args.serial, amount);
+            record(args.wallet, args.serial, amount);
+            addVestingGrant(state, args.wallet, args.serial, amount, timestamp);
+            break;
+        }
+        case "Withdrawn":
+            // Withdrawing leaves the unvested part of each listed device
+            for (const serial of args.serials) {
+                const grants = state.vestingGrants[args.wallet]?.[serial] ?? [];
+                let unvested = 0n;
+                let i = 0;
+                while (i < grants.length) {
+                    const grantUnvested = unvestedAmount(grants[i], timestamp);
+                    if (grantUnvested === 0n) {
+                        grants[i] = grants[grants.length - 1];
+                        grants.pop();
+                    } else {
+                        unvested += grantUnvested;
+                        i++;
+                    }
+                }
+                const withdrawn = (state.rewards[args.wallet]?.[serial] ?? 0n) - unvested;
+                if (withdrawn > 0n) {
+                    addBalance(state.rewards, args.wallet, serial, -withdrawn);
+                    record(args.wallet, serial, -withdrawn);
+                }
+            }
+            break;
+        case "ReinvestPercentageChanged":
+            state.reinvestPercentages[args.wallet] = Number(args.percentage);
+            break;
+        case "DeviceReinvestPercentageChanged":
+            state.deviceReinvestPercentages[args.wallet] ??= {};
+            state.deviceReinvestPercentages[args.wallet][args.serial] = Number(args.percentage);
+            break;
+        case "DeviceReinvestPercentageCleared":
+            delete state.deviceReinvestPercentages[args.wallet]?.[args.serial];
+            break;
+        case "VestingScheduleChanged":
+            state.vestingSchedule = { duration: args.duration, cliff: args.cliff };
+            break;
+    }
+}
@@ -0,0 +1,70 @@
+import { Contract, Signer, TypedDataDomain } from "ethers";
+
+export interface ForwardRequest {
+    from: string;
+    to: string;
+    value: bigint;
+    gas: bigint;
+    nonce: bigint;
+    deadline: bigint;
+    data: string;
+}
+
+/**
+ * @dev EIP-712 types of a request, matching IG3Forwarder's `_TYPEHASH`
+ */
+export const forwardRequestTypes = {
+    ForwardRequest: [
+        { name: "from", type: "address" },
+        { name: "to", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "gas", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+        { name: "data", type: "bytes" },
+    ],
+};
+
+/**
+ * @dev EIP-712 domain of a deployed IG3Forwarder
+ */
+export async function forwarderDomain(forwarder: Contract): Promise<TypedDataDomain> {
+    const { chainId } = await forwarder.runner!.provider!.getNetwork();
+    return {
+        name: "IG3Forwarder",
+        version: "1",
+        chainId,
+        verifyingContract: await forwarder.getAddress(),
+    };
+}
+
+/**
+ * @notice Build a request of `signer` calling `target` with `data`, using the signer's next forwarder nonce.
+ * The request expires `validFor` seconds after the latest block.
+ */
+export async function buildForwardRequest(
+    forwarder: Contract,
+    signer: Signer,
+    target: string,
+    data: string,
+    options: { gas?: bigint; validFor?: number } = {}
+): Promise<ForwardRequest> {
+    const from = await signer.getAddress();
+    const latest = await forwarder.runner!.provider!.getBlock("latest");
+    return {
+        from,
+        to: target,
+        value: 0n,
+        gas: options.gas ?? 1_000_000n,
+        nonce: await forwarder.getNonce(from),
+        deadline: BigInt(latest!.timestamp + (options.validFor ?? 3600)),
+        data,
+    };
+}
+
+/**
+ * @notice Sign a request with EIP-712 typed data for relaying through `forwarder`
+ */
+export async function signForwardRequest(forwarder: Contract, signer: Signer, request: ForwardRequest): Promise<string> {
+    return signer.signTypedData(await forwarderDomain(forwarder), forwardRequestTypes, request);
+}
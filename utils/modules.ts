@@ -0,0 +1,22 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+/**
+ * @dev Modules each contract delegates part of its functions to, in the order its constructor takes their addresses
+ */
+export const contractModules: { [name: string]: string[] } = {
+    IG3Staking: ["IG3StakingAdmin", "IG3StakingDeposits", "IG3StakingWithdrawals"],
+    IG3Reward: ["IG3RewardDistribution"],
+};
+
+/**
+ * @dev Deploy the modules of a contract, returning the constructor arguments of its implementation
+ */
+export async function deployModules(ethers: HardhatRuntimeEnvironment["ethers"], name: string): Promise<string[]> {
+    const addresses: string[] = [];
+    for (const module of contractModules[name] || []) {
+        const contract = await ethers.deployContract(module);
+        await contract.waitForDeployment();
+        addresses.push(await contract.getAddress());
+    }
+    return addresses;
+}
@@ -0,0 +1,97 @@
+import { AbiCoder, concat, getAddress, keccak256 } from "ethers";
+
+export interface EpochReward {
+    wallet: string;
+    serial: string;
+    value: bigint;
+}
+
+export interface EpochRewardProof extends EpochReward {
+    leaf: string;
+    proof: string[];
+}
+
+export interface RewardMerkleTree {
+    root: string;
+    total: bigint;
+    rewards: EpochRewardProof[];
+}
+
+/**
+ * @dev Leaf of a device reward, matching IG3Reward's `_epochRewardLeaf`
+ */
+export function epochRewardLeaf(reward: EpochReward): string {
+    const encoded = AbiCoder.defaultAbiCoder().encode(
+        ["address", "string", "uint256"],
+        [reward.wallet, reward.serial, reward.value]
+    );
+    return keccak256(keccak256(encoded));
+}
+
+/**
+ * @dev Sorted pair hashing, as expected by OpenZeppelin's MerkleProof
+ */
+function hashPair(a: string, b: string): string {
+    return a < b ? keccak256(concat([a, b])) : keccak256(concat([b, a]));
+}
+
+/**
+ * @notice Build the merkle tree of a reward epoch and the proof of every device reward.
+ * Rewards listed more than once for the same wallet and serial are summed into one leaf.
+ */
+export function buildRewardMerkleTree(rewards: EpochReward[]): RewardMerkleTree {
+    const merged = new Map<string, EpochReward>();
+    for (const reward of rewards) {
+        if (reward.value <= 0n) {
+            throw new Error(`Reward value must be greater than 0 for ${reward.wallet} / ${reward.serial}`);
+        }
+        const wallet = getAddress(reward.wallet);
+        const key = `${wallet}:${reward.serial}`;
+        const existing = merged.get(key);
+        merged.set(key, { wallet, serial: reward.serial, value: (existing?.value ?? 0n) + reward.value });
+    }
+    const entries = [...merged.values()];
+    if (entries.length === 0) {
+        throw new Error("Reward list is empty");
+    }
+
+    const layers: string[][] = [entries.map(epochRewardLeaf)];
+    while (layers[layers.length - 1].length > 1) {
+        const layer = layers[layers.length - 1];
+        const next: string[] = [];
+        for (let i = 0; i < layer.length; i += 2) {
+            // An odd node is carried up to the next layer unchanged
+            next.push(i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i]);
+        }
+        layers.push(next);
+    }
+
+    const proofs = entries.map((entry, position) => {
+        const proof: string[] = [];
+        let index = position;
+        for (const layer of layers.slice(0, -1)) {
+            const sibling = index ^ 1;
+            if (sibling < layer.length) {
+                proof.push(layer[sibling]);
+            }
+            index >>= 1;
+        }
+        return { ...entry, leaf: layers[0][position], proof };
+    });
+
+    return {
+        root: layers[layers.length - 1][0],
+        total: entries.reduce((sum, entry) => sum + entry.value, 0n),
+        rewards: proofs,
+    };
+}
+
+/**
+ * @notice Claims of a wallet in the shape expected by `IG3Reward.claimEpochRewards`
+ */
+export function epochRewardClaims(tree: RewardMerkleTree, wallet: string) {
+    const address = getAddress(wallet);
+    return tree.rewards
+        .filter((reward) => reward.wallet === address)
+        .map(({ serial, value, proof }) => ({ serial, value, proof }));
+}